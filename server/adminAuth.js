@@ -0,0 +1,46 @@
+// ===== ADMIN ROLES =====
+// Admin access belongs to Supabase users, not a shared secret. A user's role comes from
+//   1. the JWT claim app_metadata.role (set with the service key, users cannot edit it), or
+//   2. a row in admin_users (setup_admin_roles.sql).
+// Roles are ordered: 'support' can read the admin console, 'admin' can also change payments and plans.
+
+export const ADMIN_ROLES = ['support', 'admin'];
+
+export const isAdminRole = (role) => ADMIN_ROLES.includes(role);
+
+export const hasAdminRole = (role, required) =>
+    isAdminRole(role) && ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(required);
+
+// The user's admin role, or null for everyone else
+export const getAdminRole = async (supabase, user) => {
+    if (!user) return null;
+    if (isAdminRole(user.app_metadata?.role)) return user.app_metadata.role;
+
+    const { data, error } = await supabase
+        .from('admin_users')
+        .select('role')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+    if (error) throw error;
+    return isAdminRole(data?.role) ? data.role : null;
+};
+
+// Express middleware factory: requireRole('support') / requireRole('admin').
+// Sets req.admin = { user, role } and req.adminActor (the name written to the audit log).
+export const createRoleMiddleware = ({ getUser, getClient }) => (required) => async (req, res, next) => {
+    const user = await getUser(req);
+    if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+    try {
+        const role = await getAdminRole(getClient(), user);
+        if (!hasAdminRole(role, required)) return res.status(403).json({ error: 'Forbidden' });
+
+        req.admin = { user, role };
+        req.adminActor = user.email || user.id;
+        next();
+    } catch (err) {
+        console.error('[Admin] Role Lookup Error:', err);
+        res.status(500).json({ error: 'Could not verify admin access' });
+    }
+};
@@ -0,0 +1,2445 @@
+import express from 'express';
+import cors from 'cors';
+import twilio from 'twilio';
+import {
+    appointmentFunctions,
+    bookAppointment,
+    createAppointmentToolHandlers,
+    DEFAULT_AVAILABILITY,
+    listOpenSlots,
+    validateAvailability
+} from './appointments.js';
+import { createMessageToolHandlers, MESSAGE_STATUSES, messageFunctions } from './messages.js';
+import {
+    createTransferToolHandlers,
+    DEFAULT_TRANSFER_TIMEOUT,
+    getTransferTargets,
+    transferFunctions,
+    validateTransferSettings
+} from './transfer.js';
+import { createVoicemailToolHandlers, recordVoicemail, voicemailFunctions } from './voicemail.js';
+import { createTwilioSignatureValidator, matchesSigningAccount } from './twilioSignature.js';
+import { billableMinutes, getPeriodUsage, listPeriodUsage, recordCallUsage } from './usage.js';
+import { checkUsageAlerts, getLimitDecision, getUsageSettings, validateUsageSettings } from './usagePolicy.js';
+import {
+    downgradeBusiness,
+    PaymentWebhookError,
+    processPaymentEvent,
+    recordAdminAction,
+    refundPayment,
+    rejectPayment
+} from './payments/index.js';
+import { formatAmount, formatInvoiceNumber, renderReceiptPdf } from './invoices.js';
+import { createRoleMiddleware, getAdminRole } from './adminAuth.js';
+import { getTenantDetail, listTenants, setMinutesLimit, setSuspended, setTenantPlan, viewAsTenant } from './tenants.js';
+import { entitlementError, getEntitlements, getPlan, getPlanOrFree, hasEntitlement, PLANS } from './plans.js';
+import { configureNumber, listAccountNumbers, restoreNumber } from './twilioNumbers.js';
+import { decryptSecret, encryptSecret, hashForLookup, isEncryptionConfigured, withoutSecrets } from './credentials.js';
+import { describeSchedule, isOpenAt, validateSchedule } from './schedule.js';
+import { listProfileHistory, revertProfileChange, updateProfile, validateProfileUpdate } from './profile.js';
+import {
+    addDocument,
+    deleteDocument,
+    listDocuments,
+    retrievePassages,
+    searchKnowledge
+} from './knowledge/index.js';
+import { importWebsite, WebsiteImportError } from './websiteImport.js';
+import {
+    buildSystemPrompt,
+    getPromptSettings,
+    normalizePromptSettings,
+    PROMPT_CHANNELS,
+    promptVariables,
+    validatePromptSettings
+} from './prompts.js';
+
+// ===== APP =====
+// Builds the Express app around its outside services so tests can run it against fakes (see test/harness.js):
+//   getUser(req) -> user | null, getSupabaseClient(token), getServiceClient()
+//   llm: see llm/index.js, embedder: see knowledge/embeddings.js, mailer: see email.js
+//   getTwilioClient(business): see twilioNumbers.js, createTwilioClient(accountSid, authToken) for credentials being connected
+//   fetchRecording(url, options): fetch for recording audio, paymentProviders: see payments/index.js
+// settings carries the values index.js reads from env.
+export const createApp = ({
+    getUser,
+    getSupabaseClient,
+    getServiceClient,
+    llm,
+    embedder,
+    mailer,
+    getTwilioClient,
+    createTwilioClient,
+    fetchRecording,
+    paymentProviders,
+    settings = {}
+}) => {
+    const {
+        publicBaseUrl,
+        frontendUrl,
+        twilioAccountSid,
+        twilioAuthToken,
+        validateTwilioSignatures = true,
+        invoiceEmails = false,
+        paymentDetails = {}
+    } = settings;
+    const { sendEmail } = mailer;
+
+    const app = express();
+
+    // Render (and ngrok) terminate HTTPS in front of the app: trust the one proxy hop so req.protocol
+    // is https when PUBLIC_BASE_URL is not set (see twilioSignature.js)
+    app.set('trust proxy', 1);
+
+    // Middleware
+    app.use(cors());
+    // Knowledge base uploads carry whole documents (PDFs as base64); registered first so the default limit below does not apply
+    app.use('/api/knowledge', express.json({ limit: '15mb' }));
+    // Keep the raw body: payment webhooks are signed over the exact bytes received
+    app.use(express.json({ verify: (req, res, buf) => { req.rawBody = buf.toString('utf8'); } }));
+
+    // Root route for simple verification
+    app.get('/', (req, res) => {
+        res.send('Smart Reception Backend is running!');
+    });
+
+    // { role, content } turns from the client or a call transcript -> chat history
+    const toChatHistory = (turns) => turns.map(turn => ({
+        role: turn.role === 'assistant' ? 'assistant' : 'user',
+        content: turn.content || ''
+    }));
+
+    // Function declarations offered to the receptionist in web chat and on the phone
+    const receptionistTools = [...appointmentFunctions, ...messageFunctions];
+
+    // The phone line can also send callers to voicemail and, when configured, transfer them
+    const voiceTools = (canTransfer) => [
+        ...receptionistTools,
+        ...voicemailFunctions,
+        ...(canTransfer ? transferFunctions : [])
+    ];
+
+    // Dispatch a model's tool call to the matching handler; the result is sent back to the model
+    const createToolHandler = (handlers) => async (call) => {
+        try {
+            return handlers[call.name]
+                ? await handlers[call.name](call.args || {})
+                : { error: `Unknown tool: ${call.name}` };
+        } catch (err) {
+            console.error(`[Tools] ${call.name} failed:`, err);
+            return { error: 'This action is temporarily unavailable' };
+        }
+    };
+
+    // Transfers are only offered while open and when a staff number is configured
+    const getCallState = (business) => {
+        const isClosed = !!business.schedule && !isOpenAt(business.schedule);
+        return { isClosed, canTransfer: !isClosed && hasEntitlement(business, 'callTransfer') && getTransferTargets(business).length > 0 };
+    };
+
+    // Owner address: explicit notification_email, else the account email (needs the service role key)
+    const getOwnerEmail = async (business) => {
+        if (business.notification_email) return business.notification_email;
+
+        const { data } = await getServiceClient().auth.admin.getUserById(business.user_id);
+        return data?.user?.email || null;
+    };
+
+    const notifyOwnerOfMessage = async (business, message) => {
+        const to = await getOwnerEmail(business);
+        if (!to) {
+            console.warn(`[Messages] No notification email for business ${business.id}`);
+            return;
+        }
+
+        const caller = message.caller_name || message.caller_phone || 'Unknown caller';
+        await sendEmail({
+            to,
+            subject: `${message.urgency === 'high' ? '[URGENT] ' : ''}New message from ${caller}`,
+            text: [
+                `Your AI receptionist took a message for ${business.business_name}.`,
+                '',
+                `Name: ${message.caller_name || '-'}`,
+                `Phone: ${message.caller_phone || '-'}`,
+                `Urgency: ${message.urgency}`,
+                `Reason: ${message.reason}`,
+                '',
+                `Received via ${message.source} at ${new Date(message.created_at).toLocaleString()}`
+            ].join('\n')
+        });
+    };
+
+    const notifyOwnerOfUsage = async (business, threshold, minutesUsed) => {
+        const to = await getOwnerEmail(business);
+        if (!to) {
+            console.warn(`[Usage] No notification email for business ${business.id}`);
+            return;
+        }
+
+        const { limitAction } = getUsageSettings(business);
+        const atLimit = {
+            block: 'New calls are now being declined.',
+            voicemail: 'New callers are now sent straight to voicemail.',
+            grace: `Your AI receptionist keeps answering for up to ${getPlanOrFree(business.subscription_plan).overageMinutes} extra minutes, then callers go to voicemail.`
+        };
+
+        const sent = await sendEmail({
+            to,
+            subject: threshold >= 100
+                ? `${business.business_name} has used all of its call minutes`
+                : `${business.business_name} has used ${threshold}% of its call minutes`,
+            text: [
+                `Your AI receptionist has used ${minutesUsed} of ${business.minutes_limit} minutes this billing period.`,
+                '',
+                threshold >= 100 ? atLimit[limitAction] : 'Upgrade your plan before you run out to keep every call answered.',
+                business.current_period_end ? `Minutes reset on ${new Date(business.current_period_end).toDateString()}.` : ''
+            ].filter(Boolean).join('\n')
+        });
+        if (!sent) throw new Error('Usage alert email was not sent');
+    };
+
+    // Receipt emails are opt-in (INVOICE_EMAILS=true); customers can always download receipts from Billing
+    const emailInvoice = async (invoice) => {
+        if (!invoiceEmails) {
+            console.log(`[Invoices] ${formatInvoiceNumber(invoice.invoice_number)} issued. Receipt emails are disabled.`);
+            return;
+        }
+        if (!invoice.email) {
+            console.warn(`[Invoices] No email address for ${formatInvoiceNumber(invoice.invoice_number)}`);
+            return;
+        }
+
+        const number = formatInvoiceNumber(invoice.invoice_number);
+        const sent = await sendEmail({
+            to: invoice.email,
+            subject: `Your SmartReception receipt ${number}`,
+            text: [
+                `Thank you for your payment of ${formatAmount(invoice.amount, invoice.currency)} for the ${invoice.plan_name || invoice.plan}.`,
+                '',
+                'Your receipt is attached and is also available under Billing history in the dashboard.'
+            ].join('\n'),
+            attachments: [{ filename: `${number}.pdf`, content: renderReceiptPdf(invoice) }]
+        });
+
+        if (sent) {
+            await getServiceClient()
+                .from('invoices')
+                .update({ emailed_at: new Date().toISOString() })
+                .eq('id', invoice.id);
+        }
+    };
+
+    // Health check for deployment verification (Last updated: 2025-12-23)
+    app.get('/api/health', (req, res) => {
+        res.json({
+            status: 'ok',
+            model: llm.defaultModel,
+            deployment: '2025-12-24-resend-fix'
+        });
+    });
+
+    // Check setup status
+    app.get('/api/status', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+        const { data, error } = await supabase
+            .from('businesses')
+            .select('*')
+            .eq('user_id', user.id)
+            .single();
+
+        if (data) {
+            // Usage shown on the dashboard comes from the ledger so it matches the per-call breakdown
+            try {
+                data.minutes_used = await getPeriodUsage(supabase, data.id);
+            } catch (err) {
+                console.error('[Usage] Ledger Error, using running total:', err.message);
+            }
+            res.json({ setupCompleted: true, config: { ...withoutSecrets(data), entitlements: getEntitlements(data) } });
+        } else {
+            res.json({ setupCompleted: false });
+        }
+    });
+
+    // Save Onboarding Data
+    app.post('/api/setup', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { name, services, tone, workingHours, schedule, greeting, faqs } = req.body;
+
+        const validationError = validateProfileUpdate({ name, services, tone, greeting, schedule: schedule || undefined });
+        if (validationError) return res.status(400).json({ error: validationError });
+        if (faqs !== undefined && !Array.isArray(faqs)) return res.status(400).json({ error: 'FAQs must be a list' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        const { data: existing } = await supabase
+            .from('businesses')
+            .select('id')
+            .eq('user_id', user.id)
+            .maybeSingle();
+
+        // Running setup again only overwrites what was sent; saved hours, holidays and a custom
+        // notification address are kept
+        const row = { user_id: user.id, business_name: name, services, tone, greeting };
+        if (schedule) {
+            row.schedule = schedule;
+            row.working_hours = describeSchedule(schedule);
+        } else if (workingHours || !existing) {
+            row.working_hours = workingHours || '9 AM - 5 PM';
+        }
+        if (!existing) row.notification_email = user.email;
+
+        const { data, error } = await supabase
+            .from('businesses')
+            .upsert(row)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Supabase Error:', error);
+            return res.status(500).json({ error: error.message });
+        }
+
+        // FAQs kept from the website import start the knowledge base; the profile is saved even if this fails
+        if (faqs?.length) {
+            try {
+                const result = await addDocument(supabase, embedder, data.id, { title: 'Website FAQ', type: 'faq', content: faqs });
+                if (result.error) console.error('[Setup] FAQ Import Error:', result.error);
+            } catch (err) {
+                console.error('[Setup] FAQ Import Error:', err);
+            }
+        }
+
+        res.json({ success: true, id: data.id });
+    });
+
+    // POST /api/setup/import-website { url } -> { proposal: { name, services, greeting, weekly, hoursText, faqs }, pages }
+    // Nothing is saved; the owner reviews the proposal in onboarding
+    app.post('/api/setup/import-website', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        try {
+            res.json(await importWebsite(req.body.url));
+        } catch (err) {
+            if (err instanceof WebsiteImportError) return res.status(400).json({ error: err.message });
+            console.error('[Setup] Website Import Error:', err);
+            res.status(500).json({ error: 'Could not import the website' });
+        }
+    });
+
+    // PUT /api/schedule
+    app.put('/api/schedule', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const validationError = validateSchedule(req.body);
+        if (validationError) return res.status(400).json({ error: validationError });
+
+        const { timezone, weekly, holidays, afterHoursMode, afterHoursGreeting } = req.body;
+        const schedule = {
+            timezone,
+            weekly: weekly || {},
+            holidays: holidays || [],
+            afterHoursMode: afterHoursMode || 'message',
+            afterHoursGreeting: afterHoursGreeting || ''
+        };
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select('*')
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business) return res.status(404).json({ error: 'Business not found' });
+
+            // Saved through the profile so hours changes show up in the history too
+            const result = await updateProfile(supabase, business, { schedule }, { userId: user.id });
+            const saved = result.business || business;
+            res.json({ success: true, schedule: saved.schedule, working_hours: saved.working_hours });
+        } catch (err) {
+            console.error('[Schedule] Update Error:', err);
+            res.status(500).json({ error: err.message });
+        }
+    });
+
+    // ===== BUSINESS PROFILE =====
+
+    // PATCH /api/profile { name?, services?, tone?, greeting?, schedule? } -> { config, revision }
+    app.patch('/api/profile', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { name, services, tone, greeting, schedule } = req.body;
+        const update = { name, services, tone, greeting, schedule };
+        const validationError = validateProfileUpdate(update);
+        if (validationError) return res.status(400).json({ error: validationError });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select('*')
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business) return res.status(404).json({ error: 'Business not found' });
+
+            const result = await updateProfile(supabase, business, update, { userId: user.id });
+            if (result.unchanged) return res.json({ success: true, unchanged: true });
+
+            res.json({ success: true, config: withoutSecrets(result.business), revision: result.revision });
+        } catch (err) {
+            console.error('[Profile] Update Error:', err);
+            res.status(500).json({ error: 'Failed to update profile' });
+        }
+    });
+
+    // GET /api/profile/history -> recent profile changes, newest first
+    app.get('/api/profile/history', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select('id')
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business) return res.status(404).json({ error: 'Business not found' });
+
+            res.json(await listProfileHistory(supabase, business.id));
+        } catch (err) {
+            console.error('[Profile] History Error:', err);
+            res.status(500).json({ error: 'Failed to load profile history' });
+        }
+    });
+
+    // POST /api/profile/history/:id/revert -> puts back the values that change replaced
+    app.post('/api/profile/history/:id/revert', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select('*')
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business) return res.status(404).json({ error: 'Business not found' });
+
+            const result = await revertProfileChange(supabase, business, req.params.id, { userId: user.id });
+            if (result.error) return res.status(result.status).json({ error: result.error });
+
+            res.json({ success: true, config: withoutSecrets(result.business), revision: result.revision });
+        } catch (err) {
+            console.error('[Profile] Revert Error:', err);
+            res.status(500).json({ error: 'Failed to revert change' });
+        }
+    });
+
+    // PUT /api/transfer-settings
+    app.put('/api/transfer-settings', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const validationError = validateTransferSettings(req.body);
+        if (validationError) return res.status(400).json({ error: validationError });
+
+        const { forwardingNumber, ringGroup, timeoutSeconds } = req.body;
+        const transferSettings = forwardingNumber ? {
+            forwardingNumber,
+            ringGroup: ringGroup || [],
+            timeoutSeconds: Number(timeoutSeconds ?? DEFAULT_TRANSFER_TIMEOUT)
+        } : null;
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        // Turning transfer off is always allowed; turning it on needs the entitlement
+        if (transferSettings) {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select('subscription_plan')
+                .eq('user_id', user.id)
+                .single();
+
+            if (!hasEntitlement(business, 'callTransfer')) return res.status(403).json(entitlementError('callTransfer'));
+        }
+
+        const { data, error } = await supabase
+            .from('businesses')
+            .update({ transfer_settings: transferSettings })
+            .eq('user_id', user.id)
+            .select('transfer_settings')
+            .single();
+
+        if (error) {
+            console.error('[Transfer] Update Error:', error);
+            return res.status(500).json({ error: error.message });
+        }
+
+        res.json({ success: true, transferSettings: data.transfer_settings });
+    });
+
+    // GET /api/ai-models -> { models, defaultModel } the receptionist can run on
+    app.get('/api/ai-models', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        res.json({ models: llm.listModels(), defaultModel: llm.defaultModel });
+    });
+
+    // PUT /api/ai-model { model: '<provider>:<model>' | null } -> null goes back to the platform default
+    app.put('/api/ai-model', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const model = req.body.model || null;
+        if (model && !llm.isAvailable(model)) return res.status(400).json({ error: `Unknown model: ${model}` });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+        const { data, error } = await supabase
+            .from('businesses')
+            .update({ ai_model: model })
+            .eq('user_id', user.id)
+            .select('ai_model')
+            .single();
+
+        if (error) {
+            console.error('[AI Model] Update Error:', error);
+            return res.status(500).json({ error: error.message });
+        }
+
+        res.json({ success: true, model: data.ai_model });
+    });
+
+    // ===== PROMPTS =====
+
+    // PUT /api/prompt-settings { instructions, channelInstructions: { chat, voice, sms }, guardrails }
+    app.put('/api/prompt-settings', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const validationError = validatePromptSettings(req.body);
+        if (validationError) return res.status(400).json({ error: validationError });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+        const { data, error } = await supabase
+            .from('businesses')
+            .update({ prompt_settings: normalizePromptSettings(req.body) })
+            .eq('user_id', user.id)
+            .select('prompt_settings')
+            .single();
+
+        if (error) {
+            console.error('[Prompts] Settings Update Error:', error);
+            return res.status(500).json({ error: error.message });
+        }
+
+        res.json({ success: true, promptSettings: getPromptSettings(data) });
+    });
+
+    // POST /api/prompt/preview { channel, promptSettings?, question? } -> { prompt, variables }
+    // The exact system prompt the AI gets on that channel. promptSettings previews unsaved edits;
+    // question adds the knowledge base passages that would be retrieved for it.
+    app.post('/api/prompt/preview', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { channel = 'chat', promptSettings, question } = req.body;
+        if (!PROMPT_CHANNELS.includes(channel)) return res.status(400).json({ error: `Channel must be one of: ${PROMPT_CHANNELS.join(', ')}` });
+        if (promptSettings) {
+            const validationError = validatePromptSettings(promptSettings);
+            if (validationError) return res.status(400).json({ error: validationError });
+        }
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+        const { data: business } = await supabase
+            .from('businesses')
+            .select('*')
+            .eq('user_id', user.id)
+            .single();
+
+        if (!business) return res.status(404).json({ error: 'Business not found' });
+
+        const passages = question ? await retrievePassages(supabase, embedder, business.id, question) : [];
+        const prompt = buildSystemPrompt({
+            channel,
+            business,
+            passages,
+            ...(channel === 'voice' && getCallState(business)),
+            settings: promptSettings ? normalizePromptSettings(promptSettings) : getPromptSettings(business)
+        });
+
+        res.json({ channel, prompt, variables: promptVariables(business) });
+    });
+
+    // Chat Endpoint
+    app.post('/api/chat', async (req, res) => {
+        console.log('[Chat] Received request. Body config present:', !!req.body?.config);
+        try {
+            // Validation
+            if (!req.body) {
+                return res.status(400).json({ error: 'Missing request body' });
+            }
+
+            // Check for Demo Config first (Unauthenticated flow)
+            let config = req.body.config;
+            let user = null;
+            let supabase = null;
+            let toolHandler = null;
+            const isDemoMode = !!config;
+
+            if (!config) {
+                // Authenticated flow: Get user and fetch from DB
+                user = await getUser(req);
+                if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+                const token = req.headers.authorization?.split(' ')[1];
+                if (!token) return res.status(401).json({ error: 'Missing token' });
+
+                supabase = getSupabaseClient(token);
+                const { data: dbConfig, error } = await supabase
+                    .from('businesses')
+                    .select('*')
+                    .eq('user_id', user.id)
+                    .single();
+
+                if (error || !dbConfig) {
+                    return res.status(400).json({ error: 'Business configuration not found' });
+                }
+                config = dbConfig;
+                toolHandler = createToolHandler({
+                    ...createAppointmentToolHandlers(supabase, dbConfig, { source: 'chat' }),
+                    ...createMessageToolHandlers(supabase, dbConfig, {
+                        source: 'chat',
+                        onSaved: (message) => notifyOwnerOfMessage(dbConfig, message)
+                    })
+                });
+            }
+
+            if (!config) {
+                return res.status(400).json({ error: 'Business not configured' });
+            }
+
+            const { message, history } = req.body;
+
+            if (!message) {
+                return res.status(400).json({ error: 'Message is required' });
+            }
+
+            // Demo configs have no stored knowledge base
+            const passages = supabase ? await retrievePassages(supabase, embedder, config.id, message) : [];
+            const systemPrompt = buildSystemPrompt({ channel: 'chat', business: config, passages, tools: !!toolHandler });
+
+            const turn = {
+                preferredModel: isDemoMode ? null : config.ai_model,
+                system: systemPrompt,
+                history: toChatHistory(Array.isArray(history) ? history : []),
+                message,
+                tools: receptionistTools,
+                toolHandler
+            };
+
+            // Demo mode: Return JSON response
+            if (isDemoMode) {
+                console.log('[Chat] Demo mode: collecting full response for JSON');
+                const { text } = await llm.runChatTurn(turn);
+                return res.json({ response: text });
+            }
+
+            // Authenticated mode: Stream response
+            console.log('[Chat] Authenticated mode: streaming response');
+            res.setHeader('Content-Type', 'text/plain');
+            res.setHeader('Transfer-Encoding', 'chunked');
+
+            await llm.runChatTurn({ ...turn, onText: (text) => res.write(text) });
+
+            res.end();
+
+        } catch (error) {
+            console.error('AI/Server API Error:', error);
+
+            // Ensure we don't try to send headers if already sent (streaming started)
+            if (!res.headersSent) {
+                res.status(500).json({
+                    error: error.message || 'Internal Server Error',
+                    details: error.toString()
+                });
+            } else {
+                console.error('Error occurred after headers sent, ending stream.');
+                res.end();
+            }
+        }
+    });
+
+    // Global Error Handler (Must be last)
+    app.use((err, req, res, next) => {
+        console.error('Unhandled Error:', err);
+        if (!res.headersSent) {
+            res.status(500).json({ error: 'Internal Server Error', message: err.message });
+        }
+    });
+
+    // ===== TWILIO INTEGRATION =====
+
+    const VoiceResponse = twilio.twiml.VoiceResponse;
+
+    // Decrypted Twilio credentials for a business row, falling back to the platform account from env
+    const getTwilioCredentials = (business) => ({
+        accountSid: decryptSecret(business?.twilio_account_sid) || twilioAccountSid,
+        authToken: decryptSecret(business?.twilio_auth_token) || twilioAuthToken
+    });
+
+    const TWILIO_SID_PATTERN = /^AC[0-9a-fA-F]{32}$/;
+
+    // Auth tokens allowed to sign webhooks for an account: each connected business's own token, then the env token
+    const getTwilioAuthTokens = async (accountSid) => {
+        const tokens = [];
+
+        if (TWILIO_SID_PATTERN.test(accountSid || '')) {
+            // Encrypted rows are matched on the keyed hash; legacy plaintext rows on the SID itself
+            const lookup = isEncryptionConfigured()
+                ? `twilio_account_sid_hash.eq.${hashForLookup(accountSid)},twilio_account_sid.eq.${accountSid}`
+                : `twilio_account_sid.eq.${accountSid}`;
+            const { data } = await getServiceClient()
+                .from('businesses')
+                .select('twilio_auth_token')
+                .or(lookup);
+            tokens.push(...(data || []).map(b => decryptSecret(b.twilio_auth_token)));
+        }
+        if (twilioAuthToken) tokens.push(twilioAuthToken);
+
+        return tokens.filter(Boolean);
+    };
+
+    // Helper: Validate Twilio signature
+    const validateTwilioRequest = createTwilioSignatureValidator({
+        getAuthTokens: getTwilioAuthTokens,
+        publicBaseUrl,
+        enabled: validateTwilioSignatures
+    });
+
+    // The business must use the Twilio account that signed the webhook (its own, or the platform account)
+    const isSignedForBusiness = (req, business) => matchesSigningAccount(req, getTwilioCredentials(business).accountSid);
+
+    // Business a call belongs to, from its call log; null when the call is unknown
+    const getCallBusiness = async (supabase, callSid) => {
+        const { data: callLog } = await supabase
+            .from('call_logs')
+            .select('business_id')
+            .eq('call_sid', callSid)
+            .maybeSingle();
+
+        if (!callLog) return null;
+
+        const { data: business } = await supabase
+            .from('businesses')
+            .select('id, twilio_account_sid')
+            .eq('id', callLog.business_id)
+            .maybeSingle();
+
+        return business;
+    };
+
+    // For callbacks about a call we already logged (?call_sid=...): the call must be on the signing account
+    const requireSignedCall = async (req, res, next) => {
+        try {
+            const business = await getCallBusiness(getServiceClient(), req.query.call_sid);
+            if (business && isSignedForBusiness(req, business)) return next();
+
+            console.error(`[Twilio] Call ${req.query.call_sid} does not belong to account ${req.twilioAccountSid}`);
+            res.status(403).send('Forbidden');
+        } catch (err) {
+            console.error('[Twilio] Call lookup error:', err);
+            res.status(500).send('Call lookup failed');
+        }
+    };
+
+    // Webhook URLs for numbers we manage, from PUBLIC_BASE_URL or the current host (Twilio needs https)
+    const getTwilioWebhookUrls = (req) => {
+        const baseUrl = publicBaseUrl ? publicBaseUrl.replace(/\/+$/, '') : `https://${req.get('host')}`;
+        return {
+            voiceUrl: `${baseUrl}/webhooks/twilio/voice`,
+            statusUrl: `${baseUrl}/webhooks/twilio/status`
+        };
+    };
+
+    const TWILIO_BUSINESS_COLUMNS = 'id, twilio_account_sid, twilio_auth_token, twilio_phone_number, twilio_phone_sid, twilio_original_config';
+
+    // Points numberSid at our webhooks. The previously managed number (if different) gets its original config back.
+    // Returns the columns to store on the business row.
+    const manageTwilioNumber = async (client, business, numberSid, urls) => {
+        if (business.twilio_phone_sid && business.twilio_phone_sid !== numberSid) {
+            try {
+                const previousClient = getTwilioClient(business) || client;
+                await restoreNumber(previousClient, business.twilio_phone_sid, business.twilio_original_config);
+            } catch (err) {
+                console.error(`[Twilio] Could not restore previous number ${business.twilio_phone_sid}:`, err.message);
+            }
+        }
+
+        const { number, original } = await configureNumber(client, numberSid, urls);
+        const keepOriginal = business.twilio_original_config?.phoneNumberSid === numberSid;
+
+        return {
+            twilio_phone_number: number.phoneNumber,
+            twilio_phone_sid: number.sid,
+            twilio_original_config: keepOriginal ? business.twilio_original_config : original
+        };
+    };
+
+    // Save Twilio number to business and automagically configure webhooks
+    app.post('/api/twilio/connect', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { phoneNumber, accountSid, authToken } = req.body;
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        if (!isEncryptionConfigured()) {
+            return res.status(503).json({ error: 'Credential storage is not configured on the server. Set CREDENTIALS_ENCRYPTION_KEY.' });
+        }
+        if (!phoneNumber || !accountSid || !authToken) {
+            return res.status(400).json({ error: 'Account SID, Auth Token and phone number are required' });
+        }
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select(TWILIO_BUSINESS_COLUMNS)
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business) return res.status(404).json({ error: 'Business not found' });
+
+            const urls = getTwilioWebhookUrls(req);
+            console.log(`Setting up Twilio number ${phoneNumber} with webhook: ${urls.voiceUrl}`);
+
+            // Initialize Twilio with PROVIDED credentials
+            const client = createTwilioClient(accountSid, authToken);
+
+            // Find the phone number in their account
+            const incomingNumbers = await client.incomingPhoneNumbers.list({ phoneNumber });
+
+            if (incomingNumbers.length === 0) {
+                return res.status(400).json({ error: `Phone number ${phoneNumber} not found in this Twilio account.` });
+            }
+
+            const numberColumns = await manageTwilioNumber(client, business, incomingNumbers[0].sid, urls);
+
+            // Save to Supabase
+            const { data, error } = await supabase
+                .from('businesses')
+                .update({
+                    ...numberColumns,
+                    twilio_account_sid: encryptSecret(accountSid),
+                    twilio_account_sid_hash: hashForLookup(accountSid),
+                    twilio_auth_token: encryptSecret(authToken)
+                })
+                .eq('user_id', user.id)
+                .select()
+                .single();
+
+            if (error) throw error;
+
+            res.json({
+                success: true,
+                message: 'Twilio configured and webhook set automatically!',
+                business: withoutSecrets(data)
+            });
+
+        } catch (error) {
+            console.error('Twilio automation error:', error);
+            res.status(500).json({
+                error: error.message || 'Failed to configure Twilio automation',
+                details: 'Make sure your SID and Auth Token are correct and you are using a public URL (like ngrok).'
+            });
+        }
+    });
+
+    // GET /api/twilio/numbers (numbers in the connected account)
+    app.get('/api/twilio/numbers', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select(TWILIO_BUSINESS_COLUMNS)
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business?.twilio_account_sid) return res.status(400).json({ error: 'Connect your Twilio account first' });
+
+            const numbers = await listAccountNumbers(getTwilioClient(business));
+            res.json({
+                numbers: numbers.map(n => ({ ...n, managed: n.sid === business.twilio_phone_sid }))
+            });
+        } catch (err) {
+            console.error('[Twilio] List Numbers Error:', err);
+            res.status(502).json({ error: err.message || 'Failed to list Twilio numbers' });
+        }
+    });
+
+    // POST /api/twilio/numbers (preview the numbers for credentials that are not saved yet)
+    app.post('/api/twilio/numbers', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { accountSid, authToken } = req.body;
+        if (!accountSid || !authToken) return res.status(400).json({ error: 'Account SID and Auth Token are required' });
+
+        try {
+            const numbers = await listAccountNumbers(createTwilioClient(accountSid, authToken));
+            res.json({ numbers: numbers.map(n => ({ ...n, managed: false })) });
+        } catch (err) {
+            console.error('[Twilio] List Numbers Error:', err);
+            res.status(400).json({ error: 'Could not list numbers. Check your Account SID and Auth Token.' });
+        }
+    });
+
+    // POST /api/twilio/switch { phoneNumberSid }
+    app.post('/api/twilio/switch', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { phoneNumberSid } = req.body;
+        if (!phoneNumberSid) return res.status(400).json({ error: 'phoneNumberSid is required' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select(TWILIO_BUSINESS_COLUMNS)
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business?.twilio_account_sid) return res.status(400).json({ error: 'Connect your Twilio account first' });
+            if (business.twilio_phone_sid === phoneNumberSid) {
+                return res.json({ success: true, phoneNumber: business.twilio_phone_number });
+            }
+
+            const client = getTwilioClient(business);
+            const numbers = await listAccountNumbers(client);
+            if (!numbers.some(n => n.sid === phoneNumberSid)) {
+                return res.status(404).json({ error: 'That number is not in your Twilio account' });
+            }
+
+            const numberColumns = await manageTwilioNumber(client, business, phoneNumberSid, getTwilioWebhookUrls(req));
+
+            const { error } = await supabase
+                .from('businesses')
+                .update(numberColumns)
+                .eq('id', business.id);
+
+            if (error) throw error;
+            res.json({ success: true, phoneNumber: numberColumns.twilio_phone_number });
+        } catch (err) {
+            console.error('[Twilio] Switch Number Error:', err);
+            res.status(500).json({ error: err.message || 'Failed to switch number' });
+        }
+    });
+
+    // POST /api/twilio/disconnect (hand the number back with its original webhooks and forget the account)
+    app.post('/api/twilio/disconnect', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select(TWILIO_BUSINESS_COLUMNS)
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business) return res.status(404).json({ error: 'Business not found' });
+
+            let restored = false;
+            if (business.twilio_phone_sid && business.twilio_account_sid) {
+                try {
+                    await restoreNumber(getTwilioClient(business), business.twilio_phone_sid, business.twilio_original_config);
+                    restored = true;
+                } catch (err) {
+                    // Credentials may have been revoked in Twilio; still let the owner disconnect
+                    console.error('[Twilio] Restore On Disconnect Error:', err.message);
+                }
+            }
+
+            const { error } = await supabase
+                .from('businesses')
+                .update({
+                    twilio_phone_number: null,
+                    twilio_phone_sid: null,
+                    twilio_original_config: null,
+                    twilio_account_sid: null,
+                    twilio_account_sid_hash: null,
+                    twilio_auth_token: null
+                })
+                .eq('id', business.id);
+
+            if (error) throw error;
+            res.json({ success: true, restored });
+        } catch (err) {
+            console.error('[Twilio] Disconnect Error:', err);
+            res.status(500).json({ error: err.message || 'Failed to disconnect Twilio' });
+        }
+    });
+
+    // Get Twilio status
+    app.get('/api/twilio/status', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+        const { data } = await supabase
+            .from('businesses')
+            .select('twilio_phone_number, twilio_phone_sid, twilio_account_sid')
+            .eq('user_id', user.id)
+            .single();
+
+        res.json({
+            connected: !!data?.twilio_phone_number,
+            phoneNumber: data?.twilio_phone_number || null,
+            accountConnected: !!data?.twilio_account_sid
+        });
+    });
+
+
+    // ===== KNOWLEDGE BASE =====
+
+    // Looks up the signed-in owner's business id; null when there is none
+    const getOwnBusinessId = async (supabase, userId) => {
+        const { data: business } = await supabase
+            .from('businesses')
+            .select('id')
+            .eq('user_id', userId)
+            .single();
+
+        return business?.id || null;
+    };
+
+    // GET /api/knowledge -> documents in the business's knowledge base, newest first
+    app.get('/api/knowledge', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const businessId = await getOwnBusinessId(supabase, user.id);
+            if (!businessId) return res.status(404).json({ error: 'Business not found' });
+
+            res.json(await listDocuments(supabase, businessId));
+        } catch (err) {
+            console.error('[Knowledge] List Error:', err);
+            res.status(500).json({ error: 'Failed to load knowledge base' });
+        }
+    });
+
+    // POST /api/knowledge { title, type: 'faq' | 'text' | 'markdown' | 'pdf', content } -> { document }
+    // content is [{ question, answer }] for FAQs, base64 for PDFs and the text itself otherwise
+    app.post('/api/knowledge', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const businessId = await getOwnBusinessId(supabase, user.id);
+            if (!businessId) return res.status(404).json({ error: 'Business not found' });
+
+            const { title, type, content } = req.body;
+            const result = await addDocument(supabase, embedder, businessId, { title, type, content });
+            if (result.error) return res.status(result.status).json({ error: result.error });
+
+            res.json({ success: true, document: result.document });
+        } catch (err) {
+            console.error('[Knowledge] Upload Error:', err);
+            res.status(500).json({ error: 'Failed to add document' });
+        }
+    });
+
+    // DELETE /api/knowledge/:id
+    app.delete('/api/knowledge/:id', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const businessId = await getOwnBusinessId(supabase, user.id);
+            if (!businessId) return res.status(404).json({ error: 'Business not found' });
+
+            const result = await deleteDocument(supabase, businessId, req.params.id);
+            if (result.error) return res.status(result.status).json({ error: result.error });
+
+            res.json({ success: true });
+        } catch (err) {
+            console.error('[Knowledge] Delete Error:', err);
+            res.status(500).json({ error: 'Failed to delete document' });
+        }
+    });
+
+    // POST /api/knowledge/search { query } -> passages the AI would be given for this question
+    app.post('/api/knowledge/search', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { query } = req.body;
+        if (!query?.trim()) return res.status(400).json({ error: 'Query is required' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const businessId = await getOwnBusinessId(supabase, user.id);
+            if (!businessId) return res.status(404).json({ error: 'Business not found' });
+
+            res.json(await searchKnowledge(supabase, embedder, businessId, query));
+        } catch (err) {
+            console.error('[Knowledge] Search Error:', err);
+            res.status(500).json({ error: 'Search failed' });
+        }
+    });
+
+    // ===== USAGE =====
+
+    // PUT /api/usage-settings { limitAction, alertThresholds }
+    app.put('/api/usage-settings', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const validationError = validateUsageSettings(req.body);
+        if (validationError) return res.status(400).json({ error: validationError });
+
+        const usageSettings = {
+            limitAction: req.body.limitAction,
+            alertThresholds: [...new Set(req.body.alertThresholds)].sort((a, b) => a - b)
+        };
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+        const { data, error } = await supabase
+            .from('businesses')
+            .update({ usage_settings: usageSettings })
+            .eq('user_id', user.id)
+            .select('usage_settings')
+            .single();
+
+        if (error) {
+            console.error('[Usage] Settings Update Error:', error);
+            return res.status(500).json({ error: error.message });
+        }
+
+        res.json({ success: true, usageSettings: data.usage_settings });
+    });
+
+    // GET /api/usage (ledger entries for the current billing period)
+    app.get('/api/usage', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select('id, minutes_limit, current_period_start, current_period_end')
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business) return res.status(404).json({ error: 'Business not found' });
+
+            const entries = await listPeriodUsage(supabase, business);
+            res.json({
+                periodStart: business.current_period_start,
+                periodEnd: business.current_period_end,
+                minutesLimit: business.minutes_limit,
+                minutesUsed: entries.reduce((sum, entry) => sum + entry.minutes, 0),
+                entries
+            });
+        } catch (err) {
+            console.error('[Usage] Ledger Error:', err);
+            res.status(500).json({ error: 'Failed to load usage' });
+        }
+    });
+
+
+    // ===== CALL HISTORY =====
+
+    const CALLS_PAGE_SIZE = 20;
+
+    // Older rows store a single { user, ai } object instead of a list of turns
+    const normalizeTranscript = (transcript) => {
+        if (Array.isArray(transcript)) return transcript;
+        if (transcript && typeof transcript === 'object') {
+            const turns = [];
+            if (transcript.user) turns.push({ role: 'user', content: transcript.user });
+            if (transcript.ai) turns.push({ role: 'assistant', content: transcript.ai });
+            return turns;
+        }
+        return [];
+    };
+
+    // GET /api/calls?page=1&pageSize=20&status=completed&search=+1555&since=2025-01-01&until=2025-02-01&voicemail=true
+    app.get('/api/calls', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select('id')
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business) return res.status(404).json({ error: 'Business not found' });
+
+            const { status, search, since, until, voicemail } = req.query;
+            const page = Math.max(parseInt(req.query.page) || 1, 1);
+            const pageSize = Math.min(Math.max(parseInt(req.query.pageSize) || CALLS_PAGE_SIZE, 1), 100);
+            const offset = (page - 1) * pageSize;
+
+            let query = supabase
+                .from('call_logs')
+                .select('id, call_sid, from_number, to_number, status, duration, recording_url, created_at', { count: 'exact' })
+                .eq('business_id', business.id)
+                .order('created_at', { ascending: false })
+                .range(offset, offset + pageSize - 1);
+
+            if (status) query = query.eq('status', status);
+            if (search) query = query.ilike('from_number', `%${search}%`);
+            if (since) query = query.gte('created_at', since);
+            if (until) query = query.lte('created_at', until);
+            if (voicemail === 'true') query = query.not('recording_url', 'is', null);
+
+            const { data, count, error } = await query;
+            if (error) throw error;
+
+            res.json({ calls: data || [], total: count || 0, page, pageSize });
+        } catch (err) {
+            console.error('[Calls] List Error:', err);
+            res.status(500).json({ error: 'Failed to load calls' });
+        }
+    });
+
+    // GET /api/calls/:id
+    app.get('/api/calls/:id', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select('id')
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business) return res.status(404).json({ error: 'Business not found' });
+
+            const { data: call } = await supabase
+                .from('call_logs')
+                .select('*')
+                .eq('id', req.params.id)
+                .eq('business_id', business.id)
+                .single();
+
+            if (!call) return res.status(404).json({ error: 'Call not found' });
+
+            res.json({ ...call, transcript: normalizeTranscript(call.transcript) });
+        } catch (err) {
+            console.error('[Calls] Detail Error:', err);
+            res.status(500).json({ error: 'Failed to load call' });
+        }
+    });
+
+    // GET /api/calls/:id/recording (proxied because Twilio media URLs need the account credentials)
+    app.get('/api/calls/:id/recording', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select('id, twilio_account_sid, twilio_auth_token')
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business) return res.status(404).json({ error: 'Business not found' });
+
+            const { data: call } = await supabase
+                .from('call_logs')
+                .select('recording_url')
+                .eq('id', req.params.id)
+                .eq('business_id', business.id)
+                .single();
+
+            if (!call?.recording_url) return res.status(404).json({ error: 'No recording for this call' });
+
+            const { accountSid, authToken } = getTwilioCredentials(business);
+            const upstream = await fetchRecording(`${call.recording_url}.mp3`, {
+                headers: { Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}` }
+            });
+
+            if (!upstream.ok) throw new Error(`Twilio returned ${upstream.status}`);
+
+            res.type('audio/mpeg').send(Buffer.from(await upstream.arrayBuffer()));
+        } catch (err) {
+            console.error('[Calls] Recording Error:', err);
+            res.status(502).json({ error: 'Failed to fetch recording' });
+        }
+    });
+
+
+    // ===== APPOINTMENTS =====
+
+    // GET /api/availability
+    app.get('/api/availability', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+        const { data: business } = await supabase
+            .from('businesses')
+            .select('availability')
+            .eq('user_id', user.id)
+            .single();
+
+        if (!business) return res.status(404).json({ error: 'Business not found' });
+        res.json(business.availability || DEFAULT_AVAILABILITY);
+    });
+
+    // PUT /api/availability
+    app.put('/api/availability', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const validationError = validateAvailability(req.body);
+        if (validationError) return res.status(400).json({ error: validationError });
+
+        const { slotMinutes, weekly } = req.body;
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        const { data, error } = await supabase
+            .from('businesses')
+            .update({ availability: { slotMinutes: Number(slotMinutes), weekly: weekly || {} } })
+            .eq('user_id', user.id)
+            .select('availability')
+            .single();
+
+        if (error) {
+            console.error('[Appointments] Availability Error:', error);
+            return res.status(500).json({ error: error.message });
+        }
+
+        res.json(data.availability);
+    });
+
+    // GET /api/appointments/slots?date=2025-01-31
+    app.get('/api/appointments/slots', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select('id, availability')
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business) return res.status(404).json({ error: 'Business not found' });
+
+            const result = await listOpenSlots(supabase, business, req.query.date);
+            if (result.error) return res.status(400).json({ error: result.error });
+
+            res.json(result);
+        } catch (err) {
+            console.error('[Appointments] Slots Error:', err);
+            res.status(500).json({ error: 'Failed to load slots' });
+        }
+    });
+
+    // GET /api/appointments?from=2025-01-01&to=2025-01-31&status=booked
+    app.get('/api/appointments', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+        const { from, to, status } = req.query;
+
+        let query = supabase
+            .from('appointments')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('date', { ascending: true })
+            .order('start_time', { ascending: true });
+
+        if (from) query = query.gte('date', from);
+        if (to) query = query.lte('date', to);
+        if (status) query = query.eq('status', status);
+
+        const { data, error } = await query;
+        if (error) {
+            console.error('[Appointments] List Error:', error);
+            return res.status(500).json({ error: 'Failed to load appointments' });
+        }
+
+        res.json(data);
+    });
+
+    // POST /api/appointments
+    app.post('/api/appointments', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select('id, user_id, availability')
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business) return res.status(404).json({ error: 'Business not found' });
+
+            const { date, time, customerName, customerPhone, service, notes } = req.body;
+            const result = await bookAppointment(supabase, business, {
+                date, time, customerName, customerPhone, service, notes, source: 'dashboard'
+            });
+
+            if (result.error) {
+                return res.status(result.status).json({ error: result.error, alternatives: result.alternatives });
+            }
+
+            res.json({ success: true, appointment: result.appointment });
+        } catch (err) {
+            console.error('[Appointments] Booking Error:', err);
+            res.status(500).json({ error: 'Booking failed' });
+        }
+    });
+
+    // POST /api/appointments/:id/cancel
+    app.post('/api/appointments/:id/cancel', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+        const { data, error } = await supabase
+            .from('appointments')
+            .update({ status: 'cancelled' })
+            .eq('id', req.params.id)
+            .eq('user_id', user.id)
+            .eq('status', 'booked')
+            .select()
+            .single();
+
+        if (error || !data) return res.status(404).json({ error: 'Appointment not found or already cancelled' });
+
+        res.json({ success: true, appointment: data });
+    });
+
+
+    // ===== MESSAGES =====
+
+    // GET /api/messages?status=new
+    app.get('/api/messages', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+        let query = supabase
+            .from('messages')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: false })
+            .limit(200);
+
+        if (req.query.status) query = query.eq('status', req.query.status);
+
+        const { data, error } = await query;
+        if (error) {
+            console.error('[Messages] List Error:', error);
+            return res.status(500).json({ error: 'Failed to load messages' });
+        }
+
+        res.json(data);
+    });
+
+    // PATCH /api/messages/:id
+    app.patch('/api/messages/:id', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { status } = req.body;
+        if (!MESSAGE_STATUSES.includes(status)) {
+            return res.status(400).json({ error: `Status must be one of: ${MESSAGE_STATUSES.join(', ')}` });
+        }
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+        const { data, error } = await supabase
+            .from('messages')
+            .update({ status })
+            .eq('id', req.params.id)
+            .eq('user_id', user.id)
+            .select()
+            .single();
+
+        if (error || !data) return res.status(404).json({ error: 'Message not found' });
+
+        res.json({ success: true, message: data });
+    });
+
+
+    // ===== BILLING & PAYMENTS =====
+
+    // GET /api/billing/plans
+    app.get('/api/billing/plans', (req, res) => {
+        res.json(PLANS);
+    });
+
+    // GET /api/billing/methods
+    app.get('/api/billing/methods', (req, res) => {
+        const { card, manual } = paymentProviders;
+        res.json({
+            card: card ? { id: card.id, name: card.name } : null,
+            manual: manual.methods
+        });
+    });
+
+    // POST /api/billing/checkout { plan } -> { url } of the hosted card checkout
+    app.post('/api/billing/checkout', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { card } = paymentProviders;
+        if (!card) return res.status(503).json({ error: 'Card payments are not available' });
+
+        const plan = getPlan(req.body.plan);
+        if (!plan) return res.status(400).json({ error: 'Unknown plan' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const { data: business } = await supabase
+                .from('businesses')
+                .select('id')
+                .eq('user_id', user.id)
+                .single();
+
+            if (!business) return res.status(404).json({ error: 'Business not found' });
+
+            const appUrl = (frontendUrl || req.get('origin') || '').replace(/\/+$/, '');
+            const { sessionId, url } = await card.createCheckout({
+                plan,
+                business,
+                email: user.email,
+                successUrl: `${appUrl}/?checkout=success`,
+                cancelUrl: `${appUrl}/?checkout=cancelled`
+            });
+
+            const { error } = await supabase
+                .from('payment_requests')
+                .insert({
+                    user_id: user.id,
+                    email: user.email,
+                    business_id: business.id,
+                    plan: plan.id,
+                    amount: plan.price,
+                    payment_method: card.id,
+                    provider_session_id: sessionId,
+                    status: 'pending'
+                });
+
+            if (error) throw error;
+
+            res.json({ url });
+        } catch (err) {
+            console.error('[Billing] Checkout Error:', err);
+            res.status(500).json({ error: 'Could not start checkout' });
+        }
+    });
+
+    // POST /webhooks/payments/:provider (signed by the card provider)
+    app.post('/webhooks/payments/:provider', async (req, res) => {
+        const { card } = paymentProviders;
+        if (!card || card.id !== req.params.provider) return res.status(404).json({ error: 'Unknown payment provider' });
+
+        let event;
+        try {
+            event = card.parseWebhook(req.rawBody || '', req.headers);
+        } catch (err) {
+            if (err instanceof PaymentWebhookError) {
+                console.error(`[Payments] Rejected ${card.id} webhook:`, err.message);
+                return res.status(400).json({ error: err.message });
+            }
+            console.error('[Payments] Webhook Parse Error:', err);
+            return res.status(400).json({ error: 'Invalid payload' });
+        }
+
+        try {
+            const result = await processPaymentEvent(getServiceClient(), card.id, event);
+            console.log(`[Payments] ${card.id} event ${event.id} (${event.type}):`, result.duplicate ? 'duplicate' : 'processed');
+            if (result.invoice) await emailInvoice(result.invoice);
+            res.json({ received: true });
+        } catch (err) {
+            // Non-2xx makes the provider retry later
+            console.error('[Payments] Webhook Error:', err);
+            res.status(500).json({ error: 'Processing failed' });
+        }
+    });
+
+    // GET /api/billing/mock-checkout/:sessionId (test-mode checkout page)
+    app.get('/api/billing/mock-checkout/:sessionId', (req, res) => {
+        const { card } = paymentProviders;
+        const session = card?.id === 'mock' ? card.getSession(req.params.sessionId) : null;
+        if (!session) return res.status(404).send('Checkout session not found');
+
+        res.type('html').send(`<!doctype html>
+<html><body style="font-family: sans-serif; background: #0f172a; color: white; display: flex; justify-content: center; padding-top: 80px;">
+  <form method="POST" style="background: #1e293b; padding: 32px; border-radius: 16px; width: 320px;">
+    <h2>Test checkout</h2>
+    <p>${session.plan.name}: <b>$${session.plan.price}</b></p>
+    <p style="color: #94a3b8; font-size: 13px;">No real card is charged in test mode.</p>
+    <button name="outcome" value="paid" style="width: 100%; padding: 12px; margin-bottom: 8px;">Pay</button>
+    <button name="outcome" value="cancelled" style="width: 100%; padding: 12px;">Cancel</button>
+  </form>
+</body></html>`);
+    });
+
+    // POST /api/billing/mock-checkout/:sessionId (sends the signed event to our own webhook, then returns to the app)
+    app.post('/api/billing/mock-checkout/:sessionId', express.urlencoded({ extended: false }), async (req, res) => {
+        const { card } = paymentProviders;
+        const completed = card?.id === 'mock' ? card.completeSession(req.params.sessionId, req.body.outcome) : null;
+        if (!completed) return res.status(404).send('Checkout session not found');
+
+        try {
+            const response = await fetch(`http://127.0.0.1:${req.socket.localPort}/webhooks/payments/mock`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'stripe-signature': completed.signature },
+                body: completed.payload
+            });
+            if (!response.ok) throw new Error(`Webhook returned ${response.status}`);
+        } catch (err) {
+            console.error('[Payments] Mock Checkout Error:', err);
+        }
+
+        res.redirect(completed.redirectUrl);
+    });
+
+    // POST /api/billing/pay (manual transfer, verified by an admin)
+    app.post('/api/billing/pay', async (req, res) => {
+        const user = await getUser(req); // Retrieve user from auth header
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const { paymentMethod, reference } = req.body;
+        const plan = getPlan(req.body.plan);
+
+        if (!req.body.plan || !paymentMethod || !reference) {
+            return res.status(400).json({ error: 'Missing required fields' });
+        }
+        if (!plan) return res.status(400).json({ error: 'Unknown plan' });
+
+        try {
+            const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+            // 1. Verify business belongs to user
+            const { data: business, error: bizError } = await supabase
+                .from('businesses')
+                .select('id')
+                .eq('user_id', user.id)
+                .single();
+
+            if (bizError) console.error('[Billing] Biz Lookup Error:', bizError);
+
+            // If no business found for user, we can't link payment
+            if (!business) return res.status(404).json({ error: 'Business not found' });
+
+            // 2. Create Payment Request with Email
+            const result = await paymentProviders.manual.submit(supabase, {
+                user,
+                business,
+                plan,
+                method: paymentMethod,
+                reference
+            });
+
+            if (result.error) return res.status(400).json({ error: result.error });
+
+            res.json({ success: true, message: 'Payment request submitted' });
+        } catch (err) {
+            console.error('Payment Error:', err);
+            res.status(500).json({ error: 'Payment submission failed' });
+        }
+    });
+
+    // GET /api/billing/history -> { payments, invoices } for the user's business, newest first
+    app.get('/api/billing/history', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const businessId = await getOwnBusinessId(supabase, user.id);
+            if (!businessId) return res.status(404).json({ error: 'Business not found' });
+
+            const [payments, invoices] = await Promise.all([
+                supabase
+                    .from('payment_requests')
+                    .select('id, plan, amount, payment_method, payment_reference, status, created_at')
+                    .eq('user_id', user.id)
+                    .order('created_at', { ascending: false }),
+                supabase
+                    .from('invoices')
+                    .select('id, invoice_number, payment_request_id, plan, plan_name, amount, currency, payment_method, payment_reference, issued_at')
+                    .eq('business_id', businessId)
+                    .order('issued_at', { ascending: false })
+            ]);
+
+            if (payments.error) throw payments.error;
+            if (invoices.error) throw invoices.error;
+
+            res.json({
+                payments: payments.data,
+                invoices: invoices.data.map(invoice => ({ ...invoice, number: formatInvoiceNumber(invoice.invoice_number) }))
+            });
+        } catch (err) {
+            console.error('[Billing] History Error:', err);
+            res.status(500).json({ error: 'Failed to load billing history' });
+        }
+    });
+
+    // GET /api/billing/invoices/:id/pdf (receipt download)
+    app.get('/api/billing/invoices/:id/pdf', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        const supabase = getSupabaseClient(req.headers.authorization.split(' ')[1]);
+
+        try {
+            const businessId = await getOwnBusinessId(supabase, user.id);
+            if (!businessId) return res.status(404).json({ error: 'Business not found' });
+
+            const { data: invoice } = await supabase
+                .from('invoices')
+                .select('*')
+                .eq('id', req.params.id)
+                .eq('business_id', businessId)
+                .maybeSingle();
+
+            if (!invoice) return res.status(404).json({ error: 'Invoice not found' });
+
+            res.type('application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="${formatInvoiceNumber(invoice.invoice_number)}.pdf"`);
+            res.send(renderReceiptPdf(invoice));
+        } catch (err) {
+            console.error('[Billing] Receipt Error:', err);
+            res.status(500).json({ error: 'Failed to generate receipt' });
+        }
+    });
+
+    // GET /api/billing/payment-details (where customers send manual transfers)
+    app.get('/api/billing/payment-details', (req, res) => {
+        res.json({
+            payoneerEmail: paymentDetails.payoneerEmail || 'payments@smartreception.ai',
+            nayapayId: paymentDetails.nayapayId || '03001234567'
+        });
+    });
+
+    // ===== ADMIN =====
+    // Every /api/admin route needs a logged-in user with at least the 'support' role (see adminAuth.js);
+    // routes that change data also require 'admin'.
+    const requireRole = createRoleMiddleware({ getUser, getClient: getServiceClient });
+
+    // GET /api/me/admin -> { role } ('support', 'admin' or null); lets the app decide whether to show the admin console
+    app.get('/api/me/admin', async (req, res) => {
+        const user = await getUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+        try {
+            res.json({ role: await getAdminRole(getServiceClient(), user) });
+        } catch (err) {
+            console.error('[Admin] Role Lookup Error:', err);
+            res.status(500).json({ error: 'Could not verify admin access' });
+        }
+    });
+
+    app.use('/api/admin', requireRole('support'));
+
+    // GET /api/admin/payments
+    app.get('/api/admin/payments', async (req, res) => {
+        try {
+            const supabase = getServiceClient();
+            const { data, error } = await supabase
+                .from('payment_requests')
+                .select('*, businesses(business_name)')
+                .order('created_at', { ascending: false });
+
+            if (error) throw error;
+            res.json(data);
+        } catch (err) {
+            res.status(500).json({ error: err.message });
+        }
+    });
+
+    // POST /api/admin/approve
+    app.post('/api/admin/approve', requireRole('admin'), async (req, res) => {
+        const { requestId } = req.body;
+        try {
+            // Use SERVICE ROLE KEY to bypass RLS for admin updates (Required for 'businesses' table update)
+            const supabase = getServiceClient();
+            const result = await paymentProviders.manual.approve(supabase, requestId);
+            if (result.error) return res.status(result.status).json({ error: result.error });
+
+            await recordAdminAction(supabase, {
+                actor: req.adminActor,
+                action: 'approve',
+                paymentRequestId: result.request.id,
+                businessId: result.request.business_id,
+                details: { plan: result.request.plan, amount: Number(result.request.amount), invoice: formatInvoiceNumber(result.invoice.invoice_number) }
+            });
+
+            await emailInvoice(result.invoice);
+
+            res.json({
+                success: true,
+                message: `Approved and plan activated (${formatInvoiceNumber(result.invoice.invoice_number)})`,
+                invoice: result.invoice
+            });
+
+        } catch (err) {
+            console.error('Approval Error:', err);
+            res.status(500).json({ error: 'Approval failed' });
+        }
+    });
+
+
+
+    // POST /api/admin/reject { requestId, reason }
+    app.post('/api/admin/reject', requireRole('admin'), async (req, res) => {
+        const { requestId, reason } = req.body;
+        try {
+            const result = await rejectPayment(getServiceClient(), { requestId, reason, actor: req.adminActor });
+            if (result.error) return res.status(result.status).json({ error: result.error });
+
+            res.json({ success: true, message: 'Payment rejected' });
+        } catch (err) {
+            console.error('[Admin] Reject Error:', err);
+            res.status(500).json({ error: 'Rejection failed' });
+        }
+    });
+
+    // POST /api/admin/refund { requestId, reason, downgrade }
+    app.post('/api/admin/refund', requireRole('admin'), async (req, res) => {
+        const { requestId, reason, downgrade } = req.body;
+        try {
+            const result = await refundPayment(getServiceClient(), {
+                requestId,
+                reason,
+                actor: req.adminActor,
+                downgrade: downgrade === true,
+                card: paymentProviders.card
+            });
+            if (result.error) return res.status(result.status).json({ error: result.error });
+
+            res.json({
+                success: true,
+                message: result.request.refund_reference
+                    ? `Refunded through ${result.request.payment_method} (${result.request.refund_reference})`
+                    : 'Marked as refunded. Send the money back through the original payment method.'
+            });
+        } catch (err) {
+            console.error('[Admin] Refund Error:', err);
+            res.status(500).json({ error: 'Refund failed' });
+        }
+    });
+
+    // POST /api/admin/downgrade { businessId, plan, reason }
+    app.post('/api/admin/downgrade', requireRole('admin'), async (req, res) => {
+        const { businessId, plan, reason } = req.body;
+        try {
+            const result = await downgradeBusiness(getServiceClient(), { businessId, planId: plan, reason, actor: req.adminActor });
+            if (result.error) return res.status(result.status).json({ error: result.error });
+
+            res.json({ success: true, message: `Business moved to the ${result.business.subscription_plan} plan` });
+        } catch (err) {
+            console.error('[Admin] Downgrade Error:', err);
+            res.status(500).json({ error: 'Downgrade failed' });
+        }
+    });
+
+    // GET /api/admin/audit-log?limit=100
+    app.get('/api/admin/audit-log', async (req, res) => {
+        const limit = Math.min(Math.max(parseInt(req.query.limit) || 100, 1), 500);
+        try {
+            const { data, error } = await getServiceClient()
+                .from('admin_audit_log')
+                .select('*, businesses(business_name)')
+                .order('created_at', { ascending: false })
+                .limit(limit);
+
+            if (error) throw error;
+            res.json(data);
+        } catch (err) {
+            console.error('[Admin] Audit Log Error:', err);
+            res.status(500).json({ error: 'Failed to load audit log' });
+        }
+    });
+
+    // GET /api/admin/tenants?search=acme&limit=50
+    app.get('/api/admin/tenants', async (req, res) => {
+        const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), 200);
+        try {
+            res.json(await listTenants(getServiceClient(), { search: req.query.search, limit }));
+        } catch (err) {
+            console.error('[Admin] Tenant List Error:', err);
+            res.status(500).json({ error: 'Failed to load businesses' });
+        }
+    });
+
+    // GET /api/admin/tenants/:id -> { business, recentCalls }
+    app.get('/api/admin/tenants/:id', async (req, res) => {
+        try {
+            const detail = await getTenantDetail(getServiceClient(), req.params.id);
+            if (!detail) return res.status(404).json({ error: 'Business not found' });
+            res.json(detail);
+        } catch (err) {
+            console.error('[Admin] Tenant Detail Error:', err);
+            res.status(500).json({ error: 'Failed to load business' });
+        }
+    });
+
+    // POST /api/admin/tenants/:id/view-as -> read-only dashboard snapshot (support access is audited)
+    app.post('/api/admin/tenants/:id/view-as', async (req, res) => {
+        try {
+            const result = await viewAsTenant(getServiceClient(), { businessId: req.params.id, actor: req.adminActor });
+            if (result.error) return res.status(result.status).json({ error: result.error });
+            res.json(result);
+        } catch (err) {
+            console.error('[Admin] View As Error:', err);
+            res.status(500).json({ error: 'Failed to load business' });
+        }
+    });
+
+    // POST /api/admin/tenants/:id/limits { minutesLimit, reason }
+    app.post('/api/admin/tenants/:id/limits', requireRole('admin'), async (req, res) => {
+        const { minutesLimit, reason } = req.body;
+        try {
+            const result = await setMinutesLimit(getServiceClient(), { businessId: req.params.id, minutesLimit, reason, actor: req.adminActor });
+            if (result.error) return res.status(result.status).json({ error: result.error });
+            res.json({ success: true, message: `Minutes limit set to ${result.business.minutes_limit}` });
+        } catch (err) {
+            console.error('[Admin] Limit Error:', err);
+            res.status(500).json({ error: 'Failed to update limit' });
+        }
+    });
+
+    // POST /api/admin/tenants/:id/plan { plan, reason }
+    app.post('/api/admin/tenants/:id/plan', requireRole('admin'), async (req, res) => {
+        const { plan, reason } = req.body;
+        try {
+            const result = await setTenantPlan(getServiceClient(), { businessId: req.params.id, planId: plan, reason, actor: req.adminActor });
+            if (result.error) return res.status(result.status).json({ error: result.error });
+            res.json({ success: true, message: `Plan changed to ${result.business.subscription_plan}` });
+        } catch (err) {
+            console.error('[Admin] Plan Change Error:', err);
+            res.status(500).json({ error: 'Failed to change plan' });
+        }
+    });
+
+    // POST /api/admin/tenants/:id/suspend { suspended, reason }
+    app.post('/api/admin/tenants/:id/suspend', requireRole('admin'), async (req, res) => {
+        const { suspended, reason } = req.body;
+        try {
+            const result = await setSuspended(getServiceClient(), { businessId: req.params.id, suspended: suspended !== false, reason, actor: req.adminActor });
+            if (result.error) return res.status(result.status).json({ error: result.error });
+            res.json({ success: true, message: result.business.suspended_at ? 'Business suspended' : 'Business reactivated' });
+        } catch (err) {
+            console.error('[Admin] Suspend Error:', err);
+            res.status(500).json({ error: 'Failed to update suspension' });
+        }
+    });
+
+
+    // Twilio Voice Webhook - Initial call
+    app.post('/webhooks/twilio/voice', express.urlencoded({ extended: false }), validateTwilioRequest, async (req, res) => {
+        const { To, From, CallSid } = req.body;
+        console.log(`Incoming call from ${From} to ${To}, CallSid: ${CallSid}`);
+
+        try {
+            // Find business by phone number
+            const supabase = getServiceClient();
+            const { data: business, error } = await supabase
+                .from('businesses')
+                .select('*')
+                .eq('twilio_phone_number', To)
+                .single();
+
+            if (error || !business) {
+                console.error('Business not found for number:', To);
+                const twiml = new VoiceResponse();
+                twiml.say('Sorry, this number is not configured.');
+                twiml.hangup();
+                return res.type('text/xml').send(twiml.toString());
+            }
+
+            if (!isSignedForBusiness(req, business)) {
+                console.error(`[Twilio] ${To} does not belong to account ${req.twilioAccountSid}`);
+                return res.status(403).send('Forbidden');
+            }
+
+            // Suspended by an admin: refuse the call without answering it with the AI
+            if (business.suspended_at) {
+                console.log(`Call refused: ${business.business_name} is suspended`);
+                const twiml = new VoiceResponse();
+                twiml.say({ voice: 'Polly.Joanna' }, 'Sorry, this number is temporarily unavailable. Please try again later.');
+                twiml.hangup();
+                return res.type('text/xml').send(twiml.toString());
+            }
+
+            // --- PRICING & LIMIT ENFORCEMENT ---
+            // Default to very high limits if null to avoid breaking legacy/free setups unexpectedly unless strict plan logic is desired
+            // But user asked for specific limits.
+            const used = business.minutes_used || 0;
+            const limit = business.minutes_limit || getPlanOrFree(business.subscription_plan).minutes; // Plan minutes if not set
+            const { limitAction } = getUsageSettings(business);
+            const limitDecision = getLimitDecision({
+                used,
+                limit,
+                overageMinutes: getPlanOrFree(business.subscription_plan).overageMinutes,
+                limitAction
+            });
+
+            // Log the call (before limits so blocked calls still show up in call history). The no-input
+            // redirect comes back here with the same CallSid, so only the first hit creates the row.
+            const { error: logError } = await supabase.from('call_logs').upsert({
+                business_id: business.id,
+                user_id: business.user_id,
+                call_sid: CallSid,
+                from_number: From,
+                to_number: To,
+                status: 'ringing',
+                transcript: []
+            }, { onConflict: 'call_sid', ignoreDuplicates: true });
+            if (logError) console.error('[Twilio] Call Log Error:', logError);
+
+            if (limitDecision === 'block') {
+                console.log(`Call blocked: Limit reached for ${business.business_name} (${used}/${limit} mins)`);
+                const twiml = new VoiceResponse();
+                twiml.say({ voice: 'Polly.Joanna' }, `Thanks for calling ${business.business_name}. We are unable to take calls right now. Please try again later.`);
+                twiml.hangup();
+                return res.type('text/xml').send(twiml.toString());
+            }
+
+            if (limitDecision === 'voicemail') {
+                console.log(`Call sent to voicemail: Limit reached for ${business.business_name} (${used}/${limit} mins)`);
+                const twiml = new VoiceResponse();
+                recordVoicemail(twiml, CallSid, `Thanks for calling ${business.business_name}. No one can take your call right now. Please leave a message after the beep.`);
+                return res.type('text/xml').send(twiml.toString());
+            }
+
+            if (limitDecision === 'grace') {
+                console.log(`Call answered in grace minutes for ${business.business_name} (${used}/${limit} mins)`);
+            }
+            // -----------------------------------
+
+            // Create TwiML response
+            const twiml = new VoiceResponse();
+
+            // --- AFTER HOURS ---
+            const schedule = business.schedule;
+            if (schedule && !isOpenAt(schedule)) {
+                console.log(`After-hours call for ${business.business_name} (mode: ${schedule.afterHoursMode || 'message'})`);
+                const afterHoursGreeting = (hasEntitlement(business, 'customGreeting') && schedule.afterHoursGreeting) ||
+                    `Thanks for calling ${business.business_name}. We are currently closed.`;
+                twiml.say({ voice: 'Polly.Joanna' }, afterHoursGreeting);
+
+                if (schedule.afterHoursMode === 'hangup') {
+                    twiml.hangup();
+                    return res.type('text/xml').send(twiml.toString());
+                }
+
+                if (schedule.afterHoursMode === 'voicemail') {
+                    recordVoicemail(twiml, CallSid, 'Please leave a message after the beep.');
+                    return res.type('text/xml').send(twiml.toString());
+                }
+
+                // 'message': let the AI take a message (the gather prompt knows we are closed)
+                twiml.say({ voice: 'Polly.Joanna' }, 'I can take a message for the team. What is your name and how can we help?');
+            } else {
+                // Greet the caller
+                const greeting = (hasEntitlement(business, 'customGreeting') && business.greeting) ||
+                    `Hello, you've reached ${business.business_name}. How can I help you?`;
+                twiml.say({ voice: 'Polly.Joanna' }, greeting);
+            }
+            // -----------------------------------
+
+            // Gather speech input
+            const gather = twiml.gather({
+                input: 'speech',
+                action: `/webhooks/twilio/gather?business_id=${business.id}&call_sid=${CallSid}`,
+                speechTimeout: 'auto',
+                language: 'en-US'
+            });
+
+            // If no input, repeat
+            twiml.say({ voice: 'Polly.Joanna' }, 'I didn\'t catch that. Please say something or press any key.');
+            twiml.redirect('/webhooks/twilio/voice');
+
+            res.type('text/xml').send(twiml.toString());
+
+        } catch (err) {
+            console.error('Voice webhook error:', err);
+            const twiml = new VoiceResponse();
+            twiml.say('Sorry, an error occurred.');
+            twiml.hangup();
+            res.type('text/xml').send(twiml.toString());
+        }
+    });
+
+    // Twilio Gather Webhook - Process speech
+    app.post('/webhooks/twilio/gather', express.urlencoded({ extended: false }), validateTwilioRequest, async (req, res) => {
+        const { SpeechResult, business_id, call_sid } = { ...req.body, ...req.query };
+        console.log(`Gather result for call ${call_sid}: "${SpeechResult}"`);
+
+        try {
+            const supabase = getServiceClient();
+
+            // Get business config
+            const { data: business } = await supabase
+                .from('businesses')
+                .select('*')
+                .eq('id', business_id)
+                .single();
+
+            if (!business) {
+                const twiml = new VoiceResponse();
+                twiml.say('Sorry, configuration error.');
+                twiml.hangup();
+                return res.type('text/xml').send(twiml.toString());
+            }
+
+            if (!isSignedForBusiness(req, business)) {
+                console.error(`[Twilio] Business ${business_id} does not belong to account ${req.twilioAccountSid}`);
+                return res.status(403).send('Forbidden');
+            }
+
+            const { isClosed, canTransfer } = getCallState(business);
+
+            // Passages from the knowledge base that match what the caller just said
+            const passages = await retrievePassages(supabase, embedder, business.id, SpeechResult);
+            const systemPrompt = buildSystemPrompt({ channel: 'voice', business, passages, canTransfer, isClosed });
+
+            // Load the turns so far so the receptionist remembers the whole call
+            const { data: callLog } = await supabase
+                .from('call_logs')
+                .select('transcript')
+                .eq('call_sid', call_sid)
+                .single();
+
+            const priorTurns = normalizeTranscript(callLog?.transcript);
+            const callerText = SpeechResult || 'Hello';
+
+            let transferReason = null;
+            let voicemailRequested = false;
+            const serviceClient = getServiceClient();
+            const toolContext = { source: 'voice', callSid: call_sid, callerNumber: req.body.From };
+            const toolHandler = createToolHandler({
+                ...createAppointmentToolHandlers(serviceClient, business, toolContext),
+                ...createMessageToolHandlers(serviceClient, business, {
+                    ...toolContext,
+                    onSaved: (message) => notifyOwnerOfMessage(business, message)
+                }),
+                ...createVoicemailToolHandlers(() => { voicemailRequested = true; }),
+                ...(canTransfer ? createTransferToolHandlers(business, (reason) => { transferReason = reason; }) : {})
+            });
+
+            const userTurnAt = new Date().toISOString();
+            const { text: aiResponse } = await llm.runChatTurn({
+                preferredModel: business.ai_model,
+                system: systemPrompt,
+                history: toChatHistory(priorTurns),
+                message: callerText,
+                tools: voiceTools(canTransfer),
+                toolHandler
+            });
+
+            // Log interaction (append, never overwrite earlier turns)
+            await supabase.from('call_logs').update({
+                transcript: [
+                    ...priorTurns,
+                    { role: 'user', content: callerText, at: userTurnAt },
+                    { role: 'assistant', content: aiResponse, at: new Date().toISOString() }
+                ]
+            }).eq('call_sid', call_sid);
+
+            // Respond with TwiML
+            const twiml = new VoiceResponse();
+
+            // --- VOICEMAIL ON REQUEST ---
+            if (voicemailRequested) {
+                recordVoicemail(twiml, call_sid, aiResponse || 'Please leave your message after the beep.');
+                return res.type('text/xml').send(twiml.toString());
+            }
+
+            twiml.say({ voice: 'Polly.Joanna' }, aiResponse || 'Please hold while I connect you.');
+
+            // --- LIVE TRANSFER ---
+            if (transferReason) {
+                console.log(`Transferring call ${call_sid} to staff: ${transferReason}`);
+                await supabase.from('call_logs').update({ transfer_status: 'dialing' }).eq('call_sid', call_sid);
+
+                const dial = twiml.dial({
+                    action: `/webhooks/twilio/transfer-status?call_sid=${call_sid}`,
+                    timeout: business.transfer_settings.timeoutSeconds || DEFAULT_TRANSFER_TIMEOUT,
+                    callerId: business.twilio_phone_number
+                });
+                getTransferTargets(business).forEach(number => dial.number(number));
+                return res.type('text/xml').send(twiml.toString());
+            }
+            // ----------------------
+
+            // Continue conversation
+            twiml.gather({
+                input: 'speech',
+                action: `/webhooks/twilio/gather?business_id=${business_id}&call_sid=${call_sid}`,
+                speechTimeout: 'auto',
+                language: 'en-US'
+            });
+
+            twiml.say({ voice: 'Polly.Joanna' }, 'Is there anything else I can help with?');
+            twiml.hangup();
+
+            res.type('text/xml').send(twiml.toString());
+
+        } catch (err) {
+            console.error('Gather webhook error:', err);
+            const twiml = new VoiceResponse();
+            twiml.say('Sorry, I encountered an error.');
+            twiml.hangup();
+            res.type('text/xml').send(twiml.toString());
+        }
+    });
+
+
+    // Twilio Transfer Status - <Dial> action, falls back to voicemail when nobody picks up
+    app.post('/webhooks/twilio/transfer-status', express.urlencoded({ extended: false }), validateTwilioRequest, requireSignedCall, async (req, res) => {
+        const { DialCallStatus, call_sid } = { ...req.body, ...req.query };
+        console.log(`Transfer for call ${call_sid} ended with status: ${DialCallStatus}`);
+
+        try {
+            const supabase = getServiceClient();
+            await supabase.from('call_logs').update({ transfer_status: DialCallStatus }).eq('call_sid', call_sid);
+        } catch (err) {
+            console.error('Transfer status error:', err);
+        }
+
+        const twiml = new VoiceResponse();
+        if (DialCallStatus === 'completed' || DialCallStatus === 'answered') {
+            twiml.hangup();
+        } else {
+            recordVoicemail(twiml, call_sid, 'Sorry, nobody is available to take your call. Please leave a message after the beep.');
+        }
+        res.type('text/xml').send(twiml.toString());
+    });
+
+    // Twilio Voicemail Webhook - <Record> action once the caller hangs up or finishes
+    app.post('/webhooks/twilio/voicemail', express.urlencoded({ extended: false }), validateTwilioRequest, requireSignedCall, async (req, res) => {
+        const { RecordingUrl, RecordingDuration, call_sid } = { ...req.body, ...req.query };
+        console.log(`Voicemail for call ${call_sid}: ${RecordingUrl} (${RecordingDuration}s)`);
+
+        try {
+            const supabase = getServiceClient();
+            await supabase
+                .from('call_logs')
+                .update({
+                    recording_url: RecordingUrl || null,
+                    recording_duration: parseInt(RecordingDuration) || 0,
+                    recording_status: 'processing'
+                })
+                .eq('call_sid', call_sid);
+        } catch (err) {
+            console.error('Voicemail webhook error:', err);
+        }
+
+        const twiml = new VoiceResponse();
+        twiml.say({ voice: 'Polly.Joanna' }, 'Thank you. Your message has been recorded. Goodbye.');
+        twiml.hangup();
+        res.type('text/xml').send(twiml.toString());
+    });
+
+    // Twilio Recording Status Callback - final recording metadata
+    app.post('/webhooks/twilio/recording', express.urlencoded({ extended: false }), validateTwilioRequest, requireSignedCall, async (req, res) => {
+        const { RecordingSid, RecordingUrl, RecordingDuration, RecordingStatus, call_sid } = { ...req.body, ...req.query };
+        console.log(`Recording ${RecordingSid} for call ${call_sid}: ${RecordingStatus}`);
+
+        try {
+            const supabase = getServiceClient();
+            await supabase
+                .from('call_logs')
+                .update({
+                    recording_sid: RecordingSid,
+                    recording_url: RecordingUrl,
+                    recording_duration: parseInt(RecordingDuration) || 0,
+                    recording_status: RecordingStatus
+                })
+                .eq('call_sid', call_sid);
+
+            res.sendStatus(200);
+        } catch (err) {
+            console.error('Recording callback error:', err);
+            res.sendStatus(500);
+        }
+    });
+
+    // Twilio Transcription Callback - text of the voicemail
+    app.post('/webhooks/twilio/transcription', express.urlencoded({ extended: false }), validateTwilioRequest, requireSignedCall, async (req, res) => {
+        const { TranscriptionText, TranscriptionStatus, call_sid } = { ...req.body, ...req.query };
+        console.log(`Transcription for call ${call_sid}: ${TranscriptionStatus}`);
+
+        try {
+            const supabase = getServiceClient();
+            await supabase
+                .from('call_logs')
+                .update({
+                    voicemail_transcript: TranscriptionStatus === 'completed' ? TranscriptionText : null
+                })
+                .eq('call_sid', call_sid);
+
+            res.sendStatus(200);
+        } catch (err) {
+            console.error('Transcription callback error:', err);
+            res.sendStatus(500);
+        }
+    });
+
+    // Twilio Status Callback
+    app.post('/webhooks/twilio/status', express.urlencoded({ extended: false }), validateTwilioRequest, async (req, res) => {
+        const { CallSid, CallStatus, CallDuration, To } = req.body;
+        console.log(`Call ${CallSid} status: ${CallStatus}, duration: ${CallDuration}s`);
+
+        try {
+            const supabase = getServiceClient();
+
+            // The call log links the CallSid to its business; fall back to the dialled number
+            let callBusiness = await getCallBusiness(supabase, CallSid);
+            if (!callBusiness) {
+                const { data } = await supabase
+                    .from('businesses')
+                    .select('id, twilio_account_sid')
+                    .eq('twilio_phone_number', To)
+                    .maybeSingle();
+                callBusiness = data;
+            }
+
+            if (callBusiness && !isSignedForBusiness(req, callBusiness)) {
+                console.error(`[Twilio] Call ${CallSid} does not belong to account ${req.twilioAccountSid}`);
+                return res.status(403).send('Forbidden');
+            }
+
+            // Update call log status
+            await supabase
+                .from('call_logs')
+                .update({
+                    status: CallStatus,
+                    duration: parseInt(CallDuration) || 0
+                })
+                .eq('call_sid', CallSid);
+
+            // --- UPDATE USAGE ON COMPLETION ---
+            if (CallStatus === 'completed' && billableMinutes(CallDuration) > 0) {
+                const businessId = callBusiness?.id;
+
+                if (businessId) {
+                    // Idempotent per CallSid and atomic in Postgres, so retries and concurrent calls are safe
+                    const usage = await recordCallUsage(supabase, { businessId, callSid: CallSid, durationSeconds: CallDuration });
+                    if (usage.recorded) {
+                        console.log(`Usage for business ${businessId}: +${billableMinutes(CallDuration)} mins. New total: ${usage.minutesUsed}`);
+
+                        const { data: business } = await supabase
+                            .from('businesses')
+                            .select('id, user_id, business_name, notification_email, subscription_plan, minutes_limit, current_period_start, current_period_end, usage_settings')
+                            .eq('id', businessId)
+                            .single();
+
+                        // Alert failures must not fail the callback (Twilio would retry a call that is already billed)
+                        try {
+                            const sent = await checkUsageAlerts(supabase, business, usage.minutesUsed,
+                                threshold => notifyOwnerOfUsage(business, threshold, usage.minutesUsed));
+                            if (sent.length) console.log(`[Usage] Alerts sent for business ${businessId}:`, sent);
+                        } catch (err) {
+                            console.error('[Usage] Alert Error:', err);
+                        }
+                    } else {
+                        console.log(`Usage for call ${CallSid} already recorded, skipping`);
+                    }
+                }
+            }
+            // ----------------------------------
+
+            res.sendStatus(200);
+        } catch (err) {
+            console.error('Status callback error:', err);
+            res.sendStatus(500);
+        }
+    });
+
+    // POST /api/admin/test-email (Debug)
+    app.post('/api/admin/test-email', requireRole('admin'), async (req, res) => {
+        console.log('[Debug] Testing email configuration...');
+        if (!mailer.configured) {
+            return res.status(500).json({ error: 'Missing SENDER_EMAIL or EMAIL_PASSWORD in Live Environment' });
+        }
+
+        try {
+            await mailer.verify();
+            console.log('[Debug] Email Verify Success');
+
+            const sent = await mailer.sendEmail({
+                to: mailer.sender,
+                subject: 'Debug: Email Configuration Works',
+                text: 'Your email configuration on Render is correct!'
+            });
+            if (!sent) throw new Error('The email could not be sent (see server logs)');
+
+            res.json({ success: true, message: `Email sent to ${mailer.sender}` });
+        } catch (err) {
+            console.error('[Debug] Email Failed:', err);
+            res.status(500).json({
+                error: 'Email Connection Failed',
+                details: err.message,
+                code: err.code,
+                tip: err.code === 'EAUTH' ? 'Check EMAIL_PASSWORD. Must be an App Password.' : 'Check SENDER_EMAIL.'
+            });
+        }
+    });
+
+    return app;
+};
@@ -0,0 +1,188 @@
+import { SchemaType } from '@google/generative-ai';
+import { getLocalTime, toMinutes, toTime, validateWeekly } from './schedule.js';
+
+// ===== APPOINTMENT BOOKING =====
+// Dates are 'YYYY-MM-DD' and times 'HH:MM' in the business's local time.
+// Weekly availability keys are weekdays (0 = Sunday ... 6 = Saturday).
+
+export const DEFAULT_AVAILABILITY = {
+    slotMinutes: 30,
+    weekly: {
+        1: [{ start: '09:00', end: '17:00' }],
+        2: [{ start: '09:00', end: '17:00' }],
+        3: [{ start: '09:00', end: '17:00' }],
+        4: [{ start: '09:00', end: '17:00' }],
+        5: [{ start: '09:00', end: '17:00' }]
+    }
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d/;
+
+const getWeekday = (date) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const overlaps = (booking, start, end) =>
+    toMinutes(booking.start_time) < end && start < toMinutes(booking.end_time);
+
+// Validate an availability payload coming from the dashboard
+export const validateAvailability = (availability) => {
+    if (!availability || typeof availability !== 'object') return 'Availability is required';
+
+    const slotMinutes = Number(availability.slotMinutes);
+    if (!Number.isInteger(slotMinutes) || slotMinutes < 5 || slotMinutes > 240) {
+        return 'Slot length must be between 5 and 240 minutes';
+    }
+
+    return validateWeekly(availability.weekly);
+};
+
+// All bookable start times on a date that do not collide with existing bookings
+export const getOpenSlots = (availability, bookings, date) => {
+    const config = availability || DEFAULT_AVAILABILITY;
+    const slotMinutes = config.slotMinutes || DEFAULT_AVAILABILITY.slotMinutes;
+    const ranges = config.weekly?.[getWeekday(date)] || [];
+    const slots = [];
+
+    for (const range of ranges) {
+        const end = toMinutes(range.end);
+        for (let start = toMinutes(range.start); start + slotMinutes <= end; start += slotMinutes) {
+            if (!bookings.some(b => overlaps(b, start, start + slotMinutes))) {
+                slots.push(toTime(start));
+            }
+        }
+    }
+    return slots;
+};
+
+const isHoliday = (schedule, date) => (schedule?.holidays || []).some(h => h.date === date);
+
+// Open slots the business can still take: none on past dates or holidays, and today only those after the
+// current time in the business's timezone
+const getBookableSlots = (business, bookings, date, now) => {
+    const local = getLocalTime(business.schedule?.timezone, now);
+    if (date < local.date || isHoliday(business.schedule, date)) return [];
+
+    const slots = getOpenSlots(business.availability, bookings, date);
+    return date === local.date ? slots.filter(slot => toMinutes(slot) > local.minutes) : slots;
+};
+
+const fetchBookings = async (supabase, businessId, date) => {
+    const { data, error } = await supabase
+        .from('appointments')
+        .select('id, start_time, end_time')
+        .eq('business_id', businessId)
+        .eq('date', date)
+        .eq('status', 'booked');
+
+    if (error) throw error;
+    return data || [];
+};
+
+export const listOpenSlots = async (supabase, business, date, now = new Date()) => {
+    if (!DATE_PATTERN.test(date || '')) return { error: 'Date must use YYYY-MM-DD format' };
+
+    const bookings = await fetchBookings(supabase, business.id, date);
+    return { date, slots: getBookableSlots(business, bookings, date, now) };
+};
+
+// Validates the requested slot, checks for conflicts and inserts the booking.
+// Returns { appointment } on success or { error, status } when the slot cannot be booked.
+export const bookAppointment = async (supabase, business, request, now = new Date()) => {
+    const { date, time, customerName, customerPhone, service, notes, source, callSid } = request;
+
+    if (!DATE_PATTERN.test(date || '') || !TIME_PATTERN.test(time || '')) {
+        return { error: 'Date and time are required (YYYY-MM-DD, HH:MM)', status: 400 };
+    }
+    if (!customerName) return { error: 'Customer name is required', status: 400 };
+
+    const startTime = time.slice(0, 5);
+    const local = getLocalTime(business.schedule?.timezone, now);
+    if (date < local.date || (date === local.date && toMinutes(startTime) <= local.minutes)) {
+        return { error: 'Cannot book an appointment in the past', status: 400 };
+    }
+    if (isHoliday(business.schedule, date)) return { error: `The business is closed on ${date}`, status: 409, alternatives: [] };
+
+    const bookings = await fetchBookings(supabase, business.id, date);
+    const openSlots = getBookableSlots(business, bookings, date, now);
+
+    if (!openSlots.includes(startTime)) {
+        return { error: `${startTime} on ${date} is not available`, status: 409, alternatives: openSlots.slice(0, 5) };
+    }
+
+    const slotMinutes = business.availability?.slotMinutes || DEFAULT_AVAILABILITY.slotMinutes;
+    const { data, error } = await supabase
+        .from('appointments')
+        .insert({
+            business_id: business.id,
+            user_id: business.user_id,
+            customer_name: customerName,
+            customer_phone: customerPhone || null,
+            service: service || null,
+            notes: notes || null,
+            date,
+            start_time: startTime,
+            end_time: toTime(toMinutes(startTime) + slotMinutes),
+            status: 'booked',
+            source: source || 'dashboard',
+            call_sid: callSid || null
+        })
+        .select()
+        .single();
+
+    // Unique index on (business_id, date, start_time) catches concurrent bookings
+    if (error?.code === '23505') return { error: `${startTime} on ${date} was just taken`, status: 409 };
+    if (error) throw error;
+
+    return { appointment: data };
+};
+
+// --- Gemini function calling ---
+
+export const appointmentFunctions = [
+    {
+        name: 'check_availability',
+        description: 'List the open appointment start times for a given date.',
+        parameters: {
+            type: SchemaType.OBJECT,
+            properties: {
+                date: { type: SchemaType.STRING, description: 'Date in YYYY-MM-DD format' }
+            },
+            required: ['date']
+        }
+    },
+    {
+        name: 'book_appointment',
+        description: 'Book an appointment once the customer has confirmed the date, time and their name.',
+        parameters: {
+            type: SchemaType.OBJECT,
+            properties: {
+                date: { type: SchemaType.STRING, description: 'Date in YYYY-MM-DD format' },
+                time: { type: SchemaType.STRING, description: 'Start time in 24h HH:MM format' },
+                customer_name: { type: SchemaType.STRING, description: 'Full name of the customer' },
+                customer_phone: { type: SchemaType.STRING, description: 'Customer phone number, if given' },
+                service: { type: SchemaType.STRING, description: 'Requested service, if given' }
+            },
+            required: ['date', 'time', 'customer_name']
+        }
+    }
+];
+
+// Handlers keyed by function name; each resolves to the response sent back to the model
+export const createAppointmentToolHandlers = (supabase, business, { source, callSid, callerNumber } = {}) => ({
+    check_availability: (args) => listOpenSlots(supabase, business, args.date),
+
+    book_appointment: async (args) => {
+        const result = await bookAppointment(supabase, business, {
+            date: args.date,
+            time: args.time,
+            customerName: args.customer_name,
+            customerPhone: args.customer_phone || callerNumber,
+            service: args.service,
+            source,
+            callSid
+        });
+        return result.appointment
+            ? { booked: true, date: result.appointment.date, time: result.appointment.start_time.slice(0, 5) }
+            : { booked: false, error: result.error, alternatives: result.alternatives || [] };
+    }
+});
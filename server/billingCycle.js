@@ -0,0 +1,175 @@
+import { FREE_PLAN_ID } from './plans.js';
+
+// ===== BILLING CYCLES =====
+// businesses.current_period_start / current_period_end bound the month that minutes_used counts against.
+// renewal_status: 'active'  - the plan is paid through current_period_end
+//                 'expired' - a paid period ended without a renewal payment and the plan fell back to free
+//                 'cancelled' - an admin moved the business to free (refund or downgrade) before the period ended
+// Paying for the plan you are already on extends current_period_end by another month; switching plans
+// starts a new period. Finished periods are archived in usage_periods before the counter is reset.
+
+export const ROLLOVER_INTERVAL_MS = 15 * 60 * 1000;
+
+// Calendar month arithmetic in UTC, clamped to the last day of shorter months (Jan 31 -> Feb 28)
+export const addMonths = (date, months) => {
+    const result = new Date(date);
+    const day = result.getUTCDate();
+    result.setUTCDate(1);
+    result.setUTCMonth(result.getUTCMonth() + months);
+    const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+    result.setUTCDate(Math.min(day, lastDay));
+    return result;
+};
+
+// Archives the usage of the current period (ending at archiveEnd) and starts start..end, resetting minutes_used.
+// One Postgres function (start_usage_period in setup_billing_cycles.sql) does both under a row lock, so
+// minutes recorded meanwhile are never lost. Re-archiving the same period is a no-op.
+// expectedPeriodEnd: only when current_period_end is still this value. Returns false when nothing changed.
+const startUsagePeriod = async (supabase, business, { archiveEnd, expectedPeriodEnd = null, start, end, plan = null, minutesLimit = null, renewalStatus = null }) => {
+    const { data, error } = await supabase.rpc('start_usage_period', {
+        p_business_id: business.id,
+        p_archive_end: new Date(archiveEnd).toISOString(),
+        p_expected_period_end: expectedPeriodEnd,
+        p_period_start: start.toISOString(),
+        p_period_end: end.toISOString(),
+        p_plan: plan,
+        p_minutes_limit: minutesLimit,
+        p_renewal_status: renewalStatus
+    });
+
+    if (error) throw error;
+    return data === true;
+};
+
+// Called when a payment for `plan` is confirmed
+export const startPlanPeriod = async (supabase, business, plan, now = new Date()) => {
+    const periodEnd = business.current_period_end ? new Date(business.current_period_end) : null;
+    const renewing = business.subscription_plan === plan.id && business.renewal_status === 'active' && periodEnd > now;
+
+    if (!renewing) {
+        const end = addMonths(now, 1);
+        await startUsagePeriod(supabase, business, { archiveEnd: now, start: now, end, plan: plan.id, minutesLimit: plan.minutes, renewalStatus: 'active' });
+        return {
+            subscription_plan: plan.id,
+            minutes_limit: plan.minutes,
+            minutes_used: 0,
+            current_period_start: now.toISOString(),
+            current_period_end: end.toISOString(),
+            renewal_status: 'active'
+        };
+    }
+
+    const update = { current_period_end: addMonths(periodEnd, 1).toISOString(), minutes_limit: plan.minutes };
+    const { error } = await supabase
+        .from('businesses')
+        .update(update)
+        .eq('id', business.id);
+
+    if (error) throw error;
+    return update;
+};
+
+// Moves the business to another plan for the rest of the current period (admin plan changes and refunds).
+// Minutes already used stay counted; moving to free also stops the paid plan from renewing.
+export const changePlan = async (supabase, business, plan) => {
+    const update = {
+        subscription_plan: plan.id,
+        minutes_limit: plan.minutes,
+        renewal_status: plan.id === FREE_PLAN_ID ? 'cancelled' : 'active'
+    };
+
+    const { error } = await supabase
+        .from('businesses')
+        .update(update)
+        .eq('id', business.id);
+
+    if (error) throw error;
+    return update;
+};
+
+// Closes an ended period: archive usage, reset the counter, downgrade unpaid plans to free.
+// Returns false when another server instance rolled the period first.
+export const rollOverBusiness = async (supabase, business, { now = new Date(), freeMinutes }) => {
+    // Skip whole periods the server was down for, so the new period contains `now`
+    let start = new Date(business.current_period_end);
+    let end = addMonths(start, 1);
+    while (end <= now) {
+        start = end;
+        end = addMonths(start, 1);
+    }
+
+    const downgrade = (business.subscription_plan || FREE_PLAN_ID) !== FREE_PLAN_ID;
+
+    // Only roll the period we read; a concurrent run will have moved current_period_end on already
+    const rolled = await startUsagePeriod(supabase, business, {
+        archiveEnd: business.current_period_end,
+        expectedPeriodEnd: new Date(business.current_period_end).toISOString(),
+        start,
+        end,
+        ...(downgrade && { plan: FREE_PLAN_ID, minutesLimit: freeMinutes, renewalStatus: 'expired' })
+    });
+    if (!rolled) return false;
+
+    if (downgrade) console.log(`[Billing] Business ${business.id} period ended unpaid: ${business.subscription_plan} -> free`);
+    return true;
+};
+
+export const rollOverExpiredPeriods = async (supabase, { now = new Date(), freeMinutes }) => {
+    const summary = { initialised: 0, rolledOver: 0, failed: 0 };
+
+    // Businesses created before billing cycles existed start their first period now
+    const { data: initialised, error: initError } = await supabase
+        .from('businesses')
+        .update({
+            current_period_start: now.toISOString(),
+            current_period_end: addMonths(now, 1).toISOString(),
+            renewal_status: 'active'
+        })
+        .is('current_period_end', null)
+        .select('id');
+
+    if (initError) throw initError;
+    summary.initialised = initialised?.length || 0;
+
+    const { data: due, error } = await supabase
+        .from('businesses')
+        .select('id, subscription_plan, minutes_limit, current_period_start, current_period_end, renewal_status')
+        .lte('current_period_end', now.toISOString());
+
+    if (error) throw error;
+
+    for (const business of due || []) {
+        try {
+            if (await rollOverBusiness(supabase, business, { now, freeMinutes })) summary.rolledOver++;
+        } catch (err) {
+            summary.failed++;
+            console.error(`[Billing] Rollover failed for business ${business.id}:`, err);
+        }
+    }
+
+    return summary;
+};
+
+// Runs the rollover now and then every intervalMs; overlapping runs are skipped
+export const startBillingCycleJob = ({ getClient, freeMinutes, intervalMs = ROLLOVER_INTERVAL_MS }) => {
+    let running = false;
+
+    const run = async () => {
+        if (running) return;
+        running = true;
+        try {
+            const summary = await rollOverExpiredPeriods(getClient(), { freeMinutes });
+            if (summary.initialised || summary.rolledOver || summary.failed) {
+                console.log('[Billing] Period rollover:', summary);
+            }
+        } catch (err) {
+            console.error('[Billing] Rollover Error:', err);
+        } finally {
+            running = false;
+        }
+    };
+
+    run();
+    const timer = setInterval(run, intervalMs);
+    return () => clearInterval(timer);
+};
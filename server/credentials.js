@@ -0,0 +1,51 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from 'crypto';
+
+// ===== CREDENTIAL ENCRYPTION =====
+// Third-party secrets (Twilio SID/token) are stored as "enc:v1:<iv>:<tag>:<ciphertext>" (AES-256-GCM, base64 parts).
+// The key comes from CREDENTIALS_ENCRYPTION_KEY (generate with `openssl rand -base64 32`).
+// Values without the prefix are legacy plaintext rows and are returned as-is until migrated.
+
+const PREFIX = 'enc:v1:';
+
+const getKey = () => {
+    const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+    if (!secret) throw new Error('CREDENTIALS_ENCRYPTION_KEY is not configured');
+    return createHash('sha256').update(secret).digest();
+};
+
+export const isEncryptionConfigured = () => !!process.env.CREDENTIALS_ENCRYPTION_KEY;
+
+export const isEncrypted = (value) => typeof value === 'string' && value.startsWith(PREFIX);
+
+export const encryptSecret = (plaintext) => {
+    if (plaintext == null || plaintext === '') return null;
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(String(plaintext), 'utf8'), cipher.final()]);
+
+    return `${PREFIX}${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${ciphertext.toString('base64')}`;
+};
+
+export const decryptSecret = (value) => {
+    if (!isEncrypted(value)) return value || null;
+
+    const [iv, tag, ciphertext] = value.slice(PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', getKey(), iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+// Deterministic keyed hash so encrypted values can still be looked up by equality (e.g. webhook AccountSid)
+export const hashForLookup = (value) => createHmac('sha256', getKey()).update(String(value)).digest('hex');
+
+// Columns that must never leave the server
+const SECRET_COLUMNS = ['twilio_account_sid', 'twilio_auth_token', 'twilio_account_sid_hash'];
+
+export const withoutSecrets = (business) => {
+    if (!business) return business;
+    const safe = { ...business };
+    SECRET_COLUMNS.forEach(column => delete safe[column]);
+    return safe;
+};
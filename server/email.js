@@ -0,0 +1,62 @@
+import nodemailer from 'nodemailer';
+import { Resend } from 'resend';
+
+// ===== EMAIL =====
+// Mailers share one interface: { sender, sendEmail({ to, subject, text, html, attachments }) -> boolean, verify() }.
+// sendEmail returns false instead of throwing so callers can carry on.
+// attachments: [{ filename, content: Buffer }] (the same shape works for both transports)
+
+// Resend HTTP API when EMAIL_PASSWORD is a Resend key (starts with 're_'), otherwise SMTP
+export const createMailerFromEnv = (env = process.env) => {
+    const emailPass = env.EMAIL_PASSWORD || '';
+    const isResendKey = emailPass.startsWith('re_');
+
+    let resendClient = null;
+    let nodemailerTransport = null;
+
+    if (isResendKey) {
+        resendClient = new Resend(emailPass);
+        console.log('[Email] Using Resend HTTP API');
+    } else {
+        // Fallback to SMTP for legacy/other providers
+        console.log('[Email] Using SMTP (Nodemailer)');
+        nodemailerTransport = nodemailer.createTransport({
+            host: env.SMTP_HOST || 'smtp.gmail.com',
+            port: parseInt(env.SMTP_PORT || '587'),
+            secure: env.SMTP_SECURE === 'true' || false,
+            auth: {
+                user: env.SMTP_USER || env.SENDER_EMAIL || env.PAYONEER_EMAIL,
+                pass: emailPass
+            }
+        });
+    }
+
+    // onboarding@resend.dev is mandatory on the Resend free tier
+    const sender = env.SENDER_EMAIL || (isResendKey ? 'onboarding@resend.dev' : env.PAYONEER_EMAIL);
+
+    return {
+        sender,
+        configured: !!sender && !!emailPass,
+
+        sendEmail: async ({ to, subject, text, html, attachments }) => {
+            try {
+                if (resendClient) {
+                    const { error } = await resendClient.emails.send({ from: sender, to, subject, text, html, attachments });
+                    if (error) throw new Error(error.message);
+                } else {
+                    await nodemailerTransport.sendMail({ from: `"SmartReception" <${sender}>`, to, subject, text, html, attachments });
+                }
+                console.log(`[Email] Sent "${subject}" to ${to}`);
+                return true;
+            } catch (err) {
+                console.error(`[Email] Failed to send "${subject}" to ${to}:`, err.message);
+                return false;
+            }
+        },
+
+        // Checks the SMTP login; Resend keys are checked when sending
+        verify: async () => {
+            if (nodemailerTransport) await nodemailerTransport.verify();
+        }
+    };
+};
@@ -0,0 +1,104 @@
+import { getPlanOrFree } from './plans.js';
+
+// ===== INVOICES =====
+// Every approved payment_requests row gets exactly one invoice (invoices.payment_request_id is unique).
+// invoice_number is a Postgres identity column, so numbers are sequential across all businesses;
+// it is shown to customers as INV-000042. Receipts are rendered on demand from the stored invoice
+// row, so a PDF always matches what was recorded at approval time.
+
+export const formatInvoiceNumber = (number) => `INV-${String(number).padStart(6, '0')}`;
+
+export const formatAmount = (amount, currency = 'USD') =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(Number(amount) || 0);
+
+// Issues the invoice for an approved payment request; calling it again returns the existing invoice
+export const issueInvoice = async (supabase, request) => {
+    const { data: business } = await supabase
+        .from('businesses')
+        .select('business_name')
+        .eq('id', request.business_id)
+        .single();
+
+    const { data: invoice, error } = await supabase
+        .from('invoices')
+        .insert({
+            payment_request_id: request.id,
+            business_id: request.business_id,
+            business_name: business?.business_name || null,
+            email: request.email || null,
+            plan: request.plan,
+            plan_name: getPlanOrFree(request.plan).name,
+            amount: request.amount,
+            currency: 'USD',
+            payment_method: request.payment_method,
+            payment_reference: request.payment_reference || null
+        })
+        .select('*')
+        .single();
+
+    if (error?.code === '23505') {
+        const { data: existing, error: fetchError } = await supabase
+            .from('invoices')
+            .select('*')
+            .eq('payment_request_id', request.id)
+            .single();
+
+        if (fetchError) throw fetchError;
+        return existing;
+    }
+    if (error) throw error;
+    return invoice;
+};
+
+// --- Receipt PDF ---
+// A single-page PDF written by hand: the receipt is a handful of text lines, which the
+// built-in Helvetica font covers without embedding anything.
+
+// PDF string literal; characters outside printable ASCII are not in the standard font encoding
+const pdfText = (value) => `(${String(value ?? '').replace(/[^\x20-\x7e]/g, '?').replace(/[\\()]/g, '\\$&')})`;
+
+const receiptLines = (invoice) => {
+    const issued = new Date(invoice.issued_at || Date.now());
+    return [
+        { size: 22, text: 'SmartReception' },
+        { size: 14, text: `Receipt ${formatInvoiceNumber(invoice.invoice_number)}`, gap: 30 },
+        { size: 11, text: `Date: ${issued.toISOString().slice(0, 10)}`, gap: 30 },
+        { size: 11, text: `Billed to: ${invoice.business_name || 'Your business'}` },
+        ...(invoice.email ? [{ size: 11, text: `Email: ${invoice.email}` }] : []),
+        { size: 11, text: `Plan: ${invoice.plan_name || invoice.plan} (1 month)`, gap: 30 },
+        { size: 11, text: `Payment method: ${invoice.payment_method}` },
+        ...(invoice.payment_reference ? [{ size: 11, text: `Reference: ${invoice.payment_reference}` }] : []),
+        { size: 16, text: `Amount paid: ${formatAmount(invoice.amount, invoice.currency || 'USD')}`, gap: 36 },
+        { size: 9, text: 'Thank you for your business.', gap: 48 }
+    ];
+};
+
+export const renderReceiptPdf = (invoice) => {
+    let y = 780;
+    const content = receiptLines(invoice).map(({ size, text, gap = 20 }) => {
+        y -= gap;
+        return `BT /F1 ${size} Tf 56 ${y} Td ${pdfText(text)} Tj ET`;
+    }).join('\n');
+
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`
+    ];
+
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((body, index) => {
+        const offset = Buffer.byteLength(pdf);
+        pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+        return offset;
+    });
+
+    const xrefOffset = Buffer.byteLength(pdf);
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(pdf, 'latin1');
+};
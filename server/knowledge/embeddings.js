@@ -0,0 +1,82 @@
+// ===== EMBEDDINGS =====
+// Embedders share one interface: { id, dimensions, embed(texts, { purpose: 'document' | 'query' }) -> number[][] }.
+// id is stored with every chunk; search only compares vectors made by the same embedder.
+//   gemini: text-embedding-004 through the Gemini API
+//   local:  deterministic feature hashing, no network (tests, development without an API key)
+// Both produce 768 dimensions so they fit the same vector column.
+
+export const EMBEDDING_DIMENSIONS = 768;
+
+const GEMINI_BATCH_SIZE = 100;
+
+export const createGeminiEmbedder = ({ genAI, model = 'text-embedding-004' }) => {
+    const embeddingModel = genAI.getGenerativeModel({ model });
+
+    return {
+        id: `gemini:${model}`,
+        dimensions: EMBEDDING_DIMENSIONS,
+
+        embed: async (texts, { purpose = 'document' } = {}) => {
+            const vectors = [];
+            for (let i = 0; i < texts.length; i += GEMINI_BATCH_SIZE) {
+                const { embeddings } = await embeddingModel.batchEmbedContents({
+                    requests: texts.slice(i, i + GEMINI_BATCH_SIZE).map(text => ({
+                        content: { role: 'user', parts: [{ text }] },
+                        taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT'
+                    }))
+                });
+                vectors.push(...embeddings.map(e => e.values));
+            }
+            return vectors;
+        }
+    };
+};
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in', 'is',
+    'it', 'me', 'my', 'of', 'on', 'or', 'our', 'the', 'to', 'we', 'what', 'when', 'where', 'which', 'with', 'you', 'your'
+]);
+
+export const tokenize = (text) => String(text).toLowerCase()
+    .match(/[a-z0-9]+/g)
+    ?.filter(word => !STOP_WORDS.has(word))
+    // Crude plural folding so "costs" matches "cost"
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word)) || [];
+
+// 32-bit FNV-1a
+const hash = (text) => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+// Words and adjacent word pairs hashed into a fixed-size, L2-normalised vector
+export const createLocalEmbedder = ({ dimensions = EMBEDDING_DIMENSIONS } = {}) => ({
+    id: 'local:hash-v1',
+    dimensions,
+
+    embed: async (texts) => texts.map(text => {
+        const vector = new Array(dimensions).fill(0);
+        const words = tokenize(text);
+        const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+        for (const feature of features) {
+            const h = hash(feature);
+            vector[h % dimensions] += (h & 0x80000000) ? -1 : 1;
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        return norm ? vector.map(v => v / norm) : vector;
+    })
+});
+
+// EMBEDDINGS_PROVIDER=gemini|local; defaults to Gemini when GEMINI_API_KEY is set
+export const createEmbedderFromEnv = ({ env = process.env, genAI }) => {
+    const choice = env.EMBEDDINGS_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'local');
+    if (choice === 'gemini') return createGeminiEmbedder({ genAI });
+    if (choice !== 'local') console.warn(`⚠️ Unknown EMBEDDINGS_PROVIDER "${choice}", using local embeddings`);
+    return createLocalEmbedder();
+};
@@ -0,0 +1,167 @@
+import { inflateSync } from 'zlib';
+
+// ===== KNOWLEDGE EXTRACTION =====
+// Turns an upload into plain-text chunks ready to embed.
+//   faq:      [{ question, answer }], one chunk per entry
+//   text:     plain text
+//   markdown: Markdown; headings are kept as context, formatting is dropped
+//   pdf:      base64 PDF; text is read from the page content streams (Flate-compressed or not).
+//             Scanned pages and fonts that only have hex-encoded glyph ids yield no text.
+
+export const SOURCE_TYPES = ['faq', 'text', 'markdown', 'pdf'];
+
+export const MAX_CHUNK_CHARS = 800;
+
+export class KnowledgeExtractionError extends Error {}
+
+// --- PDF ---
+
+const unescapePdfString = (raw) => raw
+    .replace(/\\\r?\n/g, '')
+    .replace(/\\([0-7]{1,3})/g, (_, octal) => String.fromCharCode(parseInt(octal, 8)))
+    .replace(/\\(.)/g, (_, ch) => ({ n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' }[ch] ?? ch));
+
+// Reads the text-showing operators (Tj, TJ, ', ") of a content stream
+const textFromContentStream = (content) => {
+    let out = '';
+    let pending = [];
+    let i = 0;
+
+    while (i < content.length) {
+        const ch = content[i];
+
+        if (ch === '(') {
+            // Literal string, parentheses may nest
+            let depth = 1;
+            let j = i + 1;
+            for (; j < content.length && depth > 0; j++) {
+                if (content[j] === '\\') j++;
+                else if (content[j] === '(') depth++;
+                else if (content[j] === ')') depth--;
+            }
+            pending.push(unescapePdfString(content.slice(i + 1, j - 1)));
+            i = j;
+        } else if (ch === '[' || ch === ']') {
+            i++;
+        } else if (/[-\d.]/.test(ch) && pending.length) {
+            // Large negative kerning inside a TJ array usually stands for a space
+            const number = content.slice(i).match(/^-?\d*\.?\d+/)?.[0] || ch;
+            if (Number(number) < -200) pending.push(' ');
+            i += number.length;
+        } else if (/[A-Za-z'"*]/.test(ch)) {
+            const operator = content.slice(i).match(/^[A-Za-z'"*]+/)[0];
+            if (['Tj', 'TJ', "'", '"'].includes(operator)) {
+                if (operator !== 'Tj' && operator !== 'TJ') out += '\n';
+                out += pending.filter(part => part !== ' ' || pending.length > 1).join('');
+            } else if (['Td', 'TD', 'T*', 'ET'].includes(operator)) {
+                out += '\n';
+            }
+            pending = [];
+            i += operator.length;
+        } else {
+            i++;
+        }
+    }
+    return out;
+};
+
+export const extractPdfText = (buffer) => {
+    const pdf = buffer.toString('latin1');
+    if (!pdf.startsWith('%PDF')) throw new KnowledgeExtractionError('File is not a PDF');
+
+    const pages = [];
+    const objectPattern = /\d+\s+\d+\s+obj([\s\S]*?)stream\r?\n/g;
+    let match;
+    while ((match = objectPattern.exec(pdf))) {
+        const dictionary = match[1];
+        const start = objectPattern.lastIndex;
+        const end = pdf.indexOf('endstream', start);
+        if (end === -1) break;
+        objectPattern.lastIndex = end;
+
+        // Fonts, images and other binary streams are skipped
+        if (/\/(Subtype|Type)\s*\/(Image|XObject|FontFile|XRef|ObjStm)|\/Length1/.test(dictionary)) continue;
+
+        let data = Buffer.from(pdf.slice(start, end).replace(/\r?\n$/, ''), 'latin1');
+        if (/\/FlateDecode/.test(dictionary)) {
+            try {
+                data = inflateSync(data);
+            } catch {
+                continue;
+            }
+        } else if (/\/Filter/.test(dictionary)) {
+            continue;
+        }
+
+        const text = textFromContentStream(data.toString('latin1'));
+        if (text.trim()) pages.push(text);
+    }
+
+    const text = pages.join('\n\n').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+    if (!text) throw new KnowledgeExtractionError('No text could be read from this PDF (it may be a scan)');
+    return text;
+};
+
+// --- Markdown ---
+
+export const markdownToText = (markdown) => String(markdown)
+    .replace(/```[a-z]*\n?/gi, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+    .replace(/^#{1,6}\s+(.*)$/gm, '\n$1\n')
+    .replace(/^[ \t]*[-*+][ \t]+/gm, '- ')
+    .replace(/(\*\*|__|\*|_|`)(.+?)\1/g, '$2')
+    .replace(/^>\s?/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// --- Chunking ---
+
+// Paragraph-aligned chunks of at most maxChars; long paragraphs are split between sentences
+export const chunkText = (text, maxChars = MAX_CHUNK_CHARS) => {
+    const pieces = String(text)
+        .split(/\n\s*\n/)
+        .map(p => p.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .flatMap(paragraph => (paragraph.length <= maxChars ? [paragraph] : paragraph.match(/[^.!?]+[.!?]*\s*/g).map(s => s.trim())))
+        .flatMap(piece => (piece.length <= maxChars ? [piece] : piece.match(new RegExp(`.{1,${maxChars}}`, 'g'))));
+
+    const chunks = [];
+    let current = '';
+    for (const piece of pieces) {
+        if (current && current.length + piece.length + 1 > maxChars) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n${piece}` : piece;
+    }
+    if (current) chunks.push(current);
+    return chunks;
+};
+
+export const validateFaqEntries = (entries) => {
+    if (!Array.isArray(entries) || entries.length === 0) return 'FAQ entries are required';
+    for (const entry of entries) {
+        if (!entry?.question?.trim() || !entry?.answer?.trim()) return 'Every FAQ entry needs a question and an answer';
+    }
+    return null;
+};
+
+// Returns the chunks for an upload; throws KnowledgeExtractionError for unreadable content
+export const extractChunks = ({ type, content }) => {
+    switch (type) {
+        case 'faq': {
+            const error = validateFaqEntries(content);
+            if (error) throw new KnowledgeExtractionError(error);
+            return content.map(({ question, answer }) => `Q: ${question.trim()}\nA: ${answer.trim()}`.slice(0, MAX_CHUNK_CHARS * 2));
+        }
+        case 'text':
+            return chunkText(content);
+        case 'markdown':
+            return chunkText(markdownToText(content));
+        case 'pdf':
+            return chunkText(extractPdfText(Buffer.from(String(content), 'base64')));
+        default:
+            throw new KnowledgeExtractionError(`Type must be one of: ${SOURCE_TYPES.join(', ')}`);
+    }
+};
@@ -0,0 +1,143 @@
+import { extractChunks, KnowledgeExtractionError, SOURCE_TYPES } from './extract.js';
+
+// ===== KNOWLEDGE BASE =====
+// Per-business documents (FAQ entries, text, Markdown, PDF) split into chunks, embedded and stored in
+// knowledge_chunks (setup_knowledge.sql). For every question, /api/chat and the gather webhook embed the
+// question and add the closest passages to the prompt.
+// Retrieval is best effort: if embedding or search fails, the AI answers from the business details alone.
+
+export { createEmbedderFromEnv, createLocalEmbedder } from './embeddings.js';
+export { SOURCE_TYPES } from './extract.js';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_CONTENT_CHARS = 200000;
+const MAX_CHUNKS = 200;
+
+// Passages below this cosine similarity are left out of the prompt
+export const MIN_SIMILARITY = 0.2;
+
+export const validateDocument = ({ title, type, content } = {}) => {
+    if (!title?.trim()) return 'A title is required';
+    if (title.length > MAX_TITLE_LENGTH) return `Title must be at most ${MAX_TITLE_LENGTH} characters`;
+    if (!SOURCE_TYPES.includes(type)) return `Type must be one of: ${SOURCE_TYPES.join(', ')}`;
+    if (type === 'faq') return Array.isArray(content) ? null : 'FAQ entries are required';
+    if (typeof content !== 'string' || !content.trim()) return 'Content is required';
+    if (type !== 'pdf' && content.length > MAX_CONTENT_CHARS) return `Content must be at most ${MAX_CONTENT_CHARS} characters`;
+    return null;
+};
+
+// Extracts, chunks and embeds an upload. Returns { document } or { error, status }.
+export const addDocument = async (supabase, embedder, businessId, upload) => {
+    const invalid = validateDocument(upload);
+    if (invalid) return { error: invalid, status: 400 };
+
+    let chunks;
+    try {
+        chunks = extractChunks(upload);
+    } catch (err) {
+        if (err instanceof KnowledgeExtractionError) return { error: err.message, status: 400 };
+        throw err;
+    }
+    if (chunks.length === 0) return { error: 'The document has no text', status: 400 };
+    if (chunks.length > MAX_CHUNKS) return { error: `The document is too long (more than ${MAX_CHUNKS} passages)`, status: 400 };
+
+    const embeddings = await embedder.embed(chunks, { purpose: 'document' });
+
+    const { data: document, error } = await supabase
+        .from('knowledge_documents')
+        .insert({
+            business_id: businessId,
+            title: upload.title.trim(),
+            source_type: upload.type,
+            char_count: chunks.reduce((sum, chunk) => sum + chunk.length, 0),
+            chunk_count: chunks.length
+        })
+        .select('*')
+        .single();
+
+    if (error) throw error;
+
+    const { error: chunkError } = await supabase
+        .from('knowledge_chunks')
+        .insert(chunks.map((content, position) => ({
+            document_id: document.id,
+            business_id: businessId,
+            position,
+            content,
+            embedding: embeddings[position],
+            embedding_model: embedder.id
+        })));
+
+    if (chunkError) {
+        await supabase.from('knowledge_documents').delete().eq('id', document.id);
+        throw chunkError;
+    }
+
+    return { document };
+};
+
+export const listDocuments = async (supabase, businessId) => {
+    const { data, error } = await supabase
+        .from('knowledge_documents')
+        .select('*')
+        .eq('business_id', businessId)
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data;
+};
+
+// Chunks go with the document (on delete cascade)
+export const deleteDocument = async (supabase, businessId, documentId) => {
+    const { data: document } = await supabase
+        .from('knowledge_documents')
+        .select('id')
+        .eq('id', documentId)
+        .eq('business_id', businessId)
+        .maybeSingle();
+
+    if (!document) return { error: 'Document not found', status: 404 };
+
+    const { error } = await supabase
+        .from('knowledge_documents')
+        .delete()
+        .eq('id', documentId);
+
+    if (error) throw error;
+    return { deleted: true };
+};
+
+// Closest passages to the question: [{ content, title, similarity }]
+export const searchKnowledge = async (supabase, embedder, businessId, question, { limit = 4 } = {}) => {
+    if (!question?.trim()) return [];
+
+    const [embedding] = await embedder.embed([question], { purpose: 'query' });
+
+    const { data, error } = await supabase.rpc('match_knowledge_chunks', {
+        p_business_id: businessId,
+        p_embedding: embedding,
+        p_model: embedder.id,
+        p_limit: limit
+    });
+
+    if (error) throw error;
+    return data.filter(passage => passage.similarity >= MIN_SIMILARITY);
+};
+
+// searchKnowledge for prompts: failures are logged and treated as "nothing found"
+export const retrievePassages = async (supabase, embedder, businessId, question) => {
+    try {
+        return await searchKnowledge(supabase, embedder, businessId, question);
+    } catch (err) {
+        console.error('[Knowledge] Retrieval Error:', err.message);
+        return [];
+    }
+};
+
+// Prompt section for retrieved passages; empty when nothing matched
+export const formatKnowledgeContext = (passages) => {
+    if (!passages.length) return '';
+    return `\nKnowledge Base (most relevant passages for this question):\n${
+        passages.map((passage, i) => `[${i + 1}] (${passage.title})\n${passage.content}`).join('\n\n')
+    }\n`;
+};
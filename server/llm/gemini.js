@@ -0,0 +1,61 @@
+// ===== GEMINI =====
+// Chat adapter over @google/generative-ai. Tool declarations are already in Gemini's schema format.
+
+export const GEMINI_MODELS = ['gemini-flash-latest', 'gemini-2.5-flash', 'gemini-2.5-pro'];
+
+// Neutral messages -> Gemini contents. Consecutive tool results share one 'function' turn,
+// and the history must start with a user turn.
+export const toGeminiContents = (messages) => {
+    const contents = [];
+    for (const message of messages) {
+        if (message.role === 'tool') {
+            const part = { functionResponse: { name: message.name, response: message.result } };
+            const last = contents[contents.length - 1];
+            if (last?.role === 'function') last.parts.push(part);
+            else contents.push({ role: 'function', parts: [part] });
+        } else if (message.role === 'assistant') {
+            contents.push({
+                role: 'model',
+                parts: [
+                    ...(message.content ? [{ text: message.content }] : []),
+                    ...(message.toolCalls || []).map(call => ({ functionCall: { name: call.name, args: call.args } }))
+                ]
+            });
+        } else {
+            contents.push({ role: 'user', parts: [{ text: message.content || '' }] });
+        }
+    }
+
+    if (contents[0] && contents[0].role !== 'user') {
+        contents.unshift({ role: 'user', parts: [{ text: 'Start conversation' }] });
+    }
+    return contents;
+};
+
+export const createGeminiProvider = ({ genAI, models = GEMINI_MODELS }) => ({
+    id: 'gemini',
+    name: 'Google Gemini',
+    models,
+
+    chat: async ({ model, system, messages, tools, onText }) => {
+        const generativeModel = genAI.getGenerativeModel({ model });
+        const result = await generativeModel.generateContentStream({
+            contents: toGeminiContents(messages),
+            systemInstruction: { role: 'system', parts: [{ text: system }] },
+            ...(tools?.length ? { tools: [{ functionDeclarations: tools }] } : {})
+        });
+
+        let text = '';
+        for await (const chunk of result.stream) {
+            const piece = chunk.text();
+            if (piece) {
+                text += piece;
+                onText(piece);
+            }
+        }
+
+        // Gemini does not number its calls; ids only need to be unique within the turn
+        const calls = (await result.response).functionCalls() || [];
+        return { text, toolCalls: calls.map((call, i) => ({ id: `${call.name}-${i}`, name: call.name, args: call.args || {} })) };
+    }
+});
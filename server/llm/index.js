@@ -0,0 +1,140 @@
+import OpenAI from 'openai';
+import { createGeminiProvider } from './gemini.js';
+import { createOpenAIProvider } from './openai.js';
+import { createMockProvider } from './mock.js';
+
+// ===== LLM PROVIDERS =====
+// Chat models sit behind one interface so each business can pick one and a failing provider is skipped:
+//   provider.chat({ model, system, messages, tools, onText }) -> { text, toolCalls: [{ id, name, args }] }
+// messages are neutral turns: { role: 'user' | 'assistant', content, toolCalls? } and
+// { role: 'tool', toolCallId, name, result }. tools are Gemini-style function declarations.
+// Models are named '<provider>:<model>', e.g. 'openai:gpt-4o-mini'; businesses.ai_model holds the owner's choice.
+
+const MAX_TOOL_ROUNDS = 4;
+
+// A provider that just failed is tried last for this long
+const FAILURE_COOLDOWN_MS = 60 * 1000;
+
+export const parseModelId = (modelId) => {
+    const [provider, ...rest] = String(modelId || '').split(':');
+    return rest.length ? { provider, model: rest.join(':') } : null;
+};
+
+// providers: adapters; defaultModel / fallbackModels: '<provider>:<model>' ids
+export const createLLM = ({ providers, defaultModel, fallbackModels = [], now = Date.now }) => {
+    const byId = Object.fromEntries(providers.map(provider => [provider.id, provider]));
+    const failedAt = {};
+
+    const isAvailable = (modelId) => {
+        const parsed = parseModelId(modelId);
+        return !!parsed && !!byId[parsed.provider]?.models.includes(parsed.model);
+    };
+
+    const listModels = () => providers.flatMap(provider => provider.models.map(model => ({
+        id: `${provider.id}:${model}`,
+        provider: provider.id,
+        providerName: provider.name,
+        model
+    })));
+
+    // Preferred model first (when available), then the default and the fallbacks; recently failed providers go last
+    const modelChain = (preferred) => {
+        const chain = [...new Set([preferred, defaultModel, ...fallbackModels].filter(isAvailable))];
+        const cooling = (modelId) => (now() - (failedAt[parseModelId(modelId).provider] ?? -Infinity) < FAILURE_COOLDOWN_MS ? 1 : 0);
+        return chain.sort((a, b) => cooling(a) - cooling(b));
+    };
+
+    // One model call with failover. Only fails over before any text was streamed, so callers never see
+    // half an answer followed by a different model's answer.
+    const chatWithFailover = async (chain, request) => {
+        let lastError = new Error('No AI model is configured');
+        for (const modelId of chain) {
+            const { provider, model } = parseModelId(modelId);
+            let streamed = false;
+            try {
+                const result = await byId[provider].chat({
+                    ...request,
+                    model,
+                    onText: (text) => {
+                        streamed = true;
+                        request.onText(text);
+                    }
+                });
+                delete failedAt[provider];
+                return { ...result, modelId };
+            } catch (err) {
+                failedAt[provider] = now();
+                if (streamed) throw err;
+                console.warn(`[LLM] ${modelId} failed, trying the next model:`, err.message);
+                lastError = err;
+            }
+        }
+        throw lastError;
+    };
+
+    // Sends one user message, streams the reply to onText and resolves tool calls through toolHandler.
+    // Returns { text, modelId } for the final round.
+    const runChatTurn = async ({ preferredModel, system, history = [], message, tools = [], toolHandler, onText = () => {} }) => {
+        let chain = modelChain(preferredModel);
+        const messages = [...history, { role: 'user', content: message }];
+        let text = '';
+
+        for (let round = 0; ; round++) {
+            const result = await chatWithFailover(chain, { system, messages, tools: toolHandler ? tools : [], onText });
+            text += result.text;
+            // Later rounds stay on the model that answered
+            chain = [result.modelId, ...chain.filter(modelId => modelId !== result.modelId)];
+
+            if (!result.toolCalls.length || !toolHandler || round >= MAX_TOOL_ROUNDS) return { text, modelId: result.modelId };
+
+            messages.push({ role: 'assistant', content: result.text, toolCalls: result.toolCalls });
+            const results = await Promise.all(result.toolCalls.map(toolHandler));
+            result.toolCalls.forEach((call, i) => messages.push({ role: 'tool', toolCallId: call.id, name: call.name, result: results[i] }));
+        }
+    };
+
+    return { listModels, isAvailable, modelChain, runChatTurn, defaultModel };
+};
+
+const splitList = (value) => String(value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+// Providers from env:
+//   GEMINI_API_KEY                     Gemini (also used when nothing else is configured)
+//   OPENAI_API_KEY, OPENAI_MODELS      OpenAI
+//   LOCAL_LLM_URL, LOCAL_LLM_MODELS    an OpenAI-compatible local server, e.g. http://localhost:11434/v1
+//   LLM_MOCK=true                      the deterministic mock model (see mock.js), for running offline
+//   LLM_DEFAULT_MODEL                  e.g. 'openai:gpt-4o-mini'; defaults to the first configured provider
+//   LLM_FALLBACK_MODELS                comma-separated; defaults to the first model of every other provider
+export const createLLMFromEnv = ({ env = process.env, genAI, createOpenAIClient = (options) => new OpenAI(options) }) => {
+    const providers = [];
+
+    if (env.OPENAI_API_KEY) {
+        providers.push(createOpenAIProvider({
+            client: createOpenAIClient({ apiKey: env.OPENAI_API_KEY }),
+            ...(env.OPENAI_MODELS && { models: splitList(env.OPENAI_MODELS) })
+        }));
+    }
+    if (env.LOCAL_LLM_URL) {
+        providers.push(createOpenAIProvider({
+            client: createOpenAIClient({ apiKey: env.LOCAL_LLM_API_KEY || 'local', baseURL: env.LOCAL_LLM_URL }),
+            id: 'local',
+            name: 'Local model',
+            models: splitList(env.LOCAL_LLM_MODELS || 'llama3.1')
+        }));
+    }
+    if (env.LLM_MOCK === 'true') {
+        providers.push(createMockProvider());
+    }
+    if (env.GEMINI_API_KEY || providers.length === 0) {
+        providers.unshift(createGeminiProvider({ genAI }));
+    }
+
+    const defaultModel = env.LLM_DEFAULT_MODEL || `${providers[0].id}:${providers[0].models[0]}`;
+    const fallbackModels = env.LLM_FALLBACK_MODELS
+        ? splitList(env.LLM_FALLBACK_MODELS)
+        : providers.map(provider => `${provider.id}:${provider.models[0]}`);
+
+    const llm = createLLM({ providers, defaultModel, fallbackModels });
+    if (!llm.isAvailable(defaultModel)) console.warn(`⚠️ LLM_DEFAULT_MODEL "${defaultModel}" is not offered by any configured provider`);
+    return llm;
+};
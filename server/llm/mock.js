@@ -0,0 +1,46 @@
+// ===== MOCK MODEL =====
+// Deterministic provider for tests and offline development (LLM_MOCK=true). No network calls.
+// By default it replies 'You said: <message>'. A user message of the form '/tool <name> <json args>'
+// makes it call that tool, and after tool results it reports them back as text.
+
+export const MOCK_MODELS = ['echo'];
+
+const TOOL_COMMAND = /^\/tool\s+(\w+)\s*(.*)$/s;
+
+export const defaultMockReply = ({ messages }) => {
+    const last = messages[messages.length - 1];
+    if (!last) return { text: '' };
+
+    if (last.role === 'tool') {
+        const results = [];
+        for (let i = messages.length - 1; i >= 0 && messages[i].role === 'tool'; i--) results.unshift(messages[i]);
+        return { text: results.map(result => `${result.name}: ${JSON.stringify(result.result)}`).join('\n') };
+    }
+
+    const command = TOOL_COMMAND.exec(last.content || '');
+    if (command) {
+        return { text: '', toolCalls: [{ id: `mock-${messages.length}`, name: command[1], args: command[2] ? JSON.parse(command[2]) : {} }] };
+    }
+    return { text: `You said: ${last.content}` };
+};
+
+// reply({ model, system, messages, tools }) -> { text, toolCalls? } | Error; every request is kept in requests
+export const createMockProvider = ({ id = 'mock', name = 'Mock model', models = MOCK_MODELS, reply = defaultMockReply } = {}) => {
+    const requests = [];
+    return {
+        id,
+        name,
+        models,
+        requests,
+
+        chat: async ({ model, system, messages, tools, onText }) => {
+            requests.push({ model, system, messages: [...messages], tools });
+            const result = await reply({ model, system, messages, tools });
+            if (result instanceof Error) throw result;
+
+            // Streamed word by word so callers see more than one chunk
+            for (const piece of (result.text || '').match(/\S+\s*|\s+/g) || []) onText(piece);
+            return { text: result.text || '', toolCalls: result.toolCalls || [] };
+        }
+    };
+};
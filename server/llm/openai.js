@@ -0,0 +1,94 @@
+// ===== OPENAI-COMPATIBLE CHAT =====
+// Chat Completions adapter used for OpenAI itself and for local servers that speak the same API
+// (Ollama, LM Studio, vLLM, llama.cpp) at LOCAL_LLM_URL.
+
+export const OPENAI_MODELS = ['gpt-4o-mini', 'gpt-4o'];
+
+// Gemini-style declarations -> JSON Schema ('format: enum' is Gemini-only)
+export const toJsonSchema = (schema) => {
+    if (Array.isArray(schema)) return schema.map(toJsonSchema);
+    if (!schema || typeof schema !== 'object') return schema;
+
+    const result = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (key === 'format' && value === 'enum') continue;
+        result[key] = key === 'enum' || key === 'required' ? value : toJsonSchema(value);
+    }
+    return result;
+};
+
+export const toOpenAITools = (tools) => tools.map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: toJsonSchema(tool.parameters) }
+}));
+
+// Neutral messages -> Chat Completions messages
+export const toOpenAIMessages = (system, messages) => [
+    { role: 'system', content: system },
+    ...messages.map(message => {
+        if (message.role === 'tool') {
+            return { role: 'tool', tool_call_id: message.toolCallId, content: JSON.stringify(message.result) };
+        }
+        if (message.role === 'assistant') {
+            return {
+                role: 'assistant',
+                content: message.content || null,
+                ...(message.toolCalls?.length && {
+                    tool_calls: message.toolCalls.map(call => ({
+                        id: call.id,
+                        type: 'function',
+                        function: { name: call.name, arguments: JSON.stringify(call.args) }
+                    }))
+                })
+            };
+        }
+        return { role: 'user', content: message.content || '' };
+    })
+];
+
+const parseArguments = (json) => {
+    try {
+        return JSON.parse(json || '{}');
+    } catch {
+        return {};
+    }
+};
+
+// client: an `openai` SDK client (new OpenAI({ apiKey, baseURL }))
+export const createOpenAIProvider = ({ client, id = 'openai', name = 'OpenAI', models = OPENAI_MODELS }) => ({
+    id,
+    name,
+    models,
+
+    chat: async ({ model, system, messages, tools, onText }) => {
+        const stream = await client.chat.completions.create({
+            model,
+            messages: toOpenAIMessages(system, messages),
+            ...(tools?.length ? { tools: toOpenAITools(tools) } : {}),
+            stream: true
+        });
+
+        let text = '';
+        // Tool calls arrive in fragments keyed by index
+        const calls = [];
+        for await (const chunk of stream) {
+            const delta = chunk.choices?.[0]?.delta;
+            if (!delta) continue;
+            if (delta.content) {
+                text += delta.content;
+                onText(delta.content);
+            }
+            for (const fragment of delta.tool_calls || []) {
+                const call = (calls[fragment.index] ||= { id: '', name: '', arguments: '' });
+                if (fragment.id) call.id = fragment.id;
+                if (fragment.function?.name) call.name += fragment.function.name;
+                if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+            }
+        }
+
+        return {
+            text,
+            toolCalls: calls.filter(Boolean).map((call, i) => ({ id: call.id || `call-${i}`, name: call.name, args: parseArguments(call.arguments) }))
+        };
+    }
+});
@@ -0,0 +1,76 @@
+import { SchemaType } from '@google/generative-ai';
+
+// ===== MESSAGES & LEADS =====
+
+export const URGENCY_LEVELS = ['low', 'normal', 'high'];
+export const MESSAGE_STATUSES = ['new', 'read', 'handled'];
+
+// Inserts a message taken by the AI (or the dashboard) for the business owner.
+// Returns { message } on success or { error } when required details are missing.
+export const saveMessage = async (supabase, business, details) => {
+    const { callerName, callerPhone, reason, urgency, source, callSid } = details;
+
+    if (!reason) return { error: 'A reason for the message is required' };
+    if (!callerName && !callerPhone) return { error: 'A name or phone number is required' };
+
+    const { data, error } = await supabase
+        .from('messages')
+        .insert({
+            business_id: business.id,
+            user_id: business.user_id,
+            caller_name: callerName || null,
+            caller_phone: callerPhone || null,
+            reason,
+            urgency: URGENCY_LEVELS.includes(urgency) ? urgency : 'normal',
+            status: 'new',
+            source: source || 'chat',
+            call_sid: callSid || null
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return { message: data };
+};
+
+// --- Gemini function calling ---
+
+export const messageFunctions = [
+    {
+        name: 'take_message',
+        description: 'Save a message for the business owner once the caller has given their details and reason for calling.',
+        parameters: {
+            type: SchemaType.OBJECT,
+            properties: {
+                caller_name: { type: SchemaType.STRING, description: 'Full name of the caller' },
+                caller_phone: { type: SchemaType.STRING, description: 'Phone number to call back, if given' },
+                reason: { type: SchemaType.STRING, description: 'Short summary of why they called' },
+                urgency: {
+                    type: SchemaType.STRING,
+                    format: 'enum',
+                    enum: URGENCY_LEVELS,
+                    description: 'high if the caller needs a call back today, low if it can wait'
+                }
+            },
+            required: ['reason', 'urgency']
+        }
+    }
+];
+
+// onSaved runs after a message is stored (used to notify the owner)
+export const createMessageToolHandlers = (supabase, business, { source, callSid, callerNumber, onSaved } = {}) => ({
+    take_message: async (args) => {
+        const result = await saveMessage(supabase, business, {
+            callerName: args.caller_name,
+            callerPhone: args.caller_phone || callerNumber,
+            reason: args.reason,
+            urgency: args.urgency,
+            source,
+            callSid
+        });
+        if (result.error) return { saved: false, error: result.error };
+
+        if (onSaved) await onSaved(result.message);
+        return { saved: true };
+    }
+});
@@ -0,0 +1,50 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { encryptSecret, hashForLookup, isEncrypted, isEncryptionConfigured } from './credentials.js';
+dotenv.config();
+
+// One-off migration: encrypt Twilio credentials stored in plaintext before setup_credentials.sql.
+// Safe to re-run; rows that are already encrypted are skipped.
+
+async function main() {
+    if (!isEncryptionConfigured()) throw new Error('Set CREDENTIALS_ENCRYPTION_KEY before migrating.');
+    if (!process.env.SUPABASE_SERVICE_ROLE_KEY) throw new Error('Set SUPABASE_SERVICE_ROLE_KEY before migrating.');
+
+    const supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY);
+
+    const { data: businesses, error } = await supabase
+        .from('businesses')
+        .select('id, twilio_account_sid, twilio_auth_token')
+        .or('twilio_account_sid.not.is.null,twilio_auth_token.not.is.null');
+
+    if (error) throw error;
+
+    const pending = businesses.filter(b =>
+        (b.twilio_account_sid && !isEncrypted(b.twilio_account_sid)) ||
+        (b.twilio_auth_token && !isEncrypted(b.twilio_auth_token))
+    );
+    console.log(`Found ${pending.length} of ${businesses.length} businesses with plaintext Twilio credentials.`);
+
+    for (const business of pending) {
+        const update = {};
+        if (business.twilio_account_sid && !isEncrypted(business.twilio_account_sid)) {
+            update.twilio_account_sid = encryptSecret(business.twilio_account_sid);
+            update.twilio_account_sid_hash = hashForLookup(business.twilio_account_sid);
+        }
+        if (business.twilio_auth_token && !isEncrypted(business.twilio_auth_token)) {
+            update.twilio_auth_token = encryptSecret(business.twilio_auth_token);
+        }
+
+        const { error: updateError } = await supabase.from('businesses').update(update).eq('id', business.id);
+        if (updateError) {
+            console.error(`❌ Business ${business.id}:`, updateError.message);
+        } else {
+            console.log(`✅ Business ${business.id} encrypted`);
+        }
+    }
+}
+
+main().catch(err => {
+    console.error(err.message);
+    process.exit(1);
+});
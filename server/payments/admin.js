@@ -0,0 +1,157 @@
+import { changePlan } from '../billingCycle.js';
+import { FREE_PLAN_ID, getPlanOrFree } from '../plans.js';
+
+// ===== ADMIN PAYMENT ACTIONS =====
+// Reject, refund and plan downgrades made from AdminView. Each action that changes something
+// writes one admin_audit_log row (actor, action, target, details) once it has succeeded.
+// payment_requests.status: 'pending' -> 'approved' | 'rejected'; 'approved' -> 'refunded'
+// Each transition is a guarded update (.eq('status', from)), so of two concurrent admins only one wins
+// and the other gets a 409.
+// Card refunds go back through the card provider; manual transfers are refunded outside the app
+// and only recorded here.
+
+// Payment actions here, and the tenant console's (see tenants.js)
+export const ADMIN_ACTIONS = [
+    'approve', 'reject', 'refund', 'downgrade',
+    'adjust_limit', 'change_plan', 'suspend', 'unsuspend', 'impersonate'
+];
+
+export const recordAdminAction = async (supabase, { actor, action, paymentRequestId = null, businessId = null, details = {} }) => {
+    if (!ADMIN_ACTIONS.includes(action)) throw new Error(`Unknown admin action: ${action}`);
+
+    const { error } = await supabase
+        .from('admin_audit_log')
+        .insert({
+            actor,
+            action,
+            payment_request_id: paymentRequestId,
+            business_id: businessId,
+            details
+        });
+
+    if (error) throw error;
+};
+
+const getRequest = async (supabase, requestId) => {
+    const { data } = await supabase
+        .from('payment_requests')
+        .select('*')
+        .eq('id', requestId)
+        .single();
+
+    return data;
+};
+
+export const rejectPayment = async (supabase, { requestId, reason, actor }) => {
+    if (!reason?.trim()) return { error: 'A reason is required', status: 400 };
+
+    const request = await getRequest(supabase, requestId);
+    if (!request) return { error: 'Request not found', status: 404 };
+    if (request.status !== 'pending') return { error: `Only pending requests can be rejected (this one is ${request.status})`, status: 400 };
+
+    const { data: updated, error } = await supabase
+        .from('payment_requests')
+        .update({ status: 'rejected', status_reason: reason.trim() })
+        .eq('id', requestId)
+        .eq('status', 'pending')
+        .select('id');
+
+    if (error) throw error;
+    if (!updated?.length) return { error: 'This request was already handled', status: 409 };
+
+    await recordAdminAction(supabase, {
+        actor,
+        action: 'reject',
+        paymentRequestId: request.id,
+        businessId: request.business_id,
+        details: { reason: reason.trim() }
+    });
+    return { request };
+};
+
+// Moves a business to a cheaper plan (or free) for the rest of its period
+export const downgradeBusiness = async (supabase, { businessId, planId = FREE_PLAN_ID, reason, actor, paymentRequestId = null }) => {
+    const { data: business } = await supabase
+        .from('businesses')
+        .select('id, subscription_plan')
+        .eq('id', businessId)
+        .single();
+
+    if (!business) return { error: 'Business not found', status: 404 };
+
+    const current = getPlanOrFree(business.subscription_plan);
+    const target = getPlanOrFree(planId);
+    if (target.id !== planId) return { error: `Unknown plan: ${planId}`, status: 400 };
+    if (target.price >= current.price) return { error: `${target.name} is not a downgrade from ${current.name}`, status: 400 };
+
+    await changePlan(supabase, business, target);
+
+    await recordAdminAction(supabase, {
+        actor,
+        action: 'downgrade',
+        paymentRequestId,
+        businessId,
+        details: { from: current.id, to: target.id, ...(reason?.trim() && { reason: reason.trim() }) }
+    });
+    return { business: { ...business, subscription_plan: target.id } };
+};
+
+// Refunds an approved payment. downgrade: also move the business back to free straight away.
+export const refundPayment = async (supabase, { requestId, reason, actor, downgrade = false, card = null }) => {
+    if (!reason?.trim()) return { error: 'A reason is required', status: 400 };
+
+    const request = await getRequest(supabase, requestId);
+    if (!request) return { error: 'Request not found', status: 404 };
+    if (request.status !== 'approved') return { error: `Only approved payments can be refunded (this one is ${request.status})`, status: 400 };
+
+    // Claimed before the card refund so two admins cannot refund the same payment twice
+    const { data: updated, error } = await supabase
+        .from('payment_requests')
+        .update({ status: 'refunded', status_reason: reason.trim() })
+        .eq('id', requestId)
+        .eq('status', 'approved')
+        .select('id');
+
+    if (error) throw error;
+    if (!updated?.length) return { error: 'This payment was already handled', status: 409 };
+
+    let refundReference = null;
+    if (card && request.payment_method === card.id) {
+        try {
+            ({ refundId: refundReference } = await card.refund({ reference: request.payment_reference, amount: Number(request.amount) }));
+        } catch (err) {
+            await supabase.from('payment_requests').update({ status: 'approved', status_reason: null }).eq('id', requestId);
+            throw err;
+        }
+
+        const { error: referenceError } = await supabase
+            .from('payment_requests')
+            .update({ refund_reference: refundReference })
+            .eq('id', requestId);
+
+        if (referenceError) throw referenceError;
+    }
+
+    const { error: invoiceError } = await supabase
+        .from('invoices')
+        .update({ refunded_at: new Date().toISOString() })
+        .eq('payment_request_id', requestId);
+
+    if (invoiceError) throw invoiceError;
+
+    await recordAdminAction(supabase, {
+        actor,
+        action: 'refund',
+        paymentRequestId: request.id,
+        businessId: request.business_id,
+        details: { reason: reason.trim(), amount: Number(request.amount), method: request.payment_method, refundReference }
+    });
+
+    if (downgrade) {
+        const result = await downgradeBusiness(supabase, { businessId: request.business_id, reason: 'Payment refunded', actor, paymentRequestId: request.id });
+        // Already on free (or a cheaper plan) is fine: the refund itself went through
+        if (result.error && result.status !== 400) return result;
+    }
+
+    return { request: { ...request, status: 'refunded', refund_reference: refundReference } };
+};
@@ -0,0 +1,115 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// ===== CARD PAYMENTS (Stripe-compatible) =====
+// Hosted checkout sessions are created over the REST API; results arrive on a signed webhook.
+// Signature header: "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${rawBody}`>".
+
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export class PaymentWebhookError extends Error {}
+
+export const signPayload = (secret, payload, timestamp = Math.floor(Date.now() / 1000)) => {
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+};
+
+export const verifySignature = (secret, rawBody, header, now = Date.now()) => {
+    if (!header) throw new PaymentWebhookError('Missing signature');
+
+    const parts = Object.fromEntries(header.split(',').map(part => part.split('=')));
+    const timestamp = Number(parts.t);
+    if (!timestamp || !parts.v1) throw new PaymentWebhookError('Malformed signature');
+    if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) throw new PaymentWebhookError('Signature expired');
+
+    const expected = Buffer.from(signPayload(secret, rawBody, timestamp).split('v1=')[1], 'hex');
+    const received = Buffer.from(parts.v1, 'hex');
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+        throw new PaymentWebhookError('Invalid signature');
+    }
+};
+
+// Maps a checkout event to { id, type: 'payment.succeeded' | 'payment.failed' | 'ignored', sessionId, businessId, plan, amount, reference }
+export const toPaymentEvent = (event) => {
+    const session = event.data?.object || {};
+    const base = {
+        id: event.id,
+        sessionId: session.id,
+        businessId: session.metadata?.business_id,
+        plan: session.metadata?.plan,
+        amount: (session.amount_total || 0) / 100,
+        reference: session.payment_intent || session.id
+    };
+
+    switch (event.type) {
+        case 'checkout.session.completed':
+        case 'checkout.session.async_payment_succeeded':
+            return { ...base, type: session.payment_status === 'paid' ? 'payment.succeeded' : 'ignored' };
+        case 'checkout.session.async_payment_failed':
+        case 'checkout.session.expired':
+            return { ...base, type: 'payment.failed' };
+        default:
+            return { ...base, type: 'ignored' };
+    }
+};
+
+const toFormBody = (params) => new URLSearchParams(
+    Object.entries(params).filter(([, value]) => value !== undefined && value !== null)
+).toString();
+
+export const createCardProvider = ({ secretKey, webhookSecret, apiBase = 'https://api.stripe.com', fetchImpl = fetch }) => ({
+    id: 'stripe',
+    name: 'Card',
+
+    createCheckout: async ({ plan, business, email, successUrl, cancelUrl }) => {
+        const response = await fetchImpl(`${apiBase}/v1/checkout/sessions`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${secretKey}`,
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: toFormBody({
+                mode: 'payment',
+                success_url: successUrl,
+                cancel_url: cancelUrl,
+                customer_email: email,
+                client_reference_id: business.id,
+                'line_items[0][quantity]': 1,
+                'line_items[0][price_data][currency]': 'usd',
+                'line_items[0][price_data][unit_amount]': Math.round(plan.price * 100),
+                'line_items[0][price_data][product_data][name]': plan.name,
+                'metadata[business_id]': business.id,
+                'metadata[plan]': plan.id
+            })
+        });
+
+        const session = await response.json();
+        if (!response.ok) throw new Error(session.error?.message || `Checkout failed with status ${response.status}`);
+
+        return { sessionId: session.id, url: session.url };
+    },
+
+    // Refunds a captured payment; reference is the payment intent stored on the payment request
+    refund: async ({ reference, amount }) => {
+        const response = await fetchImpl(`${apiBase}/v1/refunds`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${secretKey}`,
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: toFormBody({
+                payment_intent: reference,
+                amount: amount === undefined ? undefined : Math.round(amount * 100)
+            })
+        });
+
+        const refund = await response.json();
+        if (!response.ok) throw new Error(refund.error?.message || `Refund failed with status ${response.status}`);
+
+        return { refundId: refund.id };
+    },
+
+    parseWebhook: (rawBody, headers) => {
+        verifySignature(webhookSecret, rawBody, headers['stripe-signature']);
+        return toPaymentEvent(JSON.parse(rawBody));
+    }
+});
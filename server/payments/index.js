@@ -0,0 +1,117 @@
+import { startPlanPeriod } from '../billingCycle.js';
+import { issueInvoice } from '../invoices.js';
+import { getPlan } from '../plans.js';
+import { createCardProvider, PaymentWebhookError } from './card.js';
+import { createManualProvider } from './manual.js';
+import { createMockProvider } from './mock.js';
+
+// ===== PAYMENTS =====
+// Providers are adapters behind one interface:
+//   card providers ('stripe', 'mock'): createCheckout({ plan, business, email, successUrl, cancelUrl }) -> { sessionId, url }
+//                                      parseWebhook(rawBody, headers) -> normalised event (see card.js)
+//   manual provider:                   submit(...) / approve(...) for transfers an admin verifies
+// Rejections, refunds and downgrades are admin actions (see admin.js).
+// Whichever path confirms a payment issues an invoice for it and ends in activatePlan.
+
+export { PaymentWebhookError };
+export { downgradeBusiness, recordAdminAction, refundPayment, rejectPayment } from './admin.js';
+
+// Starts (or extends) a paid billing period for the business
+export const activatePlan = async (supabase, businessId, planId) => {
+    const plan = getPlan(planId);
+    if (!plan) throw new Error(`Unknown plan: ${planId}`);
+
+    const { data: business, error } = await supabase
+        .from('businesses')
+        .select('id, subscription_plan, minutes_used, minutes_limit, current_period_start, current_period_end, renewal_status')
+        .eq('id', businessId)
+        .single();
+
+    if (error) throw error;
+
+    await startPlanPeriod(supabase, business, plan);
+};
+
+const fulfilCheckout = async (supabase, providerId, event) => {
+    const plan = getPlan(event.plan);
+    if (!plan || !event.businessId) throw new Error(`Checkout ${event.sessionId} is missing plan or business metadata`);
+    if (event.amount < plan.price) throw new Error(`Checkout ${event.sessionId} paid ${event.amount}, expected ${plan.price}`);
+
+    const { data: requests, error } = await supabase
+        .from('payment_requests')
+        .update({ status: 'approved', payment_reference: event.reference })
+        .eq('payment_method', providerId)
+        .eq('provider_session_id', event.sessionId)
+        .select('*');
+
+    if (error) throw error;
+
+    // Invoice first: if activation fails the event is retried and the invoice is returned again, not duplicated
+    const invoice = requests?.[0] ? await issueInvoice(supabase, requests[0]) : null;
+    if (!invoice) console.warn(`[Payments] Checkout ${event.sessionId} has no payment request; no invoice issued`);
+
+    await activatePlan(supabase, event.businessId, plan.id);
+    return invoice;
+};
+
+// Handles a verified webhook event exactly once per (provider, event id).
+// The event row is claimed before any side effects; if fulfilment fails the claim is released
+// so the provider's retry can try again.
+export const processPaymentEvent = async (supabase, providerId, event) => {
+    const { error: claimError } = await supabase
+        .from('payment_events')
+        .insert({
+            provider: providerId,
+            event_id: event.id,
+            type: event.type,
+            session_id: event.sessionId || null
+        });
+
+    if (claimError?.code === '23505') return { duplicate: true };
+    if (claimError) throw claimError;
+
+    let invoice = null;
+    try {
+        if (event.type === 'payment.succeeded') {
+            invoice = await fulfilCheckout(supabase, providerId, event);
+        } else if (event.type === 'payment.failed') {
+            const { error } = await supabase
+                .from('payment_requests')
+                .update({ status: 'rejected' })
+                .eq('payment_method', providerId)
+                .eq('provider_session_id', event.sessionId)
+                .eq('status', 'pending');
+
+            if (error) throw error;
+        }
+    } catch (err) {
+        await supabase.from('payment_events').delete().eq('provider', providerId).eq('event_id', event.id);
+        throw err;
+    }
+
+    return { processed: true, invoice };
+};
+
+// Card provider from env: Stripe when STRIPE_SECRET_KEY is set, otherwise none.
+// PAYMENT_PROVIDER=stripe|mock|none forces a choice; the mock checkout activates plans without payment,
+// so it is only ever used when asked for explicitly.
+const createCardProviderFromEnv = (env, baseUrl) => {
+    const choice = env.PAYMENT_PROVIDER || (env.STRIPE_SECRET_KEY ? 'stripe' : 'none');
+
+    if (choice === 'stripe') {
+        if (!env.STRIPE_SECRET_KEY || !env.STRIPE_WEBHOOK_SECRET) {
+            console.warn('⚠️ PAYMENT_PROVIDER=stripe needs STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET. Card payments disabled.');
+            return null;
+        }
+        return createCardProvider({ secretKey: env.STRIPE_SECRET_KEY, webhookSecret: env.STRIPE_WEBHOOK_SECRET });
+    }
+    if (choice === 'mock') {
+        return createMockProvider({ webhookSecret: env.MOCK_PAYMENTS_SECRET || 'mock-webhook-secret', baseUrl });
+    }
+    return null;
+};
+
+export const createPaymentProviders = ({ env = process.env, baseUrl } = {}) => ({
+    card: createCardProviderFromEnv(env, baseUrl),
+    manual: createManualProvider({ activatePlan, issueInvoice })
+});
@@ -0,0 +1,59 @@
+// ===== MANUAL PAYMENTS =====
+// Bank/wallet transfers: the customer submits a reference and an admin approves it in AdminView.
+
+export const MANUAL_METHODS = [
+    { id: 'payoneer', name: 'Payoneer' },
+    { id: 'nayapay', name: 'NayaPay' }
+];
+
+export const createManualProvider = ({ activatePlan, issueInvoice }) => ({
+    id: 'manual',
+    methods: MANUAL_METHODS,
+
+    // The amount is always the plan price; the admin checks the transfer against it
+    submit: async (supabase, { user, business, plan, method, reference }) => {
+        if (!MANUAL_METHODS.some(m => m.id === method)) return { error: `Unknown payment method: ${method}` };
+
+        const { error } = await supabase
+            .from('payment_requests')
+            .insert({
+                user_id: user.id,
+                email: user.email, // Save email for notification
+                business_id: business.id,
+                plan: plan.id,
+                amount: plan.price,
+                payment_method: method,
+                payment_reference: reference,
+                status: 'pending'
+            });
+
+        if (error) throw error;
+        return { submitted: true };
+    },
+
+    approve: async (supabase, requestId) => {
+        const { data: request } = await supabase
+            .from('payment_requests')
+            .select('*')
+            .eq('id', requestId)
+            .single();
+
+        if (!request) return { error: 'Request not found', status: 404 };
+        if (request.status !== 'pending') return { error: `Only pending requests can be approved (this one is ${request.status})`, status: 400 };
+
+        // Guarded on pending so a second, concurrent approval cannot invoice and extend the plan again
+        const { data: updated, error } = await supabase
+            .from('payment_requests')
+            .update({ status: 'approved' })
+            .eq('id', requestId)
+            .eq('status', 'pending')
+            .select('id');
+
+        if (error) throw error;
+        if (!updated?.length) return { error: 'This request was already handled', status: 409 };
+
+        const invoice = await issueInvoice(supabase, { ...request, status: 'approved' });
+        await activatePlan(supabase, request.business_id, request.plan);
+        return { request, invoice };
+    }
+});
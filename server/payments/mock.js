@@ -0,0 +1,59 @@
+import { randomBytes } from 'crypto';
+import { signPayload, toPaymentEvent, verifySignature } from './card.js';
+
+// ===== MOCK CARD PROVIDER =====
+// Local stand-in for the card processor (development and tests). Checkout happens on a page served
+// by this server; completing it produces the same signed events as the real provider, so the
+// webhook, signature and fulfilment code paths are exercised end to end.
+
+export const createMockProvider = ({ webhookSecret, baseUrl }) => {
+    const sessions = new Map();
+
+    return {
+        id: 'mock',
+        name: 'Card (test mode)',
+
+        createCheckout: async ({ plan, business, successUrl, cancelUrl }) => {
+            const sessionId = `mock_cs_${randomBytes(8).toString('hex')}`;
+            sessions.set(sessionId, { plan, businessId: business.id, successUrl, cancelUrl });
+            return { sessionId, url: `${baseUrl}/api/billing/mock-checkout/${sessionId}` };
+        },
+
+        getSession: (sessionId) => sessions.get(sessionId) || null,
+
+        // Builds the signed webhook for a finished checkout: outcome is 'paid' or 'cancelled'
+        completeSession: (sessionId, outcome) => {
+            const session = sessions.get(sessionId);
+            if (!session) return null;
+            sessions.delete(sessionId);
+
+            const paid = outcome === 'paid';
+            const payload = JSON.stringify({
+                id: `evt_${randomBytes(8).toString('hex')}`,
+                type: paid ? 'checkout.session.completed' : 'checkout.session.expired',
+                data: {
+                    object: {
+                        id: sessionId,
+                        payment_status: paid ? 'paid' : 'unpaid',
+                        amount_total: Math.round(session.plan.price * 100),
+                        payment_intent: paid ? `mock_pi_${randomBytes(8).toString('hex')}` : null,
+                        metadata: { business_id: session.businessId, plan: session.plan.id }
+                    }
+                }
+            });
+
+            return {
+                payload,
+                signature: signPayload(webhookSecret, payload),
+                redirectUrl: paid ? session.successUrl : session.cancelUrl
+            };
+        },
+
+        refund: async () => ({ refundId: `mock_re_${randomBytes(8).toString('hex')}` }),
+
+        parseWebhook: (rawBody, headers) => {
+            verifySignature(webhookSecret, rawBody, headers['stripe-signature']);
+            return toPaymentEvent(JSON.parse(rawBody));
+        }
+    };
+};
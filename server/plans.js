@@ -0,0 +1,74 @@
+// ===== PLAN CATALOG =====
+// The only place plans are defined. Served to the client by /api/billing/plans and used for
+// payment fulfilment, minute limits and feature gating.
+//   minutes:        monthly minutes included
+//   overageMinutes: extra minutes the AI keeps answering after the limit when a business chooses 'grace'
+//   entitlements:   features the plan unlocks (see ENTITLEMENTS)
+
+export const ENTITLEMENTS = {
+    callTransfer: 'Transfer callers to staff',
+    customGreeting: 'Custom phone greetings'
+};
+
+export const FREE_PLAN_ID = 'free';
+
+const entitlements = (...enabled) =>
+    Object.fromEntries(Object.keys(ENTITLEMENTS).map(key => [key, enabled.includes(key)]));
+
+// Every business starts on the free plan and returns to it when a paid period ends unpaid
+export const FREE_PLAN = {
+    id: FREE_PLAN_ID,
+    name: 'Free Plan',
+    price: 0,
+    minutes: 10,
+    overageMinutes: 0,
+    features: ['Web Chat', 'Test Calls'],
+    entitlements: entitlements()
+};
+
+export const PLANS = [
+    {
+        id: 'starter',
+        name: 'Starter Plan',
+        price: 29,
+        minutes: 100,
+        overageMinutes: 20,
+        features: ['Basic AI Voice', 'Email Support'],
+        entitlements: entitlements()
+    },
+    {
+        id: 'growth',
+        name: 'Growth Plan',
+        price: 79,
+        minutes: 500,
+        overageMinutes: 100,
+        features: ['Advanced Voice', 'Priority Support', 'Custom Greeting', 'Call Transfer'],
+        entitlements: entitlements('callTransfer', 'customGreeting')
+    },
+    {
+        id: 'pro',
+        name: 'Pro Plan',
+        price: 149,
+        minutes: 2000,
+        overageMinutes: 400,
+        features: ['Premium Voice', '24/7 Phone Support', 'API Access', 'White Labeling'],
+        entitlements: entitlements(...Object.keys(ENTITLEMENTS))
+    }
+];
+
+// Paid plans only: the ones that can be bought
+export const getPlan = (planId) => PLANS.find(p => p.id === planId) || null;
+
+// The business's current plan, treating unknown or missing plans as free
+export const getPlanOrFree = (planId) => getPlan(planId) || FREE_PLAN;
+
+export const getEntitlements = (business) => getPlanOrFree(business?.subscription_plan).entitlements;
+
+export const hasEntitlement = (business, entitlement) => !!getEntitlements(business)[entitlement];
+
+// Error body for a request that needs a feature the current plan lacks
+export const entitlementError = (entitlement) => ({
+    error: `${ENTITLEMENTS[entitlement]} is not included in your plan. Upgrade to use it.`,
+    entitlement,
+    upgradeTo: PLANS.find(p => p.entitlements[entitlement])?.id || null
+});
@@ -0,0 +1,123 @@
+import { describeSchedule, validateSchedule } from './schedule.js';
+
+// ===== BUSINESS PROFILE =====
+// Name, services, tone, greeting and working hours are what the AI says about the business.
+// Every edit after onboarding goes through updateProfile, which writes a profile_history row with the
+// previous and new values of the changed columns. Reverting applies a row's previous values as a new
+// edit, so a revert can itself be undone.
+
+export const TONES = ['professional', 'friendly', 'enthusiastic'];
+
+const LIMITS = { name: 100, services: 5000, greeting: 500 };
+
+// Request field -> businesses column
+const PROFILE_COLUMNS = {
+    name: 'business_name',
+    services: 'services',
+    tone: 'tone',
+    greeting: 'greeting',
+    schedule: 'schedule'
+};
+
+export const validateProfileUpdate = (update) => {
+    if (!update || typeof update !== 'object') return 'Profile changes are required';
+
+    const fields = Object.keys(update).filter(field => update[field] !== undefined);
+    if (fields.length === 0) return 'Nothing to update';
+
+    const unknown = fields.find(field => !PROFILE_COLUMNS[field]);
+    if (unknown) return `Unknown profile field: ${unknown}`;
+
+    for (const field of ['name', 'services', 'greeting']) {
+        if (update[field] === undefined) continue;
+        if (typeof update[field] !== 'string') return `${field} must be text`;
+        if (update[field].length > LIMITS[field]) return `${field} must be at most ${LIMITS[field]} characters`;
+    }
+    if (update.name !== undefined && !update.name.trim()) return 'Business name is required';
+    if (update.tone !== undefined && !TONES.includes(update.tone)) return `Tone must be one of: ${TONES.join(', ')}`;
+    if (update.schedule !== undefined) return validateSchedule(update.schedule);
+
+    return null;
+};
+
+// Column values for a validated update; a schedule also refreshes the working_hours summary
+const toColumns = (update) => {
+    const columns = {};
+    for (const [field, column] of Object.entries(PROFILE_COLUMNS)) {
+        if (update[field] === undefined) continue;
+        columns[column] = typeof update[field] === 'string' ? update[field].trim() : update[field];
+    }
+    if (columns.schedule) columns.working_hours = describeSchedule(columns.schedule);
+    return columns;
+};
+
+const isSame = (a, b) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Applies changed columns to the business and records them. Returns { business, revision } or
+// { unchanged: true } when every value already matches.
+const applyColumns = async (supabase, business, columns, { userId, source, revertOf = null }) => {
+    const changed = Object.keys(columns).filter(column => !isSame(business[column], columns[column]));
+    if (changed.length === 0) return { unchanged: true };
+
+    const previous = Object.fromEntries(changed.map(column => [column, business[column] ?? null]));
+    const values = Object.fromEntries(changed.map(column => [column, columns[column]]));
+
+    const { data: updated, error } = await supabase
+        .from('businesses')
+        .update(values)
+        .eq('id', business.id)
+        .select('*')
+        .single();
+
+    if (error) throw error;
+
+    const { data: revision, error: historyError } = await supabase
+        .from('profile_history')
+        .insert({
+            business_id: business.id,
+            changed_by: userId,
+            source,
+            revert_of: revertOf,
+            previous,
+            changes: values
+        })
+        .select('*')
+        .single();
+
+    if (historyError) throw historyError;
+    return { business: updated, revision };
+};
+
+export const updateProfile = (supabase, business, update, { userId }) =>
+    applyColumns(supabase, business, toColumns(update), { userId, source: 'edit' });
+
+export const listProfileHistory = async (supabase, businessId, limit = 20) => {
+    const { data, error } = await supabase
+        .from('profile_history')
+        .select('*')
+        .eq('business_id', businessId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error) throw error;
+    return data;
+};
+
+// Puts back the values a history entry replaced
+export const revertProfileChange = async (supabase, business, revisionId, { userId }) => {
+    const { data: revision } = await supabase
+        .from('profile_history')
+        .select('*')
+        .eq('id', revisionId)
+        .eq('business_id', business.id)
+        .maybeSingle();
+
+    if (!revision) return { error: 'Change not found', status: 404 };
+
+    const columns = { ...revision.previous };
+    if (columns.schedule && !('working_hours' in columns)) columns.working_hours = describeSchedule(columns.schedule);
+
+    const result = await applyColumns(supabase, business, columns, { userId, source: 'revert', revertOf: revision.id });
+    if (result.unchanged) return { error: 'The profile already has these values', status: 400 };
+    return result;
+};
@@ -0,0 +1,130 @@
+// ===== WORKING HOURS =====
+// Times are 'HH:MM' in the business timezone. Weekly keys are weekdays (0 = Sunday ... 6 = Saturday).
+
+export const AFTER_HOURS_MODES = ['message', 'voicemail', 'hangup'];
+
+export const DEFAULT_SCHEDULE = {
+    timezone: 'UTC',
+    weekly: {
+        1: [{ start: '09:00', end: '17:00' }],
+        2: [{ start: '09:00', end: '17:00' }],
+        3: [{ start: '09:00', end: '17:00' }],
+        4: [{ start: '09:00', end: '17:00' }],
+        5: [{ start: '09:00', end: '17:00' }]
+    },
+    holidays: [], // [{ date: 'YYYY-MM-DD', label }]
+    afterHoursMode: 'message',
+    afterHoursGreeting: ''
+};
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME_PATTERN = /^\d{2}:\d{2}/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const toMinutes = (time) => {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+};
+
+export const toTime = (minutes) => {
+    const h = String(Math.floor(minutes / 60)).padStart(2, '0');
+    const m = String(minutes % 60).padStart(2, '0');
+    return `${h}:${m}`;
+};
+
+// Validate { "1": [{ start, end }] } style weekly ranges
+export const validateWeekly = (weekly) => {
+    for (const [weekday, ranges] of Object.entries(weekly || {})) {
+        if (!/^[0-6]$/.test(weekday)) return `Invalid weekday: ${weekday}`;
+        if (!Array.isArray(ranges)) return `Invalid ranges for weekday ${weekday}`;
+        for (const range of ranges) {
+            if (!TIME_PATTERN.test(range?.start || '') || !TIME_PATTERN.test(range?.end || '')) {
+                return 'Times must use HH:MM format';
+            }
+            if (toMinutes(range.start) >= toMinutes(range.end)) {
+                return 'Each range must end after it starts';
+            }
+        }
+    }
+    return null;
+};
+
+const isValidTimezone = (timezone) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const validateSchedule = (schedule) => {
+    if (!schedule || typeof schedule !== 'object') return 'Schedule is required';
+    if (!isValidTimezone(schedule.timezone)) return `Unknown timezone: ${schedule.timezone}`;
+    if (schedule.afterHoursMode && !AFTER_HOURS_MODES.includes(schedule.afterHoursMode)) {
+        return `After-hours mode must be one of: ${AFTER_HOURS_MODES.join(', ')}`;
+    }
+    if (!Array.isArray(schedule.holidays || [])) return 'Holidays must be a list';
+    for (const holiday of schedule.holidays || []) {
+        if (!DATE_PATTERN.test(holiday?.date || '')) return 'Holiday dates must use YYYY-MM-DD format';
+    }
+    return validateWeekly(schedule.weekly);
+};
+
+// Wall-clock date, weekday and minutes since midnight in the given timezone
+export const getLocalTime = (timezone, now = new Date()) => {
+    const parts = Object.fromEntries(
+        new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone || 'UTC',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            weekday: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+            hourCycle: 'h23'
+        }).formatToParts(now).map(p => [p.type, p.value])
+    );
+
+    return {
+        date: `${parts.year}-${parts.month}-${parts.day}`,
+        weekday: DAY_NAMES.indexOf(parts.weekday),
+        minutes: Number(parts.hour) * 60 + Number(parts.minute)
+    };
+};
+
+export const isOpenAt = (schedule, now = new Date()) => {
+    const { date, weekday, minutes } = getLocalTime(schedule.timezone, now);
+
+    if ((schedule.holidays || []).some(h => h.date === date)) return false;
+
+    const ranges = schedule.weekly?.[weekday] || [];
+    return ranges.some(r => toMinutes(r.start) <= minutes && minutes < toMinutes(r.end));
+};
+
+// Human readable summary for prompts and the legacy working_hours column, e.g. "Mon-Fri 09:00-17:00 (UTC)"
+export const describeSchedule = (schedule) => {
+    const dayText = (weekday) => (schedule.weekly?.[weekday] || []).map(r => `${r.start}-${r.end}`).join(', ');
+
+    const groups = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+        const text = dayText(weekday);
+        if (!text) continue;
+        const last = groups[groups.length - 1];
+        if (last && last.text === text && last.to === weekday - 1) {
+            last.to = weekday;
+        } else {
+            groups.push({ from: weekday, to: weekday, text });
+        }
+    }
+
+    const days = groups.map(g => {
+        const label = g.from === g.to ? DAY_NAMES[g.from] : `${DAY_NAMES[g.from]}-${DAY_NAMES[g.to]}`;
+        return `${label} ${g.text}`;
+    });
+
+    let summary = days.length ? `${days.join('; ')} (${schedule.timezone})` : 'Closed';
+    const holidays = (schedule.holidays || []).map(h => h.label ? `${h.date} (${h.label})` : h.date);
+    if (holidays.length) summary += `; closed on ${holidays.join(', ')}`;
+    return summary;
+};
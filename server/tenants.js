@@ -0,0 +1,168 @@
+import { changePlan } from './billingCycle.js';
+import { withoutSecrets } from './credentials.js';
+import { getEntitlements, getPlanOrFree } from './plans.js';
+import { recordAdminAction } from './payments/admin.js';
+import { getPeriodUsage } from './usage.js';
+
+// ===== TENANT CONSOLE =====
+// Operator view of every business: search, detail (plan, usage, Twilio state, recent calls),
+// manual limit and plan changes, suspension, and a read-only "view as" snapshot for support.
+// Suspended businesses (businesses.suspended_at set) have their calls refused by the voice webhook.
+// Every change, and every "view as", is written to admin_audit_log.
+
+const TENANT_COLUMNS = 'id, business_name, notification_email, subscription_plan, minutes_used, minutes_limit, '
+    + 'renewal_status, current_period_end, twilio_phone_number, twilio_account_sid, suspended_at, suspended_reason, created_at';
+
+export const MAX_MINUTES_LIMIT = 100000;
+
+// Connection state without exposing the (encrypted) credentials themselves
+const toTenantSummary = (business) => ({
+    ...withoutSecrets(business),
+    twilio: {
+        phoneNumber: business.twilio_phone_number || null,
+        accountConnected: !!business.twilio_account_sid
+    }
+});
+
+// PostgREST filter values cannot contain its own syntax characters, so they are dropped from the term
+const toSearchPattern = (search) => {
+    const term = String(search || '').replace(/[,()*%_\\:"]/g, ' ').trim();
+    return term ? `*${term}*` : null;
+};
+
+export const listTenants = async (supabase, { search, limit = 50 } = {}) => {
+    let query = supabase
+        .from('businesses')
+        .select(TENANT_COLUMNS)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    const pattern = toSearchPattern(search);
+    if (pattern) {
+        query = query.or(`business_name.ilike.${pattern},notification_email.ilike.${pattern},twilio_phone_number.ilike.${pattern}`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data.map(toTenantSummary);
+};
+
+const getTenant = async (supabase, businessId) => {
+    const { data } = await supabase
+        .from('businesses')
+        .select('*')
+        .eq('id', businessId)
+        .maybeSingle();
+
+    return data;
+};
+
+export const getTenantDetail = async (supabase, businessId) => {
+    const business = await getTenant(supabase, businessId);
+    if (!business) return null;
+
+    const { data: recentCalls, error } = await supabase
+        .from('call_logs')
+        .select('id, call_sid, from_number, status, duration, recording_url, created_at')
+        .eq('business_id', businessId)
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+    if (error) throw error;
+
+    return {
+        business: { ...toTenantSummary(business), minutes_used: await getPeriodUsage(supabase, businessId) },
+        recentCalls
+    };
+};
+
+// Everything the owner's dashboard shows, for support to look at without touching the owner's account
+export const viewAsTenant = async (supabase, { businessId, actor }) => {
+    const detail = await getTenantDetail(supabase, businessId);
+    if (!detail) return { error: 'Business not found', status: 404 };
+
+    const business = await getTenant(supabase, businessId);
+    await recordAdminAction(supabase, { actor, action: 'impersonate', businessId, details: {} });
+
+    return {
+        config: {
+            ...withoutSecrets(business),
+            minutes_used: detail.business.minutes_used,
+            entitlements: getEntitlements(business)
+        },
+        recentCalls: detail.recentCalls
+    };
+};
+
+export const setMinutesLimit = async (supabase, { businessId, minutesLimit, reason, actor }) => {
+    const limit = Number(minutesLimit);
+    if (!Number.isInteger(limit) || limit < 0 || limit > MAX_MINUTES_LIMIT) {
+        return { error: `Minutes limit must be a whole number between 0 and ${MAX_MINUTES_LIMIT}`, status: 400 };
+    }
+
+    const business = await getTenant(supabase, businessId);
+    if (!business) return { error: 'Business not found', status: 404 };
+
+    const { error } = await supabase
+        .from('businesses')
+        .update({ minutes_limit: limit })
+        .eq('id', businessId);
+
+    if (error) throw error;
+
+    await recordAdminAction(supabase, {
+        actor,
+        action: 'adjust_limit',
+        businessId,
+        details: { from: business.minutes_limit, to: limit, ...(reason?.trim() && { reason: reason.trim() }) }
+    });
+    return { business: { ...business, minutes_limit: limit } };
+};
+
+// Any plan, up or down (e.g. a complimentary upgrade); it lasts until the current period ends
+export const setTenantPlan = async (supabase, { businessId, planId, reason, actor }) => {
+    const plan = getPlanOrFree(planId);
+    if (plan.id !== planId) return { error: `Unknown plan: ${planId}`, status: 400 };
+
+    const business = await getTenant(supabase, businessId);
+    if (!business) return { error: 'Business not found', status: 404 };
+
+    await changePlan(supabase, business, plan);
+
+    await recordAdminAction(supabase, {
+        actor,
+        action: 'change_plan',
+        businessId,
+        details: { from: business.subscription_plan || 'free', to: plan.id, ...(reason?.trim() && { reason: reason.trim() }) }
+    });
+    return { business: { ...business, subscription_plan: plan.id, minutes_limit: plan.minutes } };
+};
+
+export const setSuspended = async (supabase, { businessId, suspended, reason, actor }) => {
+    if (suspended && !reason?.trim()) return { error: 'A reason is required', status: 400 };
+
+    const business = await getTenant(supabase, businessId);
+    if (!business) return { error: 'Business not found', status: 404 };
+    if (!!business.suspended_at === suspended) {
+        return { error: suspended ? 'Business is already suspended' : 'Business is not suspended', status: 400 };
+    }
+
+    const update = suspended
+        ? { suspended_at: new Date().toISOString(), suspended_reason: reason.trim() }
+        : { suspended_at: null, suspended_reason: null };
+
+    const { error } = await supabase
+        .from('businesses')
+        .update(update)
+        .eq('id', businessId);
+
+    if (error) throw error;
+
+    await recordAdminAction(supabase, {
+        actor,
+        action: suspended ? 'suspend' : 'unsuspend',
+        businessId,
+        details: reason?.trim() ? { reason: reason.trim() } : {}
+    });
+    return { business: { ...business, ...update } };
+};
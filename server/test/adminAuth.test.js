@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRoleMiddleware, getAdminRole, hasAdminRole } from '../adminAuth.js';
+import { fakeSupabase } from './fakeSupabase.js';
+
+const users = {
+    'token-admin': { id: 'u-admin', email: 'admin@example.com' },
+    'token-support': { id: 'u-support', email: 'support@example.com', app_metadata: { role: 'support' } },
+    'token-owner': { id: 'u-owner', email: 'owner@example.com', app_metadata: { role: 'owner' } }
+};
+
+const supabase = fakeSupabase();
+supabase.tables.admin_users.push({ user_id: 'u-admin', role: 'admin' });
+
+const requireRole = createRoleMiddleware({
+    getUser: async (req) => users[req.headers.authorization] || null,
+    getClient: () => supabase
+});
+
+// Runs the middleware and reports the status it sent, or 'next' when it let the request through
+const run = async (required, token) => {
+    const req = { headers: { authorization: token } };
+    let outcome;
+    const res = { status: (code) => ({ json: () => { outcome = code; } }) };
+    await requireRole(required)(req, res, () => { outcome = 'next'; });
+    return { outcome, req };
+};
+
+test('roles are ordered support < admin', () => {
+    assert.equal(hasAdminRole('admin', 'support'), true);
+    assert.equal(hasAdminRole('support', 'admin'), false);
+    assert.equal(hasAdminRole('owner', 'support'), false);
+    assert.equal(hasAdminRole(null, 'support'), false);
+});
+
+test('roles come from the JWT claim or the admin_users table', async () => {
+    assert.equal(await getAdminRole(supabase, users['token-admin']), 'admin');
+    assert.equal(await getAdminRole(supabase, users['token-support']), 'support');
+    assert.equal(await getAdminRole(supabase, users['token-owner']), null);
+});
+
+test('middleware rejects anonymous users and users without the role', async () => {
+    assert.equal((await run('support', undefined)).outcome, 401);
+    assert.equal((await run('support', 'token-owner')).outcome, 403);
+    assert.equal((await run('admin', 'token-support')).outcome, 403);
+
+    const { outcome, req } = await run('admin', 'token-admin');
+    assert.equal(outcome, 'next');
+    assert.deepEqual(req.admin, { user: users['token-admin'], role: 'admin' });
+    assert.equal(req.adminActor, 'admin@example.com');
+});
@@ -0,0 +1,343 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, TWILIO_ACCOUNT_SID } from './harness.js';
+
+const OWNER = { id: 'u-owner', email: 'owner@example.com' };
+const ADMIN = { id: 'u-admin', email: 'admin@example.com', app_metadata: { role: 'admin' } };
+const SUPPORT = { id: 'u-support', email: 'support@example.com', app_metadata: { role: 'support' } };
+
+const PHONE_NUMBER = '+15550001111';
+
+// Connecting a Twilio account stores its credentials encrypted
+process.env.CREDENTIALS_ENCRYPTION_KEY = 'test-key';
+
+let harness;
+let ownerToken;
+let adminToken;
+let supportToken;
+
+before(async () => {
+    harness = await startTestServer();
+    ownerToken = harness.signIn(OWNER);
+    adminToken = harness.signIn(ADMIN);
+    supportToken = harness.signIn(SUPPORT);
+});
+
+after(() => harness.close());
+
+const ownBusiness = () => harness.db.tables.businesses.find(business => business.user_id === OWNER.id);
+
+test('demo chat answers from the posted config without signing in', async () => {
+    const { status, body } = await harness.request('/api/chat', {
+        method: 'POST',
+        body: { config: { business_name: 'Demo Dental', services: 'Cleaning' }, message: 'Hello' }
+    });
+
+    assert.equal(status, 200);
+    assert.deepEqual(body, { response: 'You said: Hello' });
+    assert.match(harness.model.requests.at(-1).system, /Demo Dental/);
+
+    assert.equal((await harness.request('/api/chat', { method: 'POST', body: { message: 'Hello' } })).status, 401);
+});
+
+test('setup saves the business once and seeds the knowledge base with FAQs', async () => {
+    const setup = {
+        name: 'Bright Smile Dental',
+        services: 'Check-ups and whitening',
+        tone: 'friendly',
+        greeting: 'Thanks for calling Bright Smile!',
+        faqs: [{ question: 'Is there parking?', answer: 'Yes, behind the building.' }]
+    };
+
+    assert.equal((await harness.request('/api/setup', { method: 'POST', body: setup })).status, 401);
+
+    const { status, body } = await harness.request('/api/setup', { method: 'POST', token: ownerToken, body: setup });
+    assert.equal(status, 200);
+    assert.equal(body.id, ownBusiness().id);
+    assert.equal(harness.db.tables.knowledge_documents[0].title, 'Website FAQ');
+
+    const tone = await harness.request('/api/setup', { method: 'POST', token: ownerToken, body: { ...setup, tone: 'formal' } });
+    assert.equal(tone.status, 400);
+    assert.match(tone.body.error, /Tone must be one of/);
+
+    // Setting up again updates the same row and keeps hours and the notification address it wasn't sent
+    const saved = { ...ownBusiness() };
+    const schedule = { timezone: 'UTC', holidays: [{ date: '2030-12-25', label: 'Christmas' }] };
+    Object.assign(ownBusiness(), { schedule, working_hours: 'Mon-Fri 8 AM - 4 PM', notification_email: 'front-desk@example.com' });
+    await harness.request('/api/setup', { method: 'POST', token: ownerToken, body: { ...setup, faqs: undefined, tone: 'enthusiastic' } });
+    assert.equal(harness.db.tables.businesses.length, 1);
+    assert.deepEqual(ownBusiness().schedule, schedule);
+    assert.equal(ownBusiness().working_hours, 'Mon-Fri 8 AM - 4 PM');
+    assert.equal(ownBusiness().notification_email, 'front-desk@example.com');
+    Object.assign(ownBusiness(), { schedule: saved.schedule, working_hours: saved.working_hours, notification_email: saved.notification_email });
+
+    const statusResponse = await harness.request('/api/status', { token: ownerToken });
+    assert.equal(statusResponse.body.setupCompleted, true);
+    assert.equal(statusResponse.body.config.business_name, 'Bright Smile Dental');
+    assert.equal(statusResponse.body.config.tone, 'enthusiastic');
+});
+
+test('signed-in chat streams the reply and runs tool calls against the business', async () => {
+    const echo = await harness.request('/api/chat', { method: 'POST', token: ownerToken, body: { message: 'Is there parking nearby?' } });
+    assert.equal(echo.body, 'You said: Is there parking nearby?');
+    assert.match(harness.model.requests.at(-1).system, /Yes, behind the building/);
+
+    const args = { caller_name: 'Ann Lee', caller_phone: '+15557654321', reason: 'Quote for whitening', urgency: 'high' };
+    const { body } = await harness.request('/api/chat', { method: 'POST', token: ownerToken, body: { message: `/tool take_message ${JSON.stringify(args)}` } });
+
+    assert.equal(body, 'take_message: {"saved":true}');
+    assert.deepEqual(harness.db.tables.messages.map(message => [message.caller_name, message.source]), [['Ann Lee', 'chat']]);
+    assert.equal(harness.mailer.sent.at(-1).to, OWNER.email);
+    assert.equal(harness.mailer.sent.at(-1).subject, '[URGENT] New message from Ann Lee');
+});
+
+test('owners customise the prompt and preview exactly what each channel gets', async () => {
+    const promptSettings = { instructions: 'Mention free parking.', channelInstructions: { voice: 'Speak slowly.' }, guardrails: ['Never quote prices'] };
+
+    const invalid = await harness.request('/api/prompt-settings', { method: 'PUT', token: ownerToken, body: { instructions: '{{nope}}' } });
+    assert.equal(invalid.status, 400);
+    assert.equal((await harness.request('/api/prompt-settings', { method: 'PUT', token: ownerToken, body: promptSettings })).status, 200);
+
+    const preview = await harness.request('/api/prompt/preview', { method: 'POST', token: ownerToken, body: { channel: 'voice', question: 'Is there parking?' } });
+    assert.equal(preview.status, 200);
+    assert.match(preview.body.prompt, /answering a phone call/);
+    assert.match(preview.body.prompt, /Mention free parking\.\nSpeak slowly\./);
+    assert.match(preview.body.prompt, /Yes, behind the building/);
+    assert.equal(preview.body.variables.business_name, 'Bright Smile Dental');
+
+    // The preview is the prompt chat really sends
+    await harness.request('/api/chat', { method: 'POST', token: ownerToken, body: { message: 'Hi' } });
+    const chatPreview = await harness.request('/api/prompt/preview', { method: 'POST', token: ownerToken, body: { channel: 'chat' } });
+    assert.equal(chatPreview.body.prompt, harness.model.requests.at(-1).system);
+
+    // Unsaved edits can be previewed too
+    const draft = await harness.request('/api/prompt/preview', {
+        method: 'POST',
+        token: ownerToken,
+        body: { channel: 'sms', promptSettings: { guardrails: ['No emoji'] } }
+    });
+    assert.match(draft.body.prompt, /- No emoji/);
+    assert.doesNotMatch(draft.body.prompt, /Mention free parking/);
+});
+
+test('manual payments are submitted by the owner and approved by an admin', async () => {
+    const plans = await harness.request('/api/billing/plans');
+    assert.ok(plans.body.some(plan => plan.id === 'growth'));
+
+    const payment = { plan: 'growth', amount: 79, paymentMethod: 'payoneer', reference: 'PAY-123' };
+    assert.equal((await harness.request('/api/billing/pay', { method: 'POST', token: ownerToken, body: { ...payment, paymentMethod: 'cash' } })).status, 400);
+    assert.equal((await harness.request('/api/billing/pay', { method: 'POST', token: ownerToken, body: payment })).status, 200);
+
+    const history = await harness.request('/api/billing/history', { token: ownerToken });
+    assert.deepEqual(history.body.payments.map(p => [p.plan, p.status]), [['growth', 'pending']]);
+    const requestId = history.body.payments[0].id;
+
+    // Owners and support staff cannot approve
+    assert.equal((await harness.request('/api/admin/payments', { token: ownerToken })).status, 403);
+    assert.equal((await harness.request('/api/admin/payments', { token: supportToken })).status, 200);
+    assert.equal((await harness.request('/api/admin/approve', { method: 'POST', token: supportToken, body: { requestId } })).status, 403);
+
+    const approved = await harness.request('/api/admin/approve', { method: 'POST', token: adminToken, body: { requestId } });
+    assert.equal(approved.status, 200);
+    assert.equal(approved.body.message, 'Approved and plan activated (INV-000001)');
+    assert.equal(ownBusiness().subscription_plan, 'growth');
+    assert.deepEqual(harness.db.tables.admin_audit_log.map(entry => [entry.actor, entry.action]), [[ADMIN.email, 'approve']]);
+
+    const again = await harness.request('/api/admin/approve', { method: 'POST', token: adminToken, body: { requestId } });
+    assert.deepEqual([again.status, again.body.error], [400, 'Only pending requests can be approved (this one is approved)']);
+
+    // Another tenant's invoice is never listed or downloadable
+    harness.db.tables.invoices.push({ id: 'inv-other', business_id: 'biz-other', invoice_number: 99, issued_at: new Date().toISOString() });
+    const invoices = (await harness.request('/api/billing/history', { token: ownerToken })).body.invoices;
+    assert.deepEqual(invoices.map(invoice => invoice.number), ['INV-000001']);
+    assert.equal((await harness.request('/api/billing/invoices/inv-other/pdf', { token: ownerToken })).status, 404);
+    harness.db.tables.invoices.pop();
+});
+
+test('rejections need a reason', async () => {
+    await harness.request('/api/billing/pay', {
+        method: 'POST',
+        token: ownerToken,
+        body: { plan: 'pro', amount: 1, paymentMethod: 'nayapay', reference: 'NP-9' }
+    });
+    const request = harness.db.tables.payment_requests.find(request => request.payment_reference === 'NP-9');
+    const requestId = request.id;
+
+    // The client's amount is ignored; the request is for the plan price
+    assert.equal(request.amount, 149);
+
+    assert.equal((await harness.request('/api/admin/reject', { method: 'POST', token: adminToken, body: { requestId, reason: '' } })).status, 400);
+    assert.equal((await harness.request('/api/admin/reject', { method: 'POST', token: adminToken, body: { requestId, reason: 'Not received' } })).status, 200);
+    assert.equal(harness.db.tables.payment_requests.find(request => request.id === requestId).status, 'rejected');
+});
+
+test('a test-mode card checkout goes through the signed payment webhook', async () => {
+    const checkout = await harness.request('/api/billing/checkout', { method: 'POST', token: ownerToken, body: { plan: 'starter' } });
+    const sessionId = checkout.body.url.split('/').pop();
+
+    const response = await fetch(`${harness.baseUrl}/api/billing/mock-checkout/${sessionId}`, {
+        method: 'POST',
+        redirect: 'manual',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'outcome=paid'
+    });
+
+    assert.equal(response.status, 302);
+    assert.equal(response.headers.get('location'), 'https://app.test.example/?checkout=success');
+    assert.equal(ownBusiness().subscription_plan, 'starter');
+    assert.equal(harness.db.tables.payment_requests.find(request => request.provider_session_id === sessionId).status, 'approved');
+});
+
+test('Twilio webhooks must be signed', async () => {
+    const params = { CallSid: 'CA-unsigned', From: '+15559990000', To: PHONE_NUMBER, AccountSid: TWILIO_ACCOUNT_SID };
+
+    assert.equal((await harness.twilioWebhook('/webhooks/twilio/voice', params, { authToken: null })).status, 403);
+    assert.equal((await harness.twilioWebhook('/webhooks/twilio/voice', params, { authToken: 'someone-else' })).status, 403);
+    assert.equal((await harness.twilioWebhook('/webhooks/twilio/status', { ...params, CallStatus: 'completed' }, { authToken: 'x' })).status, 403);
+    assert.equal(harness.db.tables.call_logs.length, 0);
+});
+
+test('a call is greeted, answered by the AI and billed when it ends', async () => {
+    const business = ownBusiness();
+    Object.assign(business, { twilio_phone_number: PHONE_NUMBER, subscription_plan: 'free', minutes_limit: 10, minutes_used: 0, current_period_start: null });
+    const caller = { From: '+15559990000', To: PHONE_NUMBER, AccountSid: TWILIO_ACCOUNT_SID };
+
+    const voice = await harness.twilioWebhook('/webhooks/twilio/voice', { ...caller, CallSid: 'CA1' });
+    assert.equal(voice.status, 200);
+    assert.match(voice.body, /Hello, you've reached Bright Smile Dental/);
+    assert.match(voice.body, new RegExp(`action="/webhooks/twilio/gather\\?business_id=${business.id}&amp;call_sid=CA1"`));
+    assert.equal(harness.db.tables.call_logs[0].status, 'ringing');
+
+    const gatherPath = `/webhooks/twilio/gather?business_id=${business.id}&call_sid=CA1`;
+    const gather = await harness.twilioWebhook(gatherPath, { ...caller, CallSid: 'CA1', SpeechResult: 'Are you open on Saturday?' });
+    assert.match(gather.body, /<Say voice="Polly.Joanna">You said: Are you open on Saturday\?<\/Say>/);
+    assert.match(gather.body, /<Gather /);
+    assert.match(harness.model.requests.at(-1).system, /answering a phone call/);
+
+    const voicemail = await harness.twilioWebhook(gatherPath, { ...caller, CallSid: 'CA1', SpeechResult: '/tool leave_voicemail' });
+    assert.match(voicemail.body, /<Record /);
+    assert.deepEqual(harness.db.tables.call_logs[0].transcript.map(turn => turn.role), ['user', 'assistant', 'user', 'assistant']);
+
+    // The no-input redirect comes back to the voice webhook; the call keeps its one log row and transcript
+    assert.equal((await harness.twilioWebhook('/webhooks/twilio/voice', { ...caller, CallSid: 'CA1' })).status, 200);
+    assert.equal(harness.db.tables.call_logs.length, 1);
+    assert.equal(harness.db.tables.call_logs[0].transcript.length, 4);
+
+    // 5 min 10 s is billed as 6 minutes, once, and crosses the 50% alert
+    const ended = { ...caller, CallSid: 'CA1', CallStatus: 'completed', CallDuration: '310' };
+    assert.equal((await harness.twilioWebhook('/webhooks/twilio/status', ended)).status, 200);
+    assert.equal((await harness.twilioWebhook('/webhooks/twilio/status', ended)).status, 200);
+
+    assert.equal(business.minutes_used, 6);
+    assert.deepEqual(harness.db.tables.usage_ledger.map(entry => [entry.call_sid, entry.minutes]), [['CA1', 6]]);
+    assert.equal(harness.db.tables.call_logs[0].status, 'completed');
+    assert.equal(harness.mailer.sent.at(-1).subject, 'Bright Smile Dental has used 50% of its call minutes');
+});
+
+test('calls over the limit go to voicemail and unknown numbers are turned away', async () => {
+    Object.assign(ownBusiness(), { minutes_used: 10, minutes_limit: 10 });
+
+    const limited = await harness.twilioWebhook('/webhooks/twilio/voice', { CallSid: 'CA2', From: '+15559990000', To: PHONE_NUMBER, AccountSid: TWILIO_ACCOUNT_SID });
+    assert.match(limited.body, /No one can take your call right now/);
+    assert.match(limited.body, /<Record /);
+
+    const unknown = await harness.twilioWebhook('/webhooks/twilio/voice', { CallSid: 'CA3', From: '+15559990000', To: '+15550000000', AccountSid: TWILIO_ACCOUNT_SID });
+    assert.match(unknown.body, /this number is not configured/);
+});
+
+test('the tenant console lists, inspects and suspends businesses', async () => {
+    assert.equal((await harness.request('/api/admin/audit-log', { token: adminToken })).status, 200);
+    assert.equal((await harness.request('/api/admin/tenants', { token: ownerToken })).status, 403);
+
+    const list = await harness.request('/api/admin/tenants?search=bright', { token: supportToken });
+    assert.equal(list.status, 200);
+    assert.deepEqual(list.body.map(tenant => tenant.business_name), ['Bright Smile Dental']);
+    const businessId = list.body[0].id;
+
+    const viewAs = await harness.request(`/api/admin/tenants/${businessId}/view-as`, { method: 'POST', token: supportToken });
+    assert.equal(viewAs.status, 200);
+    assert.equal(viewAs.body.config.business_name, 'Bright Smile Dental');
+    assert.equal(harness.db.tables.admin_audit_log.at(-1).action, 'impersonate');
+
+    // Only admins can suspend, and a suspended business has its calls refused
+    const suspend = { suspended: true, reason: 'Chargeback' };
+    assert.equal((await harness.request(`/api/admin/tenants/${businessId}/suspend`, { method: 'POST', token: supportToken, body: suspend })).status, 403);
+    const suspended = await harness.request(`/api/admin/tenants/${businessId}/suspend`, { method: 'POST', token: adminToken, body: suspend });
+    assert.deepEqual([suspended.status, suspended.body.message], [200, 'Business suspended']);
+
+    const refused = await harness.twilioWebhook('/webhooks/twilio/voice', { CallSid: 'CA4', From: '+15559990000', To: PHONE_NUMBER, AccountSid: TWILIO_ACCOUNT_SID });
+    assert.match(refused.body, /temporarily unavailable/);
+
+    const reactivated = await harness.request(`/api/admin/tenants/${businessId}/suspend`, { method: 'POST', token: adminToken, body: { suspended: false } });
+    assert.deepEqual([reactivated.status, reactivated.body.message], [200, 'Business reactivated']);
+    assert.deepEqual(harness.db.tables.admin_audit_log.slice(-2).map(entry => entry.action), ['suspend', 'unsuspend']);
+});
+
+test('a tenant with its own Twilio account cannot sign webhooks for another business', async () => {
+    const otherSid = `AC${'1'.repeat(32)}`;
+    harness.db.tables.businesses.push({ id: 'biz-other', user_id: 'u-other', business_name: 'Other Co', twilio_account_sid: otherSid, twilio_auth_token: 'other-token' });
+    const forged = { CallSid: 'CA1', From: '+15559990000', To: PHONE_NUMBER, AccountSid: otherSid };
+    const minutesBefore = ownBusiness().minutes_used;
+
+    const status = await harness.twilioWebhook('/webhooks/twilio/status', { ...forged, CallStatus: 'completed', CallDuration: '6000' }, { authToken: 'other-token' });
+    assert.equal(status.status, 403);
+    assert.equal(ownBusiness().minutes_used, minutesBefore);
+
+    assert.equal((await harness.twilioWebhook('/webhooks/twilio/voice', { ...forged, CallSid: 'CA5' }, { authToken: 'other-token' })).status, 403);
+    assert.equal((await harness.twilioWebhook(`/webhooks/twilio/gather?business_id=${ownBusiness().id}&call_sid=CA1`, forged, { authToken: 'other-token' })).status, 403);
+    assert.equal((await harness.twilioWebhook('/webhooks/twilio/recording?call_sid=CA1', { ...forged, RecordingSid: 'RE1' }, { authToken: 'other-token' })).status, 403);
+    assert.equal(harness.db.tables.call_logs[0].recording_sid, undefined);
+});
+
+test('owners connect their own Twilio account, switch numbers and play recordings', async () => {
+    const ownSid = `AC${'2'.repeat(32)}`;
+    harness.twilioAccounts[ownSid] = {
+        authToken: 'own-token',
+        numbers: {
+            PN1: { phoneNumber: '+15551112222', voiceUrl: 'https://old.example/voice' },
+            PN2: { phoneNumber: '+15553334444' }
+        }
+    };
+    const numbers = harness.twilioAccounts[ownSid].numbers;
+
+    const wrongToken = await harness.request('/api/twilio/numbers', { method: 'POST', token: ownerToken, body: { accountSid: ownSid, authToken: 'nope' } });
+    assert.equal(wrongToken.status, 400);
+    const preview = await harness.request('/api/twilio/numbers', { method: 'POST', token: ownerToken, body: { accountSid: ownSid, authToken: 'own-token' } });
+    assert.deepEqual(preview.body.numbers.map(number => number.phoneNumber), ['+15551112222', '+15553334444']);
+
+    const connect = { accountSid: ownSid, authToken: 'own-token', phoneNumber: '+15551112222' };
+    const missing = await harness.request('/api/twilio/connect', { method: 'POST', token: ownerToken, body: { ...connect, phoneNumber: '+15550000000' } });
+    assert.equal(missing.status, 400);
+
+    const connected = await harness.request('/api/twilio/connect', { method: 'POST', token: ownerToken, body: connect });
+    assert.equal(connected.status, 200);
+    assert.equal(connected.body.business.twilio_auth_token, undefined);
+    assert.equal(numbers.PN1.voiceUrl, 'https://test.example/webhooks/twilio/voice');
+    assert.equal(ownBusiness().twilio_phone_number, '+15551112222');
+    assert.match(ownBusiness().twilio_auth_token, /^enc:v1:/);
+
+    // Calls to the new number are signed by the owner's account
+    const call = await harness.twilioWebhook('/webhooks/twilio/voice', { CallSid: 'CA6', From: '+15559990000', To: '+15551112222', AccountSid: ownSid }, { authToken: 'own-token' });
+    assert.equal(call.status, 200);
+    assert.match(call.body, /Thanks for calling Bright Smile Dental/);
+
+    assert.equal((await harness.request('/api/twilio/switch', { method: 'POST', token: ownerToken, body: { phoneNumberSid: 'PN9' } })).status, 404);
+    const switched = await harness.request('/api/twilio/switch', { method: 'POST', token: ownerToken, body: { phoneNumberSid: 'PN2' } });
+    assert.deepEqual(switched.body, { success: true, phoneNumber: '+15553334444' });
+    assert.equal(numbers.PN1.voiceUrl, 'https://old.example/voice');
+    assert.equal(numbers.PN2.voiceUrl, 'https://test.example/webhooks/twilio/voice');
+
+    // Recordings are fetched with the business's own credentials
+    const callLog = harness.db.tables.call_logs.find(log => log.call_sid === 'CA6');
+    callLog.recording_url = 'https://api.twilio.com/Recordings/RE6';
+    harness.recordings['https://api.twilio.com/Recordings/RE6.mp3'] = 'mp3-bytes';
+    const recording = await harness.request(`/api/calls/${callLog.id}/recording`, { token: ownerToken });
+    assert.equal(recording.status, 200);
+    assert.equal(recording.headers.get('content-type'), 'audio/mpeg');
+    assert.equal(harness.fetchedRecordings.at(-1).headers.Authorization, `Basic ${Buffer.from(`${ownSid}:own-token`).toString('base64')}`);
+
+    const disconnected = await harness.request('/api/twilio/disconnect', { method: 'POST', token: ownerToken });
+    assert.deepEqual(disconnected.body, { success: true, restored: true });
+    assert.equal(numbers.PN2.voiceUrl, '');
+    assert.equal(ownBusiness().twilio_account_sid, null);
+});
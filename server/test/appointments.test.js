@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bookAppointment, listOpenSlots } from '../appointments.js';
+import { fakeSupabase } from './fakeSupabase.js';
+
+// Wednesday 2030-01-16, 10:15 in New York
+const NOW = new Date('2030-01-16T15:15:00Z');
+
+const business = {
+    id: 'biz-1',
+    user_id: 'user-1',
+    schedule: { timezone: 'America/New_York', holidays: [{ date: '2030-01-17', label: 'Staff training' }] }
+};
+
+const book = (request) =>
+    bookAppointment(fakeSupabase(), business, { customerName: 'Ann Lee', ...request }, NOW);
+
+test('slots earlier today in the business timezone cannot be booked', async () => {
+    assert.equal((await book({ date: '2030-01-16', time: '10:00' })).status, 400);
+    assert.equal((await book({ date: '2030-01-15', time: '16:00' })).status, 400);
+    assert.equal((await book({ date: '2030-01-16', time: '10:30' })).appointment.start_time, '10:30');
+
+    const { slots } = await listOpenSlots(fakeSupabase(), business, '2030-01-16', NOW);
+    assert.equal(slots[0], '10:30');
+});
+
+test('holidays have no slots and cannot be booked', async () => {
+    const result = await book({ date: '2030-01-17', time: '11:00' });
+    assert.equal(result.status, 409);
+    assert.equal(result.error, 'The business is closed on 2030-01-17');
+
+    assert.deepEqual((await listOpenSlots(fakeSupabase(), business, '2030-01-17', NOW)).slots, []);
+    assert.equal((await listOpenSlots(fakeSupabase(), business, '2030-01-18', NOW)).slots.length, 16);
+});
+
+test('times must be real hours and minutes', async () => {
+    for (const time of ['99:99', '24:00', '09:60', '9:00']) {
+        assert.equal((await book({ date: '2030-01-18', time })).status, 400, time);
+    }
+    assert.equal((await book({ date: '2030-01-18', time: '09:00:00' })).appointment.start_time, '09:00');
+});
@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addMonths, rollOverBusiness, rollOverExpiredPeriods, startPlanPeriod } from '../billingCycle.js';
+import { FUNCTIONS } from './fakeFunctions.js';
+import { fakeSupabase } from './fakeSupabase.js';
+
+const FREE_MINUTES = 10;
+const uniqueKeys = { usage_periods: ['business_id', 'period_start'] };
+
+test('addMonths clamps to the end of shorter months', () => {
+    assert.equal(addMonths(new Date('2026-01-31T00:00:00Z'), 1).toISOString(), '2026-02-28T00:00:00.000Z');
+    assert.equal(addMonths(new Date('2026-03-15T10:00:00Z'), 1).toISOString(), '2026-04-15T10:00:00.000Z');
+    assert.equal(addMonths(new Date('2026-12-01T00:00:00Z'), 1).toISOString(), '2027-01-01T00:00:00.000Z');
+});
+
+test('an ended free period is archived and the counter reset', async () => {
+    const supabase = fakeSupabase(uniqueKeys, {}, FUNCTIONS);
+    supabase.tables.businesses.push({
+        id: 'biz-1', subscription_plan: 'free', minutes_used: 7, minutes_limit: 10,
+        current_period_start: '2026-09-01T00:00:00.000Z', current_period_end: '2026-10-01T00:00:00.000Z', renewal_status: 'active'
+    });
+
+    const summary = await rollOverExpiredPeriods(supabase, { now: new Date('2026-10-02T00:00:00Z'), freeMinutes: FREE_MINUTES });
+
+    assert.equal(summary.rolledOver, 1);
+    const [business] = supabase.tables.businesses;
+    assert.equal(business.minutes_used, 0);
+    assert.equal(business.current_period_start, '2026-10-01T00:00:00.000Z');
+    assert.equal(business.current_period_end, '2026-11-01T00:00:00.000Z');
+    assert.deepEqual(supabase.tables.usage_periods.map(p => [p.period_start, p.minutes_used]), [['2026-09-01T00:00:00.000Z', 7]]);
+});
+
+test('an unpaid plan period downgrades to free and skips missed months', async () => {
+    const supabase = fakeSupabase(uniqueKeys, {}, FUNCTIONS);
+    supabase.tables.businesses.push({
+        id: 'biz-1', subscription_plan: 'pro', minutes_used: 900, minutes_limit: 2000,
+        current_period_start: '2026-06-10T00:00:00.000Z', current_period_end: '2026-07-10T00:00:00.000Z', renewal_status: 'active'
+    });
+
+    await rollOverExpiredPeriods(supabase, { now: new Date('2026-10-18T00:00:00Z'), freeMinutes: FREE_MINUTES });
+
+    const [business] = supabase.tables.businesses;
+    assert.equal(business.subscription_plan, 'free');
+    assert.equal(business.minutes_limit, FREE_MINUTES);
+    assert.equal(business.renewal_status, 'expired');
+    assert.equal(business.current_period_start, '2026-10-10T00:00:00.000Z');
+    assert.equal(business.current_period_end, '2026-11-10T00:00:00.000Z');
+    assert.equal(supabase.tables.usage_periods[0].plan, 'pro');
+});
+
+test('rerunning the rollover does nothing once periods are current', async () => {
+    const supabase = fakeSupabase(uniqueKeys, {}, FUNCTIONS);
+    supabase.tables.businesses.push({ id: 'biz-1', subscription_plan: 'free', minutes_used: 3, current_period_end: null });
+    const now = new Date('2026-10-18T00:00:00Z');
+
+    const first = await rollOverExpiredPeriods(supabase, { now, freeMinutes: FREE_MINUTES });
+    const second = await rollOverExpiredPeriods(supabase, { now, freeMinutes: FREE_MINUTES });
+
+    assert.deepEqual(first, { initialised: 1, rolledOver: 0, failed: 0 });
+    assert.deepEqual(second, { initialised: 0, rolledOver: 0, failed: 0 });
+    assert.equal(supabase.tables.businesses[0].minutes_used, 3);
+});
+
+test('paying again for the active plan extends the period without resetting usage', async () => {
+    const supabase = fakeSupabase(uniqueKeys, {}, FUNCTIONS);
+    const business = {
+        id: 'biz-1', subscription_plan: 'growth', minutes_used: 120, minutes_limit: 500,
+        current_period_start: '2026-10-01T00:00:00.000Z', current_period_end: '2026-11-01T00:00:00.000Z', renewal_status: 'active'
+    };
+    supabase.tables.businesses.push({ ...business });
+
+    await startPlanPeriod(supabase, business, { id: 'growth', minutes: 500 }, new Date('2026-10-18T00:00:00Z'));
+
+    assert.equal(supabase.tables.businesses[0].current_period_end, '2026-12-01T00:00:00.000Z');
+    assert.equal(supabase.tables.businesses[0].minutes_used, 120);
+});
+
+test('switching plans archives the current period and starts a new one', async () => {
+    const supabase = fakeSupabase(uniqueKeys, {}, FUNCTIONS);
+    const business = {
+        id: 'biz-1', subscription_plan: 'starter', minutes_used: 80, minutes_limit: 100,
+        current_period_start: '2026-10-01T00:00:00.000Z', current_period_end: '2026-11-01T00:00:00.000Z', renewal_status: 'active'
+    };
+    supabase.tables.businesses.push({ ...business });
+    const now = new Date('2026-10-18T00:00:00Z');
+
+    await startPlanPeriod(supabase, business, { id: 'pro', minutes: 2000 }, now);
+
+    const [updated] = supabase.tables.businesses;
+    assert.equal(updated.subscription_plan, 'pro');
+    assert.equal(updated.minutes_used, 0);
+    assert.equal(updated.current_period_start, now.toISOString());
+    assert.equal(supabase.tables.usage_periods[0].minutes_used, 80);
+});
+
+test('minutes recorded after the period was read are archived, not lost', async () => {
+    const supabase = fakeSupabase(uniqueKeys, {}, FUNCTIONS);
+    const business = {
+        id: 'biz-1', subscription_plan: 'free', minutes_used: 7, minutes_limit: 10,
+        current_period_start: '2026-09-01T00:00:00.000Z', current_period_end: '2026-10-01T00:00:00.000Z', renewal_status: 'active'
+    };
+    supabase.tables.businesses.push({ ...business });
+
+    // A call ends between the rollover job's read and its reset
+    await supabase.rpc('record_call_usage', { p_business_id: 'biz-1', p_call_sid: 'CA1', p_duration_seconds: 90 });
+    assert.equal(await rollOverBusiness(supabase, business, { now: new Date('2026-10-02T00:00:00Z'), freeMinutes: FREE_MINUTES }), true);
+
+    assert.deepEqual(supabase.tables.usage_periods.map(p => p.minutes_used), [9]);
+    assert.equal(supabase.tables.businesses[0].minutes_used, 0);
+});
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decryptSecret, encryptSecret, hashForLookup, isEncrypted, withoutSecrets } from '../credentials.js';
+
+process.env.CREDENTIALS_ENCRYPTION_KEY = 'test-key';
+
+test('encrypts and decrypts a secret', () => {
+    const encrypted = encryptSecret('auth-token-123');
+    assert.ok(isEncrypted(encrypted));
+    assert.ok(!encrypted.includes('auth-token-123'));
+    assert.equal(decryptSecret(encrypted), 'auth-token-123');
+});
+
+test('uses a fresh IV for every encryption', () => {
+    assert.notEqual(encryptSecret('same'), encryptSecret('same'));
+});
+
+test('passes legacy plaintext values through', () => {
+    assert.equal(decryptSecret('plain-token'), 'plain-token');
+    assert.equal(decryptSecret(null), null);
+});
+
+test('rejects a tampered ciphertext', () => {
+    const encrypted = encryptSecret('auth-token-123');
+    const tampered = encrypted.slice(0, -4) + (encrypted.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+    assert.throws(() => decryptSecret(tampered));
+});
+
+test('fails to decrypt with a different key', () => {
+    const encrypted = encryptSecret('auth-token-123');
+    process.env.CREDENTIALS_ENCRYPTION_KEY = 'other-key';
+    try {
+        assert.throws(() => decryptSecret(encrypted));
+    } finally {
+        process.env.CREDENTIALS_ENCRYPTION_KEY = 'test-key';
+    }
+});
+
+test('lookup hash is deterministic', () => {
+    const sid = 'AC00000000000000000000000000000001';
+    assert.equal(hashForLookup(sid), hashForLookup(sid));
+    assert.notEqual(hashForLookup(sid), sid);
+});
+
+test('strips credential columns from a business row', () => {
+    const safe = withoutSecrets({ id: 1, business_name: 'Acme', twilio_account_sid: 'x', twilio_auth_token: 'y', twilio_account_sid_hash: 'z' });
+    assert.deepEqual(safe, { id: 1, business_name: 'Acme' });
+});
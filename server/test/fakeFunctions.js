@@ -0,0 +1,71 @@
+import { billableMinutes } from '../usage.js';
+
+const dot = (a, b) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+// Same contracts as the Postgres functions in setup_billing_cycles.sql, setup_usage_ledger.sql and setup_knowledge.sql,
+// for fakeSupabase(uniqueKeys, defaults, FUNCTIONS). Each runs synchronously, so like the row lock in Postgres
+// nothing else can touch the tables halfway through.
+export const FUNCTIONS = {
+    start_usage_period: (tables, args) => {
+        const business = tables.businesses.find(b => b.id === args.p_business_id);
+        if (!business) return false;
+        if (args.p_expected_period_end && new Date(business.current_period_end).getTime() !== new Date(args.p_expected_period_end).getTime()) {
+            return false;
+        }
+
+        const archived = tables.usage_periods.some(p => p.business_id === business.id && p.period_start === business.current_period_start);
+        if (business.current_period_start && !archived) {
+            tables.usage_periods.push({
+                business_id: business.id,
+                plan: business.subscription_plan || 'free',
+                period_start: business.current_period_start,
+                period_end: args.p_archive_end,
+                minutes_used: business.minutes_used || 0,
+                minutes_limit: business.minutes_limit
+            });
+        }
+
+        Object.assign(business, {
+            minutes_used: 0,
+            current_period_start: args.p_period_start,
+            current_period_end: args.p_period_end,
+            subscription_plan: args.p_plan ?? business.subscription_plan,
+            minutes_limit: args.p_minutes_limit ?? business.minutes_limit,
+            renewal_status: args.p_renewal_status ?? business.renewal_status
+        });
+        return true;
+    },
+    record_call_usage: (tables, { p_business_id, p_call_sid, p_duration_seconds }) => {
+        if (tables.usage_ledger.some(entry => entry.call_sid === p_call_sid)) return null;
+
+        const minutes = billableMinutes(p_duration_seconds);
+        tables.usage_ledger.push({
+            business_id: p_business_id,
+            call_sid: p_call_sid,
+            duration_seconds: p_duration_seconds,
+            minutes,
+            recorded_at: new Date().toISOString()
+        });
+        const business = tables.businesses.find(b => b.id === p_business_id);
+        business.minutes_used = (business.minutes_used || 0) + minutes;
+        return business.minutes_used;
+    },
+    business_period_usage: (tables, { p_business_id }) => {
+        const business = tables.businesses.find(b => b.id === p_business_id);
+        return tables.usage_ledger
+            .filter(entry => entry.business_id === p_business_id)
+            .filter(entry => !business?.current_period_start || entry.recorded_at >= business.current_period_start)
+            .reduce((sum, entry) => sum + entry.minutes, 0);
+    },
+    match_knowledge_chunks: (tables, { p_business_id, p_embedding, p_model, p_limit }) => tables.knowledge_chunks
+        .filter(chunk => chunk.business_id === p_business_id && chunk.embedding_model === p_model)
+        .map(chunk => ({
+            id: chunk.id,
+            document_id: chunk.document_id,
+            title: tables.knowledge_documents.find(d => d.id === chunk.document_id)?.title,
+            content: chunk.content,
+            similarity: dot(chunk.embedding, p_embedding)
+        }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, p_limit)
+};
@@ -0,0 +1,111 @@
+// SQL LIKE pattern ('%' wildcards), case-insensitive
+const likeMatcher = (pattern) => {
+    const regex = new RegExp(`^${pattern.split('%').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+    return (value) => value != null && regex.test(String(value));
+};
+
+// In-memory stand-in for the subset of the supabase-js query builder used by server modules.
+// Supports insert / upsert / select / update / delete with eq, is, lte, gte, ilike and or (eq / ilike conditions)
+// filters, order / limit, single() / maybeSingle(), and unique keys per table so duplicate inserts fail with
+// Postgres code 23505. upsert updates the row matching the table's unique key (or onConflict columns) instead,
+// or leaves it alone with ignoreDuplicates.
+// defaults[table]() supplies column defaults for inserted rows (e.g. identity columns).
+// functions[name](tables, args) answers rpc(name, args) calls.
+export const fakeSupabase = (uniqueKeys = {}, defaults = {}, functions = {}) => {
+    const tables = {};
+    const table = (name) => (tables[name] ||= []);
+
+    const from = (name) => {
+        let action = 'select';
+        let values = null;
+        let conflictColumns = uniqueKeys[name];
+        let ignoreConflicts = false;
+        let returning = false;
+        const filters = [];
+        let sort = null;
+        let max = Infinity;
+        const rows = () => {
+            const matched = table(name).filter(row => filters.every(match => match(row)));
+            if (sort) {
+                const direction = sort.ascending ? 1 : -1;
+                matched.sort((a, b) => (a[sort.column] > b[sort.column] ? direction : a[sort.column] < b[sort.column] ? -direction : 0));
+            }
+            return matched.slice(0, max);
+        };
+
+        const run = () => {
+            if (action === 'insert' || action === 'upsert') {
+                const key = uniqueKeys[name];
+                const inserted = [];
+                for (const value of [values].flat()) {
+                    const conflict = action === 'upsert' && conflictColumns
+                        && table(name).find(existing => conflictColumns.every(column => existing[column] === value[column]));
+                    if (conflict && ignoreConflicts) continue;
+                    if (conflict) {
+                        Object.assign(conflict, value);
+                        inserted.push({ ...conflict });
+                        continue;
+                    }
+                    if (key && table(name).some(existing => key.every(column => existing[column] === value[column]))) {
+                        return Promise.resolve({ data: null, error: { code: '23505' } });
+                    }
+                    const row = { ...defaults[name]?.(), ...value };
+                    table(name).push(row);
+                    inserted.push({ ...row });
+                }
+                return Promise.resolve({ data: inserted, error: null });
+            }
+
+            const matched = rows();
+            if (action === 'update') matched.forEach(row => Object.assign(row, values));
+            if (action === 'delete') tables[name] = table(name).filter(row => !matched.includes(row));
+            // Copies, like rows decoded from a real response
+            return Promise.resolve({ data: matched.map(row => ({ ...row })), error: null });
+        };
+
+        const builder = {
+            insert: (row) => { action = 'insert'; values = row; return builder; },
+            upsert: (row, { onConflict, ignoreDuplicates = false } = {}) => {
+                action = 'upsert';
+                values = row;
+                ignoreConflicts = ignoreDuplicates;
+                if (onConflict) conflictColumns = onConflict.split(',').map(column => column.trim());
+                return builder;
+            },
+            select: () => { returning = true; return builder; },
+            update: (update) => { action = 'update'; values = update; return builder; },
+            delete: () => { action = 'delete'; return builder; },
+            eq: (column, value) => { filters.push(row => row[column] === value); return builder; },
+            is: (column, value) => { filters.push(row => (row[column] ?? null) === value); return builder; },
+            lte: (column, value) => { filters.push(row => row[column] != null && row[column] <= value); return builder; },
+            gte: (column, value) => { filters.push(row => row[column] != null && row[column] >= value); return builder; },
+            ilike: (column, pattern) => { filters.push(row => likeMatcher(pattern)(row[column])); return builder; },
+            // 'a.eq.1,b.ilike.*x*' -> rows matching any condition (PostgREST writes the wildcard as *)
+            or: (conditions) => {
+                const matchers = conditions.split(',').map(condition => {
+                    const [column, operator, ...rest] = condition.split('.');
+                    const value = rest.join('.');
+                    return operator === 'ilike' ? (row) => likeMatcher(value.replaceAll('*', '%'))(row[column]) : (row) => String(row[column]) === value;
+                });
+                filters.push(row => matchers.some(match => match(row)));
+                return builder;
+            },
+            order: (column, { ascending = true } = {}) => { sort = { column, ascending }; return builder; },
+            limit: (count) => { max = count; return builder; },
+            single: () => run().then(({ data, error }) => (
+                error ? { data: null, error } : { data: data?.[0] || null, error: data?.[0] ? null : { code: 'PGRST116' } }
+            )),
+            maybeSingle: () => run().then(({ data, error }) => ({ data: error ? null : data?.[0] || null, error })),
+            then: (resolve, reject) => run().then(({ data, error }) => ({
+                data: returning || action === 'select' ? data : null,
+                error
+            })).then(resolve, reject)
+        };
+        return builder;
+    };
+
+    const tableView = new Proxy(tables, { get: (target, name) => table(name) });
+    const rpc = async (name, args) => ({ data: await functions[name](tableView, args), error: null });
+
+    return { tables: tableView, from, rpc };
+};
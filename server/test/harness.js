@@ -0,0 +1,180 @@
+import twilio from 'twilio';
+import { createApp } from '../app.js';
+import { createLocalEmbedder } from '../knowledge/embeddings.js';
+import { createLLM } from '../llm/index.js';
+import { createMockProvider } from '../llm/mock.js';
+import { createPaymentProviders } from '../payments/index.js';
+import { createTwilioClientFactory } from '../twilioNumbers.js';
+import { FUNCTIONS } from './fakeFunctions.js';
+import { fakeSupabase } from './fakeSupabase.js';
+
+// Runs the whole app offline: Supabase is one in-memory store (no RLS, every token sees everything),
+// the AI is the deterministic mock model, email is captured, Twilio accounts live in memory and
+// Twilio webhooks are signed locally.
+
+export const PUBLIC_BASE_URL = 'https://test.example';
+export const TWILIO_ACCOUNT_SID = `AC${'0'.repeat(32)}`;
+export const TWILIO_AUTH_TOKEN = 'test-twilio-token';
+
+const UNIQUE_KEYS = {
+    businesses: ['user_id'],
+    call_logs: ['call_sid'],
+    invoices: ['payment_request_id'],
+    payment_events: ['provider', 'event_id'],
+    usage_alerts: ['business_id', 'threshold'],
+    usage_periods: ['business_id', 'period_start']
+};
+
+// Email that is kept instead of sent
+const captureMailer = () => {
+    const sent = [];
+    return {
+        sender: 'noreply@test.example',
+        configured: true,
+        sent,
+        sendEmail: async (email) => {
+            sent.push(email);
+            return true;
+        },
+        verify: async () => {}
+    };
+};
+
+// Twilio REST client over in-memory accounts: { [accountSid]: { authToken, numbers: { [numberSid]: { phoneNumber, voiceUrl, ... } } } }
+// Wrong credentials fail like Twilio's 401.
+const fakeTwilio = (accounts) => (accountSid, authToken) => {
+    const getNumbers = () => {
+        const account = accounts[accountSid];
+        if (!account || account.authToken !== authToken) throw Object.assign(new Error('Authenticate'), { status: 401 });
+        return account.numbers;
+    };
+    const toNumber = (sid, number) => ({ sid, capabilities: { voice: true }, ...number });
+    const getNumber = (sid) => {
+        const number = getNumbers()[sid];
+        if (!number) throw Object.assign(new Error(`Number ${sid} not found`), { status: 404 });
+        return number;
+    };
+
+    const incomingPhoneNumbers = (sid) => ({
+        fetch: async () => toNumber(sid, getNumber(sid)),
+        update: async (params) => toNumber(sid, Object.assign(getNumber(sid), params))
+    });
+    incomingPhoneNumbers.list = async ({ phoneNumber } = {}) => Object.entries(getNumbers())
+        .map(([sid, number]) => toNumber(sid, number))
+        .filter(number => !phoneNumber || number.phoneNumber === phoneNumber);
+
+    return { incomingPhoneNumbers };
+};
+
+// Recording downloads: answers every URL in recordings and keeps each request in fetched
+const fakeRecordingFetch = (recordings, fetched) => async (url, options = {}) => {
+    fetched.push({ url, headers: options.headers || {} });
+    return url in recordings ? new Response(recordings[url], { status: 200 }) : new Response('Not found', { status: 404 });
+};
+
+// reply: see llm/mock.js; settings override the createApp settings below
+export const startTestServer = async ({ reply, settings = {} } = {}) => {
+    let next = 1;
+    let invoiceNumber = 1;
+    const nextId = (prefix) => () => ({ id: `${prefix}-${next++}`, created_at: new Date(Date.UTC(2026, 0, 1, 0, 0, next)).toISOString() });
+    const db = fakeSupabase(UNIQUE_KEYS, {
+        businesses: nextId('biz'),
+        call_logs: nextId('call'),
+        messages: nextId('msg'),
+        appointments: nextId('appt'),
+        payment_requests: nextId('req'),
+        invoices: () => ({ ...nextId('inv')(), invoice_number: invoiceNumber++, issued_at: new Date().toISOString() }),
+        knowledge_documents: nextId('doc'),
+        knowledge_chunks: nextId('chunk')
+    }, FUNCTIONS);
+
+    // Signed-in users by bearer token
+    const users = {};
+    const signIn = (user) => {
+        users[`token-${user.id}`] = user;
+        return `token-${user.id}`;
+    };
+    const getUser = async (req) => users[req.headers.authorization?.split(' ')[1]] || null;
+
+    // The service client can also look users up, like supabase.auth.admin
+    const serviceClient = {
+        ...db,
+        auth: { admin: { getUserById: async (id) => ({ data: { user: Object.values(users).find(user => user.id === id) || null } }) } }
+    };
+
+    const model = createMockProvider({ ...(reply && { reply }) });
+    const mailer = captureMailer();
+
+    // The platform account starts without numbers; tests add accounts and recordings as they need them
+    const twilioAccounts = { [TWILIO_ACCOUNT_SID]: { authToken: TWILIO_AUTH_TOKEN, numbers: {} } };
+    const createTwilioClient = fakeTwilio(twilioAccounts);
+    const recordings = {};
+    const fetchedRecordings = [];
+
+    const app = createApp({
+        getUser,
+        getSupabaseClient: () => db,
+        getServiceClient: () => serviceClient,
+        llm: createLLM({ providers: [model], defaultModel: 'mock:echo' }),
+        embedder: createLocalEmbedder(),
+        mailer,
+        getTwilioClient: createTwilioClientFactory({
+            platformAccountSid: TWILIO_ACCOUNT_SID,
+            platformAuthToken: TWILIO_AUTH_TOKEN,
+            createClient: createTwilioClient
+        }),
+        createTwilioClient,
+        fetchRecording: fakeRecordingFetch(recordings, fetchedRecordings),
+        paymentProviders: createPaymentProviders({ env: { PAYMENT_PROVIDER: 'mock' }, baseUrl: PUBLIC_BASE_URL }),
+        settings: {
+            publicBaseUrl: PUBLIC_BASE_URL,
+            frontendUrl: 'https://app.test.example',
+            twilioAccountSid: TWILIO_ACCOUNT_SID,
+            twilioAuthToken: TWILIO_AUTH_TOKEN,
+            ...settings
+        }
+    });
+
+    const server = await new Promise(resolve => {
+        const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    const baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+    // JSON API call -> { status, body }; body is the parsed JSON, or the text for other responses
+    const request = async (path, { method = 'GET', token, body, headers = {} } = {}) => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method,
+            redirect: 'manual',
+            headers: {
+                ...(body !== undefined && { 'Content-Type': 'application/json' }),
+                ...(token && { Authorization: `Bearer ${token}` }),
+                ...headers
+            },
+            ...(body !== undefined && { body: JSON.stringify(body) })
+        });
+        const text = await response.text();
+        const isJson = response.headers.get('content-type')?.includes('application/json');
+        return { status: response.status, headers: response.headers, body: isJson ? JSON.parse(text) : text };
+    };
+
+    // Form POST the way Twilio sends webhooks, signed for the public URL; authToken: null leaves the signature off
+    const twilioWebhook = async (path, params, { authToken = TWILIO_AUTH_TOKEN } = {}) => {
+        const signature = authToken && twilio.getExpectedTwilioSignature(authToken, `${PUBLIC_BASE_URL}${path}`, params);
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                ...(signature && { 'X-Twilio-Signature': signature })
+            },
+            body: new URLSearchParams(params).toString()
+        });
+        return { status: response.status, body: await response.text() };
+    };
+
+    const close = () => new Promise(resolve => {
+        server.close(resolve);
+        server.closeAllConnections();
+    });
+
+    return { db, model, mailer, twilioAccounts, recordings, fetchedRecordings, baseUrl, signIn, request, twilioWebhook, close };
+};
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatInvoiceNumber, issueInvoice, renderReceiptPdf } from '../invoices.js';
+import { fakeSupabase } from './fakeSupabase.js';
+
+const invoiceStore = () => {
+    let next = 1;
+    const supabase = fakeSupabase({ invoices: ['payment_request_id'] }, { invoices: () => ({ invoice_number: next++ }) });
+    supabase.tables.businesses.push({ id: 'biz-1', business_name: 'Acme Dental' });
+    return supabase;
+};
+
+const request = (id) => ({
+    id,
+    business_id: 'biz-1',
+    email: 'owner@example.com',
+    plan: 'growth',
+    amount: 79,
+    payment_method: 'payoneer',
+    payment_reference: 'TX-42'
+});
+
+test('invoices are numbered in order and issued once per payment', async () => {
+    const supabase = invoiceStore();
+
+    const first = await issueInvoice(supabase, request('req-1'));
+    const second = await issueInvoice(supabase, request('req-2'));
+    const again = await issueInvoice(supabase, request('req-1'));
+
+    assert.equal(first.invoice_number, 1);
+    assert.equal(second.invoice_number, 2);
+    assert.equal(again.id, first.id);
+    assert.equal(supabase.tables.invoices.length, 2);
+    assert.equal(first.business_name, 'Acme Dental');
+    assert.equal(first.plan_name, 'Growth Plan');
+    assert.equal(formatInvoiceNumber(first.invoice_number), 'INV-000001');
+});
+
+test('receipt PDF carries the invoice details and a valid cross-reference table', () => {
+    const pdf = renderReceiptPdf({
+        invoice_number: 7,
+        business_name: 'Smith (& Sons)',
+        plan_name: 'Pro Plan',
+        amount: 149,
+        currency: 'USD',
+        payment_method: 'stripe',
+        payment_reference: 'pi_123',
+        issued_at: '2025-03-01T10:00:00Z'
+    }).toString('latin1');
+
+    assert.ok(pdf.startsWith('%PDF-1.4'));
+    assert.ok(pdf.trimEnd().endsWith('%%EOF'));
+    assert.ok(pdf.includes('(Receipt INV-000007)'));
+    assert.ok(pdf.includes('(Billed to: Smith \\(& Sons\\))'));
+    assert.ok(pdf.includes('(Amount paid: $149.00)'));
+    assert.ok(pdf.includes('(Reference: pi_123)'));
+
+    // Every xref entry must point at the start of its object
+    const xrefAt = Number(pdf.match(/startxref\n(\d+)/)[1]);
+    const entries = pdf.slice(xrefAt).split('\n').slice(3, 8);
+    entries.forEach((entry, index) => {
+        assert.ok(pdf.startsWith(`${index + 1} 0 obj`, Number(entry.slice(0, 10))));
+    });
+});
@@ -0,0 +1,140 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateSync } from 'zlib';
+import { createLocalEmbedder } from '../knowledge/embeddings.js';
+import { chunkText, extractChunks, extractPdfText, markdownToText } from '../knowledge/extract.js';
+import { addDocument, deleteDocument, formatKnowledgeContext, listDocuments, searchKnowledge } from '../knowledge/index.js';
+import { renderReceiptPdf } from '../invoices.js';
+import { fakeSupabase } from './fakeSupabase.js';
+
+const embedder = createLocalEmbedder();
+
+const dot = (a, b) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+// Same contract as match_knowledge_chunks in setup_knowledge.sql
+const matchKnowledgeChunks = (tables, { p_business_id, p_embedding, p_model, p_limit }) => tables.knowledge_chunks
+    .filter(chunk => chunk.business_id === p_business_id && chunk.embedding_model === p_model)
+    .map(chunk => ({
+        id: chunk.id,
+        document_id: chunk.document_id,
+        title: tables.knowledge_documents.find(d => d.id === chunk.document_id)?.title,
+        content: chunk.content,
+        similarity: dot(chunk.embedding, p_embedding)
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, p_limit);
+
+const store = () => {
+    let next = 1;
+    return fakeSupabase({}, {
+        knowledge_documents: () => ({ id: `doc-${next}`, created_at: `2025-01-01T00:00:0${next++}Z` }),
+        knowledge_chunks: () => ({ id: `chunk-${next++}` })
+    }, { match_knowledge_chunks: matchKnowledgeChunks });
+};
+
+const FAQ = [
+    { question: 'Do you offer parking?', answer: 'Yes, free parking is available behind the building.' },
+    { question: 'What payment methods do you accept?', answer: 'We accept cash, cards and bank transfer.' },
+    { question: 'Can I bring my dog?', answer: 'Pets are welcome in the waiting area.' }
+];
+
+test('local embeddings are deterministic, normalised and rank related text higher', async () => {
+    const [a, again, related, unrelated] = await embedder.embed([
+        'Free parking behind the building',
+        'Free parking behind the building',
+        'Is there parking near the building?',
+        'We accept card payments'
+    ]);
+
+    assert.deepEqual(a, again);
+    assert.equal(a.length, 768);
+    assert.ok(Math.abs(dot(a, a) - 1) < 1e-9);
+    assert.ok(dot(a, related) > dot(a, unrelated));
+});
+
+test('text is chunked on paragraph and sentence boundaries', () => {
+    assert.deepEqual(chunkText('First paragraph.\n\nSecond paragraph.'), ['First paragraph.\nSecond paragraph.']);
+
+    const long = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} is here.`).join(' ');
+    const chunks = chunkText(long, 200);
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every(chunk => chunk.length <= 200));
+    assert.ok(chunks.every(chunk => chunk.endsWith('.')));
+
+    assert.deepEqual(
+        extractChunks({ type: 'faq', content: FAQ.slice(0, 1) }),
+        ['Q: Do you offer parking?\nA: Yes, free parking is available behind the building.']
+    );
+    assert.throws(() => extractChunks({ type: 'faq', content: [{ question: 'Hours?' }] }), /needs a question and an answer/);
+});
+
+test('Markdown formatting is dropped but headings and link targets are kept', () => {
+    assert.equal(
+        markdownToText('# Pricing\n\n- **Basic** clean: $50\n- See [our site](https://example.com)'),
+        'Pricing\n\n- Basic clean: $50\n- See our site (https://example.com)'
+    );
+});
+
+test('PDF text is read from plain and Flate-compressed content streams', () => {
+    const receipt = extractPdfText(renderReceiptPdf({
+        invoice_number: 7,
+        amount: 2500,
+        currency: 'USD',
+        plan_id: 'pro',
+        business_name: 'Acme (Downtown)',
+        issued_at: '2025-03-01T00:00:00Z'
+    }));
+    assert.match(receipt, /INV-000007/);
+    assert.match(receipt, /Acme \(Downtown\)/);
+
+    const content = deflateSync(Buffer.from('BT /F1 12 Tf 72 720 Td (We are closed on) Tj T* [(public ) -250 (holidays.)] TJ ET'));
+    const pdf = Buffer.concat([
+        Buffer.from(`%PDF-1.4\n4 0 obj\n<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        content,
+        Buffer.from('\nendstream\nendobj\n%%EOF', 'latin1')
+    ]);
+    assert.equal(extractPdfText(pdf), 'We are closed on\npublic holidays.');
+
+    assert.throws(() => extractPdfText(Buffer.from('not a pdf')), /not a PDF/);
+});
+
+test('documents are stored with their passages and the closest ones are retrieved', async () => {
+    const supabase = store();
+
+    const { document } = await addDocument(supabase, embedder, 'biz-1', { title: 'Visitor FAQ', type: 'faq', content: FAQ });
+    assert.equal(document.chunk_count, 3);
+    assert.equal(supabase.tables.knowledge_chunks.length, 3);
+    assert.ok(supabase.tables.knowledge_chunks.every(chunk => chunk.embedding_model === 'local:hash-v1' && chunk.document_id === document.id));
+
+    await addDocument(supabase, embedder, 'biz-2', { title: 'Other', type: 'text', content: 'Parking costs $5 per hour.' });
+
+    const passages = await searchKnowledge(supabase, embedder, 'biz-1', 'where can I park? is parking free', { limit: 2 });
+    assert.equal(passages[0].title, 'Visitor FAQ');
+    assert.match(passages[0].content, /free parking/);
+    assert.ok(passages.every(passage => !passage.content.includes('$5')));
+
+    const context = formatKnowledgeContext(passages.slice(0, 1));
+    assert.match(context, /\[1\] \(Visitor FAQ\)\nQ: Do you offer parking\?/);
+    assert.equal(formatKnowledgeContext([]), '');
+});
+
+test('invalid uploads are rejected before anything is stored', async () => {
+    const supabase = store();
+
+    assert.deepEqual(await addDocument(supabase, embedder, 'biz-1', { title: '', type: 'text', content: 'x' }), { error: 'A title is required', status: 400 });
+    assert.deepEqual(
+        await addDocument(supabase, embedder, 'biz-1', { title: 'Scan', type: 'pdf', content: Buffer.from('%PDF-1.4\n%%EOF').toString('base64') }),
+        { error: 'No text could be read from this PDF (it may be a scan)', status: 400 }
+    );
+    assert.equal((await addDocument(supabase, embedder, 'biz-1', { title: 'Doc', type: 'html', content: 'x' })).status, 400);
+    assert.equal(supabase.tables.knowledge_documents.length, 0);
+});
+
+test('documents can only be deleted by their own business', async () => {
+    const supabase = store();
+    const { document } = await addDocument(supabase, embedder, 'biz-1', { title: 'Notes', type: 'markdown', content: '## Hours\nOpen late on Fridays.' });
+
+    assert.deepEqual(await deleteDocument(supabase, 'biz-2', document.id), { error: 'Document not found', status: 404 });
+    assert.deepEqual(await deleteDocument(supabase, 'biz-1', document.id), { deleted: true });
+    assert.deepEqual(await listDocuments(supabase, 'biz-1'), []);
+});
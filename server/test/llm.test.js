@@ -0,0 +1,195 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLLM, createLLMFromEnv } from '../llm/index.js';
+import { createGeminiProvider, toGeminiContents } from '../llm/gemini.js';
+import { createOpenAIProvider, toJsonSchema } from '../llm/openai.js';
+import { messageFunctions } from '../messages.js';
+
+// Provider whose replies are scripted per call: a reply is { text, toolCalls } or an Error
+const scriptedProvider = (id, replies, models = ['m1']) => {
+    const requests = [];
+    return {
+        id,
+        name: id,
+        models,
+        requests,
+        chat: async (request) => {
+            requests.push({ ...request, messages: [...request.messages] });
+            const reply = replies.shift();
+            if (reply instanceof Error) throw reply;
+            if (reply.streamThenFail) {
+                request.onText(reply.streamThenFail);
+                throw new Error('connection reset');
+            }
+            if (reply.text) request.onText(reply.text);
+            return { text: reply.text || '', toolCalls: reply.toolCalls || [] };
+        }
+    };
+};
+
+const asyncIterable = (items) => ({
+    async *[Symbol.asyncIterator]() {
+        yield* items;
+    }
+});
+
+test('a failing provider is skipped and tried last while it cools down', async () => {
+    let clock = 0;
+    const primary = scriptedProvider('gemini', [new Error('503 overloaded'), { text: 'back again' }]);
+    const backup = scriptedProvider('openai', [{ text: 'Hello from backup' }, { text: 'still backup' }]);
+    const llm = createLLM({ providers: [primary, backup], defaultModel: 'gemini:m1', fallbackModels: ['openai:m1'], now: () => clock });
+
+    let streamed = '';
+    const result = await llm.runChatTurn({ system: 'Be nice', message: 'Hi', onText: (text) => { streamed += text; } });
+    assert.deepEqual(result, { text: 'Hello from backup', modelId: 'openai:m1' });
+    assert.equal(streamed, 'Hello from backup');
+
+    assert.deepEqual(llm.modelChain(null), ['openai:m1', 'gemini:m1']);
+    assert.equal((await llm.runChatTurn({ system: '', message: 'Hi' })).modelId, 'openai:m1');
+
+    clock = 61 * 1000;
+    assert.deepEqual(llm.modelChain(null), ['gemini:m1', 'openai:m1']);
+    assert.equal((await llm.runChatTurn({ system: '', message: 'Hi' })).text, 'back again');
+});
+
+test('there is no failover once part of an answer was streamed', async () => {
+    const primary = scriptedProvider('gemini', [{ streamThenFail: 'Half an ans' }]);
+    const backup = scriptedProvider('openai', [{ text: 'Full answer' }]);
+    const llm = createLLM({ providers: [primary, backup], defaultModel: 'gemini:m1', fallbackModels: ['openai:m1'] });
+
+    await assert.rejects(llm.runChatTurn({ system: '', message: 'Hi' }), /connection reset/);
+    assert.equal(backup.requests.length, 0);
+});
+
+test('the business choice is used when available, otherwise the default', async () => {
+    const gemini = scriptedProvider('gemini', [], ['gemini-flash-latest']);
+    const local = scriptedProvider('local', [], ['llama3.1', 'qwen2.5']);
+    const llm = createLLM({ providers: [gemini, local], defaultModel: 'gemini:gemini-flash-latest', fallbackModels: ['local:llama3.1'] });
+
+    assert.deepEqual(llm.modelChain('local:qwen2.5'), ['local:qwen2.5', 'gemini:gemini-flash-latest', 'local:llama3.1']);
+    assert.deepEqual(llm.modelChain('openai:gpt-4o'), ['gemini:gemini-flash-latest', 'local:llama3.1']);
+    assert.deepEqual(llm.listModels().map(model => model.id), ['gemini:gemini-flash-latest', 'local:llama3.1', 'local:qwen2.5']);
+});
+
+test('tool calls are resolved and sent back to the model that made them', async () => {
+    const provider = scriptedProvider('openai', [
+        { text: 'One moment. ', toolCalls: [{ id: 'call_1', name: 'take_message', args: { reason: 'Quote' } }] },
+        { text: 'Your message is saved.' }
+    ]);
+    const llm = createLLM({ providers: [provider], defaultModel: 'openai:m1' });
+
+    const calls = [];
+    const result = await llm.runChatTurn({
+        system: 'sys',
+        history: [{ role: 'assistant', content: 'Hello!' }],
+        message: 'Leave a message',
+        tools: messageFunctions,
+        toolHandler: async (call) => {
+            calls.push(call);
+            return { saved: true };
+        }
+    });
+
+    assert.equal(result.text, 'One moment. Your message is saved.');
+    assert.deepEqual(calls, [{ id: 'call_1', name: 'take_message', args: { reason: 'Quote' } }]);
+    assert.deepEqual(provider.requests[1].messages.slice(-2), [
+        { role: 'assistant', content: 'One moment. ', toolCalls: calls },
+        { role: 'tool', toolCallId: 'call_1', name: 'take_message', result: { saved: true } }
+    ]);
+
+    // Without a handler no tools are offered
+    const plain = scriptedProvider('openai', [{ text: 'Hi' }]);
+    await createLLM({ providers: [plain], defaultModel: 'openai:m1' }).runChatTurn({ system: '', message: 'Hi', tools: messageFunctions });
+    assert.deepEqual(plain.requests[0].tools, []);
+});
+
+test('the Gemini adapter converts turns and reads function calls', async () => {
+    assert.deepEqual(toGeminiContents([
+        { role: 'assistant', content: 'Hello!' },
+        { role: 'user', content: 'Book me in' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'a', name: 'check_availability', args: { date: '2025-01-02' } }, { id: 'b', name: 'x', args: {} }] },
+        { role: 'tool', toolCallId: 'a', name: 'check_availability', result: { slots: [] } },
+        { role: 'tool', toolCallId: 'b', name: 'x', result: {} }
+    ]), [
+        { role: 'user', parts: [{ text: 'Start conversation' }] },
+        { role: 'model', parts: [{ text: 'Hello!' }] },
+        { role: 'user', parts: [{ text: 'Book me in' }] },
+        { role: 'model', parts: [{ functionCall: { name: 'check_availability', args: { date: '2025-01-02' } } }, { functionCall: { name: 'x', args: {} } }] },
+        { role: 'function', parts: [{ functionResponse: { name: 'check_availability', response: { slots: [] } } }, { functionResponse: { name: 'x', response: {} } }] }
+    ]);
+
+    let request;
+    const genAI = {
+        getGenerativeModel: ({ model }) => ({
+            generateContentStream: async (options) => {
+                request = { model, ...options };
+                return {
+                    stream: asyncIterable([{ text: () => 'Let me check' }]),
+                    response: Promise.resolve({ functionCalls: () => [{ name: 'check_availability', args: { date: '2025-01-02' } }] })
+                };
+            }
+        })
+    };
+
+    const result = await createGeminiProvider({ genAI }).chat({ model: 'gemini-2.5-flash', system: 'sys', messages: [{ role: 'user', content: 'Hi' }], tools: messageFunctions, onText: () => {} });
+    assert.equal(request.model, 'gemini-2.5-flash');
+    assert.deepEqual(request.tools, [{ functionDeclarations: messageFunctions }]);
+    assert.deepEqual(result, { text: 'Let me check', toolCalls: [{ id: 'check_availability-0', name: 'check_availability', args: { date: '2025-01-02' } }] });
+});
+
+test('the OpenAI adapter assembles streamed text and tool call fragments', async () => {
+    let request;
+    const client = {
+        chat: {
+            completions: {
+                create: async (options) => {
+                    request = options;
+                    return asyncIterable([
+                        { choices: [{ delta: { content: 'Saving ' } }] },
+                        { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_9', function: { name: 'take_message', arguments: '{"reason":' } }] } }] },
+                        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"Quote"}' } }] } }] },
+                        { choices: [] }
+                    ]);
+                }
+            }
+        }
+    };
+
+    let streamed = '';
+    const result = await createOpenAIProvider({ client }).chat({
+        model: 'gpt-4o-mini',
+        system: 'sys',
+        messages: [{ role: 'user', content: 'Hi' }],
+        tools: messageFunctions,
+        onText: (text) => { streamed += text; }
+    });
+
+    assert.equal(streamed, 'Saving ');
+    assert.deepEqual(result, { text: 'Saving ', toolCalls: [{ id: 'call_9', name: 'take_message', args: { reason: 'Quote' } }] });
+    assert.deepEqual(request.messages, [{ role: 'system', content: 'sys' }, { role: 'user', content: 'Hi' }]);
+    assert.equal(request.tools[0].function.name, 'take_message');
+    assert.equal(request.tools[0].function.parameters.properties.urgency.format, undefined);
+    assert.deepEqual(toJsonSchema({ type: 'string', format: 'enum', enum: ['a'] }), { type: 'string', enum: ['a'] });
+});
+
+test('providers and the fallback order come from env', () => {
+    const clients = [];
+    const llm = createLLMFromEnv({
+        env: { GEMINI_API_KEY: 'g', OPENAI_API_KEY: 'o', LOCAL_LLM_URL: 'http://localhost:11434/v1', LOCAL_LLM_MODELS: 'llama3.1, mistral' },
+        genAI: {},
+        createOpenAIClient: (options) => {
+            clients.push(options);
+            return {};
+        }
+    });
+
+    assert.deepEqual(clients, [{ apiKey: 'o' }, { apiKey: 'local', baseURL: 'http://localhost:11434/v1' }]);
+    assert.equal(llm.defaultModel, 'gemini:gemini-flash-latest');
+    assert.deepEqual(llm.modelChain('local:mistral'), ['local:mistral', 'gemini:gemini-flash-latest', 'openai:gpt-4o-mini', 'local:llama3.1']);
+
+    const localOnly = createLLMFromEnv({ env: { LOCAL_LLM_URL: 'http://localhost:1234/v1', LLM_FALLBACK_MODELS: '' }, genAI: {}, createOpenAIClient: () => ({}) });
+    assert.equal(localOnly.defaultModel, 'local:llama3.1');
+
+    const offline = createLLMFromEnv({ env: { LLM_MOCK: 'true' }, genAI: {} });
+    assert.deepEqual(offline.modelChain(null), ['mock:echo']);
+});
@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { downgradeBusiness, recordAdminAction, refundPayment, rejectPayment } from '../payments/admin.js';
+import { createManualProvider } from '../payments/manual.js';
+import { fakeSupabase } from './fakeSupabase.js';
+
+const store = () => {
+    const supabase = fakeSupabase();
+    supabase.tables.businesses.push({ id: 'biz-1', subscription_plan: 'growth', minutes_limit: 500, renewal_status: 'active' });
+    supabase.tables.payment_requests.push(
+        { id: 'req-pending', business_id: 'biz-1', plan: 'growth', amount: 79, payment_method: 'payoneer', status: 'pending' },
+        { id: 'req-card', business_id: 'biz-1', plan: 'growth', amount: 79, payment_method: 'stripe', payment_reference: 'pi_1', status: 'approved' }
+    );
+    supabase.tables.invoices.push({ id: 'inv-1', payment_request_id: 'req-card' });
+    return supabase;
+};
+
+test('rejecting needs a reason and only applies to pending requests', async () => {
+    const supabase = store();
+
+    assert.equal((await rejectPayment(supabase, { requestId: 'req-pending', reason: ' ', actor: 'sam' })).status, 400);
+    assert.equal((await rejectPayment(supabase, { requestId: 'req-card', reason: 'Duplicate', actor: 'sam' })).status, 400);
+
+    await rejectPayment(supabase, { requestId: 'req-pending', reason: 'Reference not found', actor: 'sam' });
+    assert.equal(supabase.tables.payment_requests[0].status, 'rejected');
+    assert.equal(supabase.tables.payment_requests[0].status_reason, 'Reference not found');
+    assert.deepEqual(supabase.tables.admin_audit_log.map(e => [e.actor, e.action, e.payment_request_id]), [['sam', 'reject', 'req-pending']]);
+});
+
+test('card refunds go through the provider, mark the invoice and can downgrade the plan', async () => {
+    const supabase = store();
+    const refunds = [];
+    const card = { id: 'stripe', refund: async (args) => { refunds.push(args); return { refundId: 're_1' }; } };
+
+    const result = await refundPayment(supabase, { requestId: 'req-card', reason: 'Customer request', actor: 'sam', downgrade: true, card });
+
+    assert.equal(result.request.refund_reference, 're_1');
+    assert.deepEqual(refunds, [{ reference: 'pi_1', amount: 79 }]);
+    assert.equal(supabase.tables.payment_requests[1].status, 'refunded');
+    assert.ok(supabase.tables.invoices[0].refunded_at);
+    assert.equal(supabase.tables.businesses[0].subscription_plan, 'free');
+    assert.equal(supabase.tables.businesses[0].minutes_limit, 10);
+    assert.equal(supabase.tables.businesses[0].renewal_status, 'cancelled');
+    assert.deepEqual(supabase.tables.admin_audit_log.map(e => e.action), ['refund', 'downgrade']);
+
+    // A second refund of the same payment is refused
+    assert.equal((await refundPayment(supabase, { requestId: 'req-card', reason: 'Again', actor: 'sam', card })).status, 400);
+    assert.equal(refunds.length, 1);
+});
+
+test('downgrades must move to a cheaper plan', async () => {
+    const supabase = store();
+
+    assert.equal((await downgradeBusiness(supabase, { businessId: 'biz-1', planId: 'pro', actor: 'sam' })).status, 400);
+    assert.equal((await downgradeBusiness(supabase, { businessId: 'biz-1', planId: 'platinum', actor: 'sam' })).status, 400);
+
+    await downgradeBusiness(supabase, { businessId: 'biz-1', planId: 'starter', actor: 'sam' });
+    assert.equal(supabase.tables.businesses[0].subscription_plan, 'starter');
+    assert.equal(supabase.tables.businesses[0].minutes_limit, 100);
+    assert.equal(supabase.tables.businesses[0].renewal_status, 'active');
+    assert.deepEqual(supabase.tables.admin_audit_log[0].details, { from: 'growth', to: 'starter' });
+});
+
+test('only pending requests can be approved, so rejected or refunded payments never activate a plan', async () => {
+    const supabase = store();
+    const activated = [];
+    const manual = createManualProvider({
+        activatePlan: async (client, businessId, planId) => { activated.push(planId); },
+        issueInvoice: async () => ({ number: 'INV-000001' })
+    });
+    const card = { id: 'stripe', refund: async () => ({ refundId: 're_1' }) };
+
+    await rejectPayment(supabase, { requestId: 'req-pending', reason: 'Reference not found', actor: 'sam' });
+    const afterReject = await manual.approve(supabase, 'req-pending');
+    assert.deepEqual(afterReject, { error: 'Only pending requests can be approved (this one is rejected)', status: 400 });
+
+    await refundPayment(supabase, { requestId: 'req-card', reason: 'Customer request', actor: 'sam', card });
+    assert.equal((await manual.approve(supabase, 'req-card')).status, 400);
+
+    assert.deepEqual(supabase.tables.payment_requests.map(r => r.status), ['rejected', 'refunded']);
+    assert.deepEqual(activated, []);
+});
+
+test('the audit log only takes known actions', async () => {
+    const supabase = store();
+
+    await recordAdminAction(supabase, { actor: 'sam', action: 'suspend', businessId: 'biz-1' });
+    await assert.rejects(recordAdminAction(supabase, { actor: 'sam', action: 'delete_everything' }), /Unknown admin action/);
+    assert.deepEqual(supabase.tables.admin_audit_log.map(e => e.action), ['suspend']);
+});
+
+test('concurrent admin actions on the same request only go through once', async () => {
+    const supabase = store();
+    const activated = [];
+    const manual = createManualProvider({
+        activatePlan: async (client, businessId, planId) => { activated.push(planId); },
+        issueInvoice: async () => ({ number: 'INV-000001' })
+    });
+
+    const approvals = await Promise.all([manual.approve(supabase, 'req-pending'), manual.approve(supabase, 'req-pending')]);
+    assert.deepEqual(approvals.map(result => result.status || 200).sort(), [200, 409]);
+    assert.deepEqual(activated, ['growth']);
+
+    const refunds = [];
+    const card = { id: 'stripe', refund: async (args) => { refunds.push(args); return { refundId: 're_1' }; } };
+    const results = await Promise.all([
+        refundPayment(supabase, { requestId: 'req-card', reason: 'Customer request', actor: 'sam', card }),
+        refundPayment(supabase, { requestId: 'req-card', reason: 'Customer request', actor: 'alex', card })
+    ]);
+    assert.deepEqual(results.map(result => result.status || 200).sort(), [200, 409]);
+    assert.equal(refunds.length, 1);
+    assert.equal(supabase.tables.payment_requests[1].refund_reference, 're_1');
+});
+
+test('a failed card refund leaves the payment approved', async () => {
+    const supabase = store();
+    const card = { id: 'stripe', refund: async () => { throw new Error('Card network down'); } };
+
+    await assert.rejects(refundPayment(supabase, { requestId: 'req-card', reason: 'Customer request', actor: 'sam', card }), /Card network down/);
+    assert.equal(supabase.tables.payment_requests[1].status, 'approved');
+});
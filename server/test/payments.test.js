@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { createCardProvider, PaymentWebhookError, signPayload, verifySignature } from '../payments/card.js';
+import { createMockProvider } from '../payments/mock.js';
+import { createPaymentProviders, processPaymentEvent } from '../payments/index.js';
+import { FUNCTIONS } from './fakeFunctions.js';
+import { fakeSupabase } from './fakeSupabase.js';
+
+const SECRET = 'whsec_test';
+
+test('verifySignature accepts a valid signature and rejects tampering or stale timestamps', () => {
+    const body = JSON.stringify({ id: 'evt_1' });
+    verifySignature(SECRET, body, signPayload(SECRET, body));
+
+    assert.throws(() => verifySignature(SECRET, body + ' ', signPayload(SECRET, body)), PaymentWebhookError);
+    assert.throws(() => verifySignature('other', body, signPayload(SECRET, body)), PaymentWebhookError);
+    assert.throws(() => verifySignature(SECRET, body, signPayload(SECRET, body, 1000)), PaymentWebhookError);
+    assert.throws(() => verifySignature(SECRET, body, undefined), PaymentWebhookError);
+});
+
+test('card provider creates a checkout session through the API', async (t) => {
+    let received;
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            received = { url: req.url, auth: req.headers.authorization, params: new URLSearchParams(body) };
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ id: 'cs_test_1', url: 'https://checkout.example/cs_test_1' }));
+        });
+    });
+    await new Promise(resolve => server.listen(0, resolve));
+    t.after(() => server.close());
+
+    const provider = createCardProvider({ secretKey: 'sk_test', webhookSecret: SECRET, apiBase: `http://127.0.0.1:${server.address().port}` });
+    const session = await provider.createCheckout({
+        plan: { id: 'growth', name: 'Growth Plan', price: 79 },
+        business: { id: 'biz-1' },
+        email: 'owner@example.com',
+        successUrl: 'https://app.example/?checkout=success',
+        cancelUrl: 'https://app.example/?checkout=cancelled'
+    });
+
+    assert.deepEqual(session, { sessionId: 'cs_test_1', url: 'https://checkout.example/cs_test_1' });
+    assert.equal(received.url, '/v1/checkout/sessions');
+    assert.equal(received.auth, 'Bearer sk_test');
+    assert.equal(received.params.get('line_items[0][price_data][unit_amount]'), '7900');
+    assert.equal(received.params.get('metadata[plan]'), 'growth');
+});
+
+test('mock checkout produces signed events that upgrade the plan exactly once', async () => {
+    const provider = createMockProvider({ webhookSecret: SECRET, baseUrl: 'http://localhost:3002' });
+    const supabase = fakeSupabase({ payment_events: ['provider', 'event_id'] }, {}, FUNCTIONS);
+    supabase.tables.businesses.push({ id: 'biz-1', subscription_plan: 'free', minutes_limit: 10 });
+
+    const { sessionId, url } = await provider.createCheckout({
+        plan: { id: 'pro', name: 'Pro Plan', price: 149 },
+        business: { id: 'biz-1' },
+        successUrl: 'https://app.example/?checkout=success'
+    });
+    assert.ok(url.endsWith(`/api/billing/mock-checkout/${sessionId}`));
+    supabase.tables.payment_requests.push({ id: 'req-1', business_id: 'biz-1', plan: 'pro', amount: 149, payment_method: 'mock', provider_session_id: sessionId, status: 'pending' });
+
+    const completed = provider.completeSession(sessionId, 'paid');
+    const event = provider.parseWebhook(completed.payload, { 'stripe-signature': completed.signature });
+    assert.equal(event.type, 'payment.succeeded');
+
+    const result = await processPaymentEvent(supabase, 'mock', event);
+    assert.equal(result.processed, true);
+    assert.equal(result.invoice.payment_request_id, 'req-1');
+    assert.deepEqual(await processPaymentEvent(supabase, 'mock', event), { duplicate: true });
+
+    assert.equal(supabase.tables.businesses[0].subscription_plan, 'pro');
+    assert.equal(supabase.tables.businesses[0].minutes_limit, 2000);
+    assert.equal(supabase.tables.payment_requests[0].status, 'approved');
+    assert.equal(supabase.tables.payment_events.length, 1);
+    assert.equal(supabase.tables.invoices.length, 1);
+});
+
+test('a failed fulfilment releases the event so a retry can process it', async () => {
+    const supabase = fakeSupabase({ payment_events: ['provider', 'event_id'] }, {}, FUNCTIONS);
+    const event = { id: 'evt_bad', type: 'payment.succeeded', sessionId: 'cs_1', businessId: 'biz-1', plan: 'pro', amount: 1 };
+
+    await assert.rejects(processPaymentEvent(supabase, 'stripe', event));
+    assert.equal(supabase.tables.payment_events.length, 0);
+});
+
+test('a cancelled mock checkout rejects the pending request', async () => {
+    const provider = createMockProvider({ webhookSecret: SECRET, baseUrl: 'http://localhost:3002' });
+    const supabase = fakeSupabase({ payment_events: ['provider', 'event_id'] }, {}, FUNCTIONS);
+    const { sessionId } = await provider.createCheckout({ plan: { id: 'starter', name: 'Starter Plan', price: 29 }, business: { id: 'biz-1' } });
+    supabase.tables.payment_requests.push({ payment_method: 'mock', provider_session_id: sessionId, status: 'pending' });
+
+    const completed = provider.completeSession(sessionId, 'cancelled');
+    const event = provider.parseWebhook(completed.payload, { 'stripe-signature': completed.signature });
+    await processPaymentEvent(supabase, 'mock', event);
+
+    assert.equal(supabase.tables.payment_requests[0].status, 'rejected');
+});
+
+test('the mock checkout is only used when PAYMENT_PROVIDER asks for it', () => {
+    const cardFor = (env) => createPaymentProviders({ env, baseUrl: 'http://localhost:3002' }).card?.id || null;
+
+    assert.equal(cardFor({}), null);
+    assert.equal(cardFor({ NODE_ENV: 'development' }), null);
+    assert.equal(cardFor({ PAYMENT_PROVIDER: 'mock' }), 'mock');
+    assert.equal(cardFor({ STRIPE_SECRET_KEY: 'sk_test', STRIPE_WEBHOOK_SECRET: SECRET }), 'stripe');
+    assert.equal(cardFor({ PAYMENT_PROVIDER: 'stripe' }), null);
+});
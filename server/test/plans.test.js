@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { entitlementError, ENTITLEMENTS, getPlan, getPlanOrFree, hasEntitlement, PLANS } from '../plans.js';
+
+test('every plan lists every entitlement', () => {
+    for (const plan of PLANS) {
+        assert.deepEqual(Object.keys(plan.entitlements).sort(), Object.keys(ENTITLEMENTS).sort());
+    }
+});
+
+test('unknown or missing plans fall back to free', () => {
+    assert.equal(getPlan('free'), null);
+    assert.equal(getPlanOrFree(undefined).id, 'free');
+    assert.equal(getPlanOrFree('enterprise').id, 'free');
+    assert.equal(getPlanOrFree('growth').id, 'growth');
+});
+
+test('entitlements follow the business plan', () => {
+    assert.equal(hasEntitlement({ subscription_plan: 'starter' }, 'callTransfer'), false);
+    assert.equal(hasEntitlement({ subscription_plan: 'growth' }, 'callTransfer'), true);
+    assert.equal(hasEntitlement({ subscription_plan: 'pro' }, 'customGreeting'), true);
+    assert.equal(hasEntitlement({}, 'customGreeting'), false);
+});
+
+test('entitlement errors point at the cheapest plan that unlocks the feature', () => {
+    assert.equal(entitlementError('callTransfer').upgradeTo, 'growth');
+    assert.equal(entitlementError('customGreeting').upgradeTo, 'growth');
+});
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { listProfileHistory, revertProfileChange, updateProfile, validateProfileUpdate } from '../profile.js';
+import { fakeSupabase } from './fakeSupabase.js';
+
+const store = () => {
+    let next = 1;
+    const supabase = fakeSupabase({}, { profile_history: () => ({ id: `rev-${next}`, created_at: `2025-01-01T00:00:0${next++}Z` }) });
+    supabase.tables.businesses.push({ id: 'biz-1', business_name: 'Acme', services: 'Cleaning', tone: 'professional', greeting: 'Hello' });
+    return supabase;
+};
+
+test('profile updates are validated', () => {
+    assert.equal(validateProfileUpdate({}), 'Nothing to update');
+    assert.equal(validateProfileUpdate({ name: '  ' }), 'Business name is required');
+    assert.equal(validateProfileUpdate({ tone: 'grumpy' }), 'Tone must be one of: professional, friendly, enthusiastic');
+    assert.equal(validateProfileUpdate({ greeting: 'x'.repeat(501) }), 'greeting must be at most 500 characters');
+    assert.equal(validateProfileUpdate({ industry: 'Dental' }), 'Unknown profile field: industry');
+    assert.equal(validateProfileUpdate({ schedule: { timezone: 'Mars/Olympus' } }), 'Unknown timezone: Mars/Olympus');
+    assert.equal(validateProfileUpdate({ name: 'Acme Cleaning', tone: 'friendly' }), null);
+});
+
+test('edits record only the changed columns and skip no-op saves', async () => {
+    const supabase = store();
+    const business = supabase.tables.businesses[0];
+
+    const { revision } = await updateProfile(supabase, business, { name: 'Acme', greeting: 'Hi there! ' }, { userId: 'u-1' });
+    assert.deepEqual(revision.previous, { greeting: 'Hello' });
+    assert.deepEqual(revision.changes, { greeting: 'Hi there!' });
+    assert.equal(supabase.tables.businesses[0].greeting, 'Hi there!');
+
+    assert.deepEqual(await updateProfile(supabase, supabase.tables.businesses[0], { greeting: 'Hi there!' }, { userId: 'u-1' }), { unchanged: true });
+    assert.equal(supabase.tables.profile_history.length, 1);
+});
+
+test('schedule edits refresh the working hours summary', async () => {
+    const supabase = store();
+    const schedule = { timezone: 'UTC', weekly: { 1: [{ start: '08:00', end: '12:00' }] }, holidays: [] };
+
+    const { business } = await updateProfile(supabase, supabase.tables.businesses[0], { schedule }, { userId: 'u-1' });
+    assert.ok(business.working_hours.includes('08:00'));
+});
+
+test('reverting puts back the previous values and is itself recorded', async () => {
+    const supabase = store();
+
+    const first = await updateProfile(supabase, supabase.tables.businesses[0], { services: 'Nothing useful', tone: 'friendly' }, { userId: 'u-1' });
+    const reverted = await revertProfileChange(supabase, supabase.tables.businesses[0], first.revision.id, { userId: 'u-1' });
+
+    assert.equal(reverted.business.services, 'Cleaning');
+    assert.equal(reverted.business.tone, 'professional');
+    assert.equal(reverted.revision.source, 'revert');
+    assert.equal(reverted.revision.revert_of, first.revision.id);
+
+    // Nothing left to put back, and other businesses' history is out of reach
+    assert.equal((await revertProfileChange(supabase, supabase.tables.businesses[0], first.revision.id, { userId: 'u-1' })).status, 400);
+    assert.equal((await revertProfileChange(supabase, { id: 'biz-2' }, first.revision.id, { userId: 'u-1' })).status, 404);
+
+    const history = await listProfileHistory(supabase, 'biz-1');
+    assert.deepEqual(history.map(h => h.source), ['revert', 'edit']);
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    BUILT_IN_GUARDRAILS,
+    buildSystemPrompt,
+    fillTemplate,
+    normalizePromptSettings,
+    promptVariables,
+    validatePromptSettings
+} from '../prompts.js';
+
+const NOW = new Date('2026-10-18T12:00:00Z');
+
+const business = {
+    business_name: 'Bright Smile Dental',
+    services: 'Check-ups and whitening',
+    tone: 'friendly',
+    greeting: 'Thanks for calling Bright Smile!',
+    schedule: { timezone: 'UTC', weekly: { 1: [{ start: '09:00', end: '17:00' }] } }
+};
+
+test('every channel shares the business details, rules and guardrails', () => {
+    for (const channel of ['chat', 'voice', 'sms']) {
+        const prompt = buildSystemPrompt({ channel, business, now: NOW });
+        assert.match(prompt, /^You are an AI receptionist for "Bright Smile Dental"/);
+        assert.match(prompt, /- Working Hours: Mon 09:00-17:00 \(UTC\)/);
+        assert.match(prompt, /say you don't know but can take a message/);
+        assert.match(prompt, /4\. Be friendly\./);
+        assert.match(prompt, /Today's date is 2026-10-18/);
+        BUILT_IN_GUARDRAILS.forEach(rule => assert.ok(prompt.includes(`- ${rule}`)));
+    }
+
+    assert.match(buildSystemPrompt({ channel: 'chat', business, now: NOW }), /under 50 words/);
+    assert.match(buildSystemPrompt({ channel: 'voice', business, now: NOW }), /under 30 words/);
+    assert.match(buildSystemPrompt({ channel: 'sms', business, now: NOW }), /under 320 characters/);
+    assert.throws(() => buildSystemPrompt({ channel: 'fax', business }), /Unknown prompt channel/);
+});
+
+test('tool sections follow what the channel offers', () => {
+    const demo = buildSystemPrompt({ channel: 'chat', business: { name: 'Demo Co', workingHours: '24/7' }, tools: false, now: NOW });
+    assert.match(demo, /"Demo Co"/);
+    assert.match(demo, /- Working Hours: 24\/7/);
+    assert.doesNotMatch(demo, /BOOKING:|VOICEMAIL:/);
+
+    const chat = buildSystemPrompt({ channel: 'chat', business, now: NOW });
+    assert.match(chat, /call take_message/);
+    assert.doesNotMatch(chat, /leave_voicemail/);
+
+    const call = buildSystemPrompt({ channel: 'voice', business, canTransfer: true, isClosed: true, now: NOW });
+    assert.match(call, /The business is currently CLOSED/);
+    assert.match(call, /call leave_voicemail/);
+    assert.match(call, /call transfer_call/);
+});
+
+test('owner instructions and guardrails are added with variables filled in', () => {
+    const settings = {
+        instructions: 'Always open with: {{greeting}}',
+        channelInstructions: { voice: 'Spell out {{business_name}} if asked.' },
+        guardrails: ['Never quote prices for implants']
+    };
+
+    const voice = buildSystemPrompt({ channel: 'voice', business: { ...business, prompt_settings: settings }, now: NOW });
+    assert.match(voice, /OWNER INSTRUCTIONS:\nAlways open with: Thanks for calling Bright Smile!\nSpell out Bright Smile Dental if asked\./);
+    assert.match(voice, /- Never quote prices for implants/);
+
+    const chat = buildSystemPrompt({ channel: 'chat', business: { ...business, prompt_settings: settings }, now: NOW });
+    assert.doesNotMatch(chat, /Spell out/);
+
+    // Knowledge passages are quoted as stored
+    const withPassage = buildSystemPrompt({ channel: 'chat', business, passages: [{ title: 'Notes', content: 'Ask for {{today}}' }], now: NOW });
+    assert.match(withPassage, /Ask for \{\{today\}\}/);
+    assert.match(withPassage, /business details and the knowledge base passages/);
+});
+
+test('prompt settings are validated and trimmed', () => {
+    assert.equal(validatePromptSettings({ instructions: 'Mention {{business_name}}', guardrails: ['No prices'] }), null);
+    assert.match(validatePromptSettings({ instructions: 'Hi {{owner_name}}' }), /Unknown variable \{\{owner_name\}\}/);
+    assert.match(validatePromptSettings({ channelInstructions: { fax: 'x' } }), /Channel must be one of/);
+    assert.match(validatePromptSettings({ guardrails: [' '] }), /cannot be empty/);
+    assert.match(validatePromptSettings({ guardrails: Array(11).fill('x') }), /At most 10/);
+    assert.match(validatePromptSettings({ instructions: 'x'.repeat(2001) }), /at most 2000/);
+
+    assert.deepEqual(normalizePromptSettings({ instructions: ' Be brief ', channelInstructions: { sms: ' ', voice: ' Slow down ' }, guardrails: [' No prices '] }), {
+        instructions: 'Be brief',
+        channelInstructions: { voice: 'Slow down' },
+        guardrails: ['No prices']
+    });
+});
+
+test('variables come from the business config', () => {
+    assert.deepEqual(promptVariables({}, NOW), {
+        business_name: 'Business',
+        services: 'General Inquiry',
+        hours: '9 AM - 5 PM',
+        tone: 'professional',
+        greeting: '',
+        today: '2026-10-18'
+    });
+    assert.equal(fillTemplate('{{ tone }} / {{missing}}', { tone: 'calm' }), 'calm / {{missing}}');
+});
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setMinutesLimit, setSuspended, setTenantPlan } from '../tenants.js';
+import { fakeSupabase } from './fakeSupabase.js';
+
+const store = () => {
+    const supabase = fakeSupabase();
+    supabase.tables.businesses.push({ id: 'biz-1', subscription_plan: 'free', minutes_limit: 10, renewal_status: 'expired' });
+    return supabase;
+};
+
+test('minute limits must be whole numbers in range', async () => {
+    const supabase = store();
+
+    assert.equal((await setMinutesLimit(supabase, { businessId: 'biz-1', minutesLimit: -5, actor: 'sam' })).status, 400);
+    assert.equal((await setMinutesLimit(supabase, { businessId: 'biz-1', minutesLimit: 2.5, actor: 'sam' })).status, 400);
+    assert.equal((await setMinutesLimit(supabase, { businessId: 'missing', minutesLimit: 50, actor: 'sam' })).status, 404);
+
+    await setMinutesLimit(supabase, { businessId: 'biz-1', minutesLimit: 50, reason: 'Goodwill', actor: 'sam' });
+    assert.equal(supabase.tables.businesses[0].minutes_limit, 50);
+    assert.deepEqual(supabase.tables.admin_audit_log[0].details, { from: 10, to: 50, reason: 'Goodwill' });
+});
+
+test('admins can move a business to any plan', async () => {
+    const supabase = store();
+
+    assert.equal((await setTenantPlan(supabase, { businessId: 'biz-1', planId: 'gold', actor: 'sam' })).status, 400);
+
+    await setTenantPlan(supabase, { businessId: 'biz-1', planId: 'pro', actor: 'sam' });
+    assert.equal(supabase.tables.businesses[0].subscription_plan, 'pro');
+    assert.equal(supabase.tables.businesses[0].minutes_limit, 2000);
+    assert.equal(supabase.tables.businesses[0].renewal_status, 'active');
+    assert.equal(supabase.tables.admin_audit_log[0].action, 'change_plan');
+});
+
+test('suspension needs a reason and can be lifted', async () => {
+    const supabase = store();
+
+    assert.equal((await setSuspended(supabase, { businessId: 'biz-1', suspended: true, actor: 'sam' })).status, 400);
+    assert.equal((await setSuspended(supabase, { businessId: 'biz-1', suspended: false, actor: 'sam' })).status, 400);
+
+    await setSuspended(supabase, { businessId: 'biz-1', suspended: true, reason: 'Chargeback', actor: 'sam' });
+    assert.ok(supabase.tables.businesses[0].suspended_at);
+    assert.equal(supabase.tables.businesses[0].suspended_reason, 'Chargeback');
+
+    await setSuspended(supabase, { businessId: 'biz-1', suspended: false, actor: 'sam' });
+    assert.equal(supabase.tables.businesses[0].suspended_at, null);
+    assert.deepEqual(supabase.tables.admin_audit_log.map(e => e.action), ['suspend', 'unsuspend']);
+});
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { configureNumber, restoreNumber } from '../twilioNumbers.js';
+
+// Minimal stand-in for client.incomingPhoneNumbers(sid).fetch()/update()
+const fakeClient = (numbers) => {
+    const incomingPhoneNumbers = (sid) => ({
+        fetch: async () => ({ sid, ...numbers[sid] }),
+        update: async (params) => { numbers[sid] = { ...numbers[sid], ...params }; }
+    });
+    return { incomingPhoneNumbers };
+};
+
+const urls = { voiceUrl: 'https://example.com/webhooks/twilio/voice', statusUrl: 'https://example.com/webhooks/twilio/status' };
+
+test('configureNumber saves the previous webhooks and points the number at ours', async () => {
+    const numbers = { PN1: { phoneNumber: '+15550001111', voiceUrl: 'https://old.example/voice', voiceMethod: 'GET' } };
+    const { number, original } = await configureNumber(fakeClient(numbers), 'PN1', urls);
+
+    assert.equal(number.phoneNumber, '+15550001111');
+    assert.equal(original.voiceUrl, 'https://old.example/voice');
+    assert.equal(original.voiceMethod, 'GET');
+    assert.equal(numbers.PN1.voiceUrl, urls.voiceUrl);
+});
+
+test('reconfiguring a managed number does not save our own webhooks as the original', async () => {
+    const numbers = { PN1: { phoneNumber: '+15550001111', voiceUrl: urls.voiceUrl, statusCallback: urls.statusUrl } };
+    const { original } = await configureNumber(fakeClient(numbers), 'PN1', urls);
+
+    assert.equal(original.voiceUrl, '');
+    assert.equal(original.statusCallback, '');
+});
+
+test('restoreNumber puts the original configuration back', async () => {
+    const numbers = { PN1: { phoneNumber: '+15550001111', voiceUrl: 'https://old.example/voice', voiceMethod: 'GET' } };
+    const client = fakeClient(numbers);
+    const { original } = await configureNumber(client, 'PN1', urls);
+
+    await restoreNumber(client, 'PN1', original);
+    assert.equal(numbers.PN1.voiceUrl, 'https://old.example/voice');
+    assert.equal(numbers.PN1.voiceMethod, 'GET');
+});
+
+test('restoreNumber clears our webhooks when the saved config belongs to another number', async () => {
+    const numbers = { PN2: { phoneNumber: '+15550002222', voiceUrl: urls.voiceUrl } };
+    await restoreNumber(fakeClient(numbers), 'PN2', { phoneNumberSid: 'PN1', voiceUrl: 'https://old.example/voice' });
+
+    assert.equal(numbers.PN2.voiceUrl, '');
+});
@@ -0,0 +1,133 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import twilio from 'twilio';
+import { createTwilioSignatureValidator, matchesSigningAccount } from '../twilioSignature.js';
+
+const BUSINESS_ACCOUNT_SID = 'AC00000000000000000000000000000001';
+const BUSINESS_TOKEN = 'business-auth-token';
+const OTHER_ACCOUNT_SID = 'AC00000000000000000000000000000004';
+const PLATFORM_TOKEN = 'platform-auth-token';
+const PUBLIC_BASE_URL = 'https://reception.example.com';
+
+// Fixture: a typical inbound call webhook body
+const voiceParams = {
+    AccountSid: BUSINESS_ACCOUNT_SID,
+    CallSid: 'CA00000000000000000000000000000001',
+    From: '+15551230000',
+    To: '+15559870000',
+    CallStatus: 'ringing'
+};
+
+const sign = (token, path, params) =>
+    twilio.getExpectedTwilioSignature(token, `${PUBLIC_BASE_URL}${path}`, params);
+
+describe('Twilio signature validation', () => {
+    let server;
+    let baseUrl;
+
+    before(async () => {
+        const app = express();
+        const validate = createTwilioSignatureValidator({
+            publicBaseUrl: PUBLIC_BASE_URL,
+            getAuthTokens: async (accountSid) =>
+                accountSid === BUSINESS_ACCOUNT_SID ? [BUSINESS_TOKEN, PLATFORM_TOKEN] : [PLATFORM_TOKEN]
+        });
+        app.post('/webhooks/twilio/voice', express.urlencoded({ extended: false }), validate, (req, res) => res.send('ok'));
+
+        await new Promise(resolve => { server = app.listen(0, resolve); });
+        baseUrl = `http://127.0.0.1:${server.address().port}`;
+    });
+
+    after(() => server.close());
+
+    const post = (path, params, signature) => fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            ...(signature ? { 'X-Twilio-Signature': signature } : {})
+        },
+        body: new URLSearchParams(params).toString()
+    });
+
+    it('accepts a request signed with the business auth token', async () => {
+        const res = await post('/webhooks/twilio/voice', voiceParams, sign(BUSINESS_TOKEN, '/webhooks/twilio/voice', voiceParams));
+        assert.equal(res.status, 200);
+    });
+
+    it('accepts a request signed with the platform token', async () => {
+        const params = { ...voiceParams, AccountSid: 'AC00000000000000000000000000000002' };
+        const res = await post('/webhooks/twilio/voice', params, sign(PLATFORM_TOKEN, '/webhooks/twilio/voice', params));
+        assert.equal(res.status, 200);
+    });
+
+    it('signs against PUBLIC_BASE_URL including the query string', async () => {
+        const path = '/webhooks/twilio/voice?business_id=b1&call_sid=CA1';
+        const res = await post(path, voiceParams, sign(BUSINESS_TOKEN, path, voiceParams));
+        assert.equal(res.status, 200);
+    });
+
+    it('rejects a request without a signature', async () => {
+        const res = await post('/webhooks/twilio/voice', voiceParams);
+        assert.equal(res.status, 403);
+    });
+
+    it('rejects a request signed with the wrong token', async () => {
+        const res = await post('/webhooks/twilio/voice', voiceParams, sign('wrong-token', '/webhooks/twilio/voice', voiceParams));
+        assert.equal(res.status, 403);
+    });
+
+    it('rejects a request whose params were tampered with', async () => {
+        const signature = sign(BUSINESS_TOKEN, '/webhooks/twilio/voice', voiceParams);
+        const res = await post('/webhooks/twilio/voice', { ...voiceParams, From: '+15550000000' }, signature);
+        assert.equal(res.status, 403);
+    });
+
+    it('rejects a business token used for another account', async () => {
+        const params = { ...voiceParams, AccountSid: 'AC00000000000000000000000000000003' };
+        const res = await post('/webhooks/twilio/voice', params, sign(BUSINESS_TOKEN, '/webhooks/twilio/voice', params));
+        assert.equal(res.status, 403);
+    });
+});
+
+describe('Twilio signing account', () => {
+    let server;
+    let baseUrl;
+
+    // Stand-in for a webhook handler acting on a business that uses OTHER_ACCOUNT_SID
+    before(async () => {
+        const app = express();
+        const validate = createTwilioSignatureValidator({
+            publicBaseUrl: PUBLIC_BASE_URL,
+            getAuthTokens: async (accountSid) => (accountSid === BUSINESS_ACCOUNT_SID ? [BUSINESS_TOKEN] : [])
+        });
+        app.post('/webhooks/twilio/status', express.urlencoded({ extended: false }), validate, (req, res) =>
+            res.sendStatus(matchesSigningAccount(req, OTHER_ACCOUNT_SID) ? 200 : 403));
+
+        await new Promise(resolve => { server = app.listen(0, resolve); });
+        baseUrl = `http://127.0.0.1:${server.address().port}`;
+    });
+
+    after(() => server.close());
+
+    it('rejects a tenant signing a webhook about another tenant\'s business', async () => {
+        const params = { ...voiceParams, CallStatus: 'completed', CallDuration: '6000' };
+        const res = await fetch(`${baseUrl}/webhooks/twilio/status`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                'X-Twilio-Signature': sign(BUSINESS_TOKEN, '/webhooks/twilio/status', params)
+            },
+            body: new URLSearchParams(params).toString()
+        });
+        assert.equal(res.status, 403);
+    });
+
+    it('matches only the signing account, or anything when validation is disabled', () => {
+        assert.equal(matchesSigningAccount({ twilioAccountSid: BUSINESS_ACCOUNT_SID }, BUSINESS_ACCOUNT_SID), true);
+        assert.equal(matchesSigningAccount({ twilioAccountSid: BUSINESS_ACCOUNT_SID }, OTHER_ACCOUNT_SID), false);
+        assert.equal(matchesSigningAccount({ twilioAccountSid: '' }, undefined), false);
+        assert.equal(matchesSigningAccount({}, BUSINESS_ACCOUNT_SID), false);
+        assert.equal(matchesSigningAccount({ twilioAccountSid: null }, OTHER_ACCOUNT_SID), true);
+    });
+});
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkUsageAlerts, getLimitDecision, reachedThresholds, validateUsageSettings } from '../usagePolicy.js';
+import { fakeSupabase } from './fakeSupabase.js';
+
+test('limit decisions follow the business policy', () => {
+    assert.equal(getLimitDecision({ used: 99, limit: 100, overageMinutes: 20, limitAction: 'block' }), 'allow');
+    assert.equal(getLimitDecision({ used: 100, limit: 100, overageMinutes: 20, limitAction: 'block' }), 'block');
+    assert.equal(getLimitDecision({ used: 100, limit: 100, overageMinutes: 20, limitAction: 'voicemail' }), 'voicemail');
+    assert.equal(getLimitDecision({ used: 110, limit: 100, overageMinutes: 20, limitAction: 'grace' }), 'grace');
+    assert.equal(getLimitDecision({ used: 120, limit: 100, overageMinutes: 20, limitAction: 'grace' }), 'voicemail');
+    assert.equal(getLimitDecision({ used: 10, limit: 10, overageMinutes: 0, limitAction: 'grace' }), 'voicemail');
+});
+
+test('reachedThresholds lists every threshold at or below usage', () => {
+    assert.deepEqual(reachedThresholds(49, 100, [50, 80, 100]), []);
+    assert.deepEqual(reachedThresholds(85, 100, [50, 80, 100]), [50, 80]);
+    assert.deepEqual(reachedThresholds(120, 100, [80, 100]), [80, 100]);
+});
+
+test('validateUsageSettings rejects unknown actions and thresholds', () => {
+    assert.equal(validateUsageSettings({ limitAction: 'grace', alertThresholds: [80, 100] }), null);
+    assert.ok(validateUsageSettings({ limitAction: 'ignore', alertThresholds: [] }));
+    assert.ok(validateUsageSettings({ limitAction: 'block', alertThresholds: [75] }));
+});
+
+test('each alert is sent once per billing period', async () => {
+    const supabase = fakeSupabase({ usage_alerts: ['business_id', 'period_start', 'threshold'] });
+    const business = { id: 'biz-1', minutes_limit: 100, current_period_start: '2026-10-01T00:00:00.000Z', usage_settings: null };
+    const notified = [];
+    const notify = async (threshold) => { notified.push(threshold); };
+
+    assert.deepEqual(await checkUsageAlerts(supabase, business, 55, notify), [50]);
+    assert.deepEqual(await checkUsageAlerts(supabase, business, 85, notify), [80]);
+    assert.deepEqual(await checkUsageAlerts(supabase, business, 90, notify), []);
+    assert.deepEqual(notified, [50, 80]);
+
+    const nextPeriod = { ...business, current_period_start: '2026-11-01T00:00:00.000Z' };
+    assert.deepEqual(await checkUsageAlerts(supabase, nextPeriod, 60, notify), [50]);
+});
+
+test('disabled thresholds are skipped and failed emails are retried', async () => {
+    const supabase = fakeSupabase({ usage_alerts: ['business_id', 'period_start', 'threshold'] });
+    const business = {
+        id: 'biz-1', minutes_limit: 100, current_period_start: '2026-10-01T00:00:00.000Z',
+        usage_settings: { limitAction: 'voicemail', alertThresholds: [100] }
+    };
+
+    await assert.rejects(checkUsageAlerts(supabase, business, 100, async () => { throw new Error('SMTP down'); }));
+    assert.deepEqual(await checkUsageAlerts(supabase, business, 100, async () => {}), [100]);
+});
@@ -0,0 +1,132 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { readFile } from 'fs/promises';
+import { extname, join } from 'path';
+import { fileURLToPath } from 'url';
+import {
+    crawlSite,
+    importWebsite,
+    isPrivateAddress,
+    normalizeUrl,
+    parseOpeningHours,
+    publicFetch,
+    parseRobots,
+    WebsiteImportError
+} from '../websiteImport.js';
+
+// Static fixture site served from test/fixtures/site
+const SITE_ROOT = fileURLToPath(new URL('./fixtures/site', import.meta.url));
+const CONTENT_TYPES = { '.html': 'text/html; charset=utf-8', '.txt': 'text/plain', '.pdf': 'application/pdf' };
+
+let server;
+let baseUrl;
+const requested = [];
+
+before(async () => {
+    server = createServer(async (req, res) => {
+        const { pathname } = new URL(req.url, 'http://localhost');
+        requested.push(pathname);
+        if (pathname === '/old-home') {
+            res.writeHead(301, { Location: '/' });
+            return res.end();
+        }
+        try {
+            const file = pathname.endsWith('/') ? `${pathname}index.html` : pathname;
+            const body = await readFile(join(SITE_ROOT, file));
+            res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(file)] || 'application/octet-stream' });
+            res.end(body);
+        } catch {
+            res.writeHead(404);
+            res.end('Not found');
+        }
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => new Promise(resolve => server.close(resolve)));
+
+test('the crawl stays on the site, skips non-HTML and honours robots.txt', async () => {
+    requested.length = 0;
+    const pages = await crawlSite(`${baseUrl}/old-home`, { allowPrivateNetwork: true });
+
+    assert.deepEqual(pages.map(page => new URL(page.url).pathname).sort(), ['/', '/faq.html', '/services.html']);
+    assert.ok(!requested.includes('/private/staff.html'));
+    assert.equal(requested.filter(path => path === '/').length, 1);
+});
+
+test('the crawl stops at the page limit', async () => {
+    const pages = await crawlSite(baseUrl, { allowPrivateNetwork: true, maxPages: 1 });
+    assert.equal(pages.length, 1);
+    assert.equal(pages[0].siteName, 'Bright Smile Dental');
+});
+
+test('the proposal covers name, services, hours, FAQs and a greeting', async () => {
+    const { proposal, pages } = await importWebsite(baseUrl, { allowPrivateNetwork: true });
+
+    assert.equal(pages.length, 3);
+    assert.equal(proposal.name, 'Bright Smile Dental');
+    assert.equal(proposal.greeting, 'Thank you for calling Bright Smile Dental. How can I help you today?');
+    assert.equal(
+        proposal.services,
+        'Friendly family dentistry in downtown Springfield.\n\n- Check-ups & cleaning\n- Teeth whitening\n- Invisalign® clear aligners\n- Emergency appointments'
+    );
+
+    const weekday = [{ start: '08:30', end: '17:00' }];
+    assert.deepEqual(proposal.weekly, { 1: weekday, 2: weekday, 3: weekday, 4: weekday, 5: weekday, 6: [{ start: '09:00', end: '13:00' }] });
+    assert.match(proposal.hoursText, /Sunday Closed/);
+
+    assert.deepEqual(proposal.faqs.map(faq => faq.question).sort(), [
+        'Do you accept insurance?',
+        'Do you see children?',
+        'Is there parking?',
+        'What if I need to cancel?'
+    ]);
+    assert.equal(
+        proposal.faqs.find(faq => faq.question === 'What if I need to cancel?').answer,
+        "Please give us 24 hours' notice. Late cancellations may be charged."
+    );
+});
+
+test('opening hours are read from common formats', () => {
+    assert.deepEqual(parseOpeningHours(['Open Tue & Thu from 11-2pm']).weekly, {
+        2: [{ start: '11:00', end: '14:00' }],
+        4: [{ start: '11:00', end: '14:00' }]
+    });
+    assert.deepEqual(parseOpeningHours(['Fri-Sun 17:00-00:00']).weekly, {
+        5: [{ start: '17:00', end: '23:59' }],
+        6: [{ start: '17:00', end: '23:59' }],
+        0: [{ start: '17:00', end: '23:59' }]
+    });
+    assert.equal(parseOpeningHours(['We are open every month of the year']), null);
+});
+
+test('private and malformed addresses are refused', async () => {
+    await assert.rejects(crawlSite(baseUrl), new WebsiteImportError('127.0.0.1 is not a public website'));
+    assert.ok(isPrivateAddress('10.1.2.3'));
+    assert.ok(isPrivateAddress('::ffff:192.168.0.1'));
+    assert.ok(isPrivateAddress('fd00::1'));
+    assert.ok(isPrivateAddress('198.19.0.1'));
+    assert.ok(isPrivateAddress('240.0.0.1'));
+    assert.ok(isPrivateAddress('64:ff9b::a9fe:a9fe'));
+    assert.ok(!isPrivateAddress('93.184.216.34'));
+
+    assert.equal(normalizeUrl('example.com/about').href, 'https://example.com/about');
+    assert.throws(() => normalizeUrl('ftp://example.com'), /Only http and https/);
+    assert.throws(() => normalizeUrl(''), /required/);
+});
+
+test('the address is checked again when connecting, so DNS rebinding cannot reach private hosts', async () => {
+    // An IP literal needs no lookup; a host name resolving to loopback is refused at connect time
+    const direct = await publicFetch(new URL(`${baseUrl}/`));
+    assert.equal(direct.status, 200);
+    assert.match(await direct.text(), /<html/i);
+
+    const port = new URL(baseUrl).port;
+    await assert.rejects(publicFetch(new URL(`http://localhost:${port}/`)), new WebsiteImportError('localhost is not a public website'));
+});
+
+test('robots.txt rules only apply from the wildcard group', () => {
+    assert.deepEqual(parseRobots('User-agent: Googlebot\nDisallow: /a\n\nUser-agent: *\nDisallow: /b # drafts\nDisallow:\n'), ['/b']);
+});
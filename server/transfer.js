@@ -0,0 +1,62 @@
+import { SchemaType } from '@google/generative-ai';
+
+// ===== CALL TRANSFER =====
+// businesses.transfer_settings: { forwardingNumber, ringGroup: ['+1555...'], timeoutSeconds }
+// The forwarding number and every ring group number are dialled at the same time; first to answer wins.
+
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+export const DEFAULT_TRANSFER_TIMEOUT = 20;
+
+export const validateTransferSettings = (settings) => {
+    if (!settings || typeof settings !== 'object') return 'Transfer settings are required';
+
+    const { forwardingNumber, ringGroup, timeoutSeconds } = settings;
+    if (forwardingNumber && !E164_PATTERN.test(forwardingNumber)) {
+        return 'Forwarding number must be in international format, e.g. +15551234567';
+    }
+    if (ringGroup !== undefined && !Array.isArray(ringGroup)) return 'Ring group must be a list of numbers';
+    for (const number of ringGroup || []) {
+        if (!E164_PATTERN.test(number)) return `Invalid ring group number: ${number}`;
+    }
+    if (!forwardingNumber && ringGroup?.length) return 'Set a forwarding number before adding a ring group';
+
+    const timeout = Number(timeoutSeconds ?? DEFAULT_TRANSFER_TIMEOUT);
+    if (!Number.isInteger(timeout) || timeout < 5 || timeout > 60) return 'Ring timeout must be between 5 and 60 seconds';
+
+    return null;
+};
+
+// Every number to ring for a transfer, without duplicates
+export const getTransferTargets = (business) => {
+    const settings = business.transfer_settings;
+    if (!settings?.forwardingNumber) return [];
+    return [...new Set([settings.forwardingNumber, ...(settings.ringGroup || [])])];
+};
+
+// --- Gemini function calling ---
+
+export const transferFunctions = [
+    {
+        name: 'transfer_call',
+        description: 'Transfer the caller to a human member of staff. Use when the caller asks for a person or the request needs a human.',
+        parameters: {
+            type: SchemaType.OBJECT,
+            properties: {
+                reason: { type: SchemaType.STRING, description: 'Short reason for the transfer' }
+            },
+            required: ['reason']
+        }
+    }
+];
+
+// onTransfer is called when the model asks to transfer; the webhook then answers with <Dial>
+export const createTransferToolHandlers = (business, onTransfer) => ({
+    transfer_call: async (args) => {
+        if (getTransferTargets(business).length === 0) {
+            return { transferring: false, error: 'No staff are available by phone. Offer to take a message instead.' };
+        }
+        onTransfer(args.reason);
+        return { transferring: true, instruction: 'Tell the caller you are connecting them now.' };
+    }
+});
@@ -0,0 +1,61 @@
+import twilio from 'twilio';
+import { decryptSecret } from './credentials.js';
+
+// ===== TWILIO NUMBERS =====
+// Each business connects its own Twilio account. Before a number is pointed at our webhooks its
+// previous voice/status configuration is saved in businesses.twilio_original_config so that
+// disconnecting (or switching to another number) hands it back exactly as we found it.
+
+// Returns a Twilio client for the business's own account, or the platform account from env, or null
+export const createTwilioClientFactory = ({ platformAccountSid, platformAuthToken, createClient = twilio } = {}) => (business) => {
+    const accountSid = decryptSecret(business?.twilio_account_sid) || platformAccountSid;
+    const authToken = decryptSecret(business?.twilio_auth_token) || platformAuthToken;
+    if (!accountSid || !authToken) return null;
+    return createClient(accountSid, authToken);
+};
+
+const toNumberSummary = (number) => ({
+    sid: number.sid,
+    phoneNumber: number.phoneNumber,
+    friendlyName: number.friendlyName,
+    voiceUrl: number.voiceUrl || null
+});
+
+// Every voice-capable number in the account
+export const listAccountNumbers = async (client) => {
+    const numbers = await client.incomingPhoneNumbers.list({ limit: 100 });
+    return numbers.filter(n => n.capabilities?.voice !== false).map(toNumberSummary);
+};
+
+// Points a number at our webhooks and returns the configuration it had before
+export const configureNumber = async (client, numberSid, { voiceUrl, statusUrl }) => {
+    const current = await client.incomingPhoneNumbers(numberSid).fetch();
+    const original = {
+        phoneNumberSid: numberSid,
+        // Reconnecting a number we already manage must not save our own webhooks as the original
+        voiceUrl: current.voiceUrl === voiceUrl ? '' : (current.voiceUrl || ''),
+        voiceMethod: current.voiceMethod || 'POST',
+        statusCallback: current.statusCallback === statusUrl ? '' : (current.statusCallback || ''),
+        statusCallbackMethod: current.statusCallbackMethod || 'POST'
+    };
+
+    await client.incomingPhoneNumbers(numberSid).update({
+        voiceUrl,
+        voiceMethod: 'POST',
+        statusCallback: statusUrl,
+        statusCallbackMethod: 'POST'
+    });
+
+    return { number: toNumberSummary(current), original };
+};
+
+// Puts back the configuration saved by configureNumber (or clears our webhooks if none was saved)
+export const restoreNumber = async (client, numberSid, original) => {
+    const saved = original?.phoneNumberSid === numberSid ? original : null;
+    await client.incomingPhoneNumbers(numberSid).update({
+        voiceUrl: saved?.voiceUrl || '',
+        voiceMethod: saved?.voiceMethod || 'POST',
+        statusCallback: saved?.statusCallback || '',
+        statusCallbackMethod: saved?.statusCallbackMethod || 'POST'
+    });
+};
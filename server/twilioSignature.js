@@ -0,0 +1,54 @@
+import twilio from 'twilio';
+
+// ===== TWILIO WEBHOOK SIGNATURES =====
+// Twilio signs the full public URL it called plus the POST params with the account's auth token.
+// Behind a proxy (Render, ngrok) the host/protocol Express sees differ from that URL, so PUBLIC_BASE_URL
+// is used to rebuild it. Without it the URL comes from the X-Forwarded-* headers of the one trusted proxy.
+
+export const getWebhookUrl = (req, publicBaseUrl) => {
+    if (publicBaseUrl) return `${publicBaseUrl.replace(/\/+$/, '')}${req.originalUrl}`;
+    return `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+};
+
+// A valid signature only proves which account sent the request. Handlers must still check that the
+// business they act on uses that account, or one tenant could sign webhooks about another tenant's calls.
+// req.twilioAccountSid is set by the validator (null when validation is disabled).
+export const matchesSigningAccount = (req, accountSid) =>
+    req.twilioAccountSid === null || (!!accountSid && req.twilioAccountSid === accountSid);
+
+// getAuthTokens(accountSid) resolves every auth token that may have signed the request:
+// the connected business's own token and, if configured, the platform token from env.
+export const createTwilioSignatureValidator = ({ getAuthTokens, publicBaseUrl, enabled = true }) => {
+    if (!enabled) {
+        console.warn('⚠️ Twilio signature validation is DISABLED (TWILIO_VALIDATE_SIGNATURES=false). Never do this in production.');
+        return (req, res, next) => {
+            req.twilioAccountSid = null;
+            next();
+        };
+    }
+
+    return async (req, res, next) => {
+        const signature = req.headers['x-twilio-signature'];
+        if (!signature) {
+            console.error('[Twilio] Missing signature on', req.originalUrl);
+            return res.status(403).send('Forbidden');
+        }
+
+        try {
+            const url = getWebhookUrl(req, publicBaseUrl);
+            const params = req.body || {};
+            const tokens = await getAuthTokens(params.AccountSid);
+
+            if (tokens.some(token => twilio.validateRequest(token, signature, url, params))) {
+                req.twilioAccountSid = params.AccountSid || '';
+                return next();
+            }
+
+            console.error(`[Twilio] Invalid signature for ${url} (account ${params.AccountSid || 'unknown'})`);
+            res.status(403).send('Forbidden');
+        } catch (err) {
+            console.error('[Twilio] Signature validation error:', err);
+            res.status(500).send('Signature validation failed');
+        }
+    };
+};
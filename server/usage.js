@@ -0,0 +1,41 @@
+// ===== USAGE METERING =====
+// Every completed call is written once to usage_ledger (keyed by CallSid) by the record_call_usage
+// Postgres function, which also increments businesses.minutes_used atomically. minutes_used is a
+// fast running total for limit checks; the ledger is the auditable source of truth.
+
+export const billableMinutes = (durationSeconds) => Math.ceil(Math.max(Number(durationSeconds) || 0, 0) / 60);
+
+// Returns { recorded: true, minutesUsed } or { recorded: false } when the CallSid was already billed
+export const recordCallUsage = async (supabase, { businessId, callSid, durationSeconds }) => {
+    const { data, error } = await supabase.rpc('record_call_usage', {
+        p_business_id: businessId,
+        p_call_sid: callSid,
+        p_duration_seconds: Math.max(parseInt(durationSeconds) || 0, 0)
+    });
+
+    if (error) throw error;
+    if (data === null) return { recorded: false };
+    return { recorded: true, minutesUsed: Number(data) };
+};
+
+// Minutes billed in the current period according to the ledger
+export const getPeriodUsage = async (supabase, businessId) => {
+    const { data, error } = await supabase.rpc('business_period_usage', { p_business_id: businessId });
+    if (error) throw error;
+    return Number(data) || 0;
+};
+
+// Ledger rows for the current period, newest first
+export const listPeriodUsage = async (supabase, business) => {
+    let query = supabase
+        .from('usage_ledger')
+        .select('call_sid, duration_seconds, minutes, recorded_at')
+        .eq('business_id', business.id)
+        .order('recorded_at', { ascending: false });
+
+    if (business.current_period_start) query = query.gte('recorded_at', business.current_period_start);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+};
@@ -0,0 +1,71 @@
+// ===== USAGE LIMITS & ALERTS =====
+// businesses.usage_settings: { limitAction: 'block' | 'voicemail' | 'grace', alertThresholds: [50, 80, 100] }
+// What happens to new calls once minutes_used reaches minutes_limit:
+//   block     - callers hear a short message and the call ends
+//   voicemail - callers can leave a voicemail (no AI minutes used)
+//   grace     - the AI keeps answering for the plan's overage allowance, then voicemail
+// Alert emails go out once per threshold per billing period (usage_alerts has a unique row for each).
+
+export const LIMIT_ACTIONS = ['block', 'voicemail', 'grace'];
+export const ALERT_THRESHOLDS = [50, 80, 100];
+
+export const DEFAULT_USAGE_SETTINGS = { limitAction: 'voicemail', alertThresholds: ALERT_THRESHOLDS };
+
+export const getUsageSettings = (business) => ({ ...DEFAULT_USAGE_SETTINGS, ...(business.usage_settings || {}) });
+
+export const validateUsageSettings = (settings) => {
+    if (!settings || typeof settings !== 'object') return 'Usage settings are required';
+
+    const { limitAction, alertThresholds } = settings;
+    if (!LIMIT_ACTIONS.includes(limitAction)) return `Limit action must be one of: ${LIMIT_ACTIONS.join(', ')}`;
+    if (!Array.isArray(alertThresholds)) return 'Alert thresholds must be a list';
+    for (const threshold of alertThresholds) {
+        if (!ALERT_THRESHOLDS.includes(threshold)) return `Alert thresholds must be chosen from ${ALERT_THRESHOLDS.join(', ')}`;
+    }
+    return null;
+};
+
+// Decides how to answer a new call: 'allow', 'grace' (over the limit, inside the overage allowance),
+// 'voicemail' or 'block'
+export const getLimitDecision = ({ used, limit, overageMinutes = 0, limitAction }) => {
+    if (used < limit) return 'allow';
+    if (limitAction === 'block') return 'block';
+    if (limitAction === 'grace' && used < limit + overageMinutes) return 'grace';
+    return 'voicemail';
+};
+
+// Thresholds (percent of the limit) that usage has reached
+export const reachedThresholds = (used, limit, thresholds) =>
+    limit > 0 ? thresholds.filter(threshold => used >= (limit * threshold) / 100) : [];
+
+// Sends each reached, enabled threshold alert once per period.
+// notify(threshold) should send the email; a claimed alert is released if it fails so the next call retries.
+export const checkUsageAlerts = async (supabase, business, minutesUsed, notify) => {
+    const { alertThresholds } = getUsageSettings(business);
+    const sent = [];
+
+    for (const threshold of reachedThresholds(minutesUsed, business.minutes_limit, alertThresholds)) {
+        const alert = {
+            business_id: business.id,
+            period_start: business.current_period_start,
+            threshold
+        };
+
+        const { error } = await supabase.from('usage_alerts').insert(alert);
+        if (error?.code === '23505') continue;
+        if (error) throw error;
+
+        try {
+            await notify(threshold);
+            sent.push(threshold);
+        } catch (err) {
+            const release = supabase.from('usage_alerts').delete().eq('business_id', business.id).eq('threshold', threshold);
+            await (business.current_period_start
+                ? release.eq('period_start', business.current_period_start)
+                : release.is('period_start', null));
+            throw err;
+        }
+    }
+
+    return sent;
+};
@@ -0,0 +1,40 @@
+// ===== VOICEMAIL =====
+// Recording metadata arrives from Twilio's recordingStatusCallback and transcribeCallback
+// and is stored on the call_logs row for the CallSid.
+
+export const VOICEMAIL_MAX_SECONDS = 120;
+
+// Prompt the caller and record a voicemail.
+// action:                  /webhooks/twilio/voicemail (caller finished, say goodbye)
+// recordingStatusCallback: /webhooks/twilio/recording (final URL, SID and duration)
+// transcribeCallback:      /webhooks/twilio/transcription (text of the message)
+export const recordVoicemail = (twiml, callSid, prompt) => {
+    twiml.say({ voice: 'Polly.Joanna' }, prompt);
+    twiml.record({
+        action: `/webhooks/twilio/voicemail?call_sid=${callSid}`,
+        maxLength: VOICEMAIL_MAX_SECONDS,
+        playBeep: true,
+        recordingStatusCallback: `/webhooks/twilio/recording?call_sid=${callSid}`,
+        recordingStatusCallbackEvent: 'completed',
+        transcribe: true,
+        transcribeCallback: `/webhooks/twilio/transcription?call_sid=${callSid}`
+    });
+    twiml.hangup();
+};
+
+// --- Gemini function calling ---
+
+export const voicemailFunctions = [
+    {
+        name: 'leave_voicemail',
+        description: 'Send the caller to voicemail when they ask to leave a recorded message.'
+    }
+];
+
+// onRequest is called when the caller asks for voicemail; the webhook then answers with <Record>
+export const createVoicemailToolHandlers = (onRequest) => ({
+    leave_voicemail: async () => {
+        onRequest();
+        return { recording: true, instruction: 'Tell the caller to leave their message after the beep.' };
+    }
+});
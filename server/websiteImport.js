@@ -0,0 +1,448 @@
+import { lookup as dnsLookup } from 'dns';
+import { lookup } from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+import { Readable } from 'stream';
+import { validateWeekly } from './schedule.js';
+
+// ===== WEBSITE IMPORT =====
+// Optional onboarding step: crawl the owner's website (the given page plus same-site links, robots.txt
+// respected) and propose a business name, services, working hours, FAQs and a greeting. Nothing is saved
+// here; the owner reviews the proposal and /api/setup stores whatever they keep.
+// Only public hosts are fetched: addresses are checked when the connection is made (not just before),
+// so a host cannot pass the check and then resolve to the server's own network (DNS rebinding).
+
+export class WebsiteImportError extends Error {}
+
+const MAX_PAGES = 8;
+const MAX_PAGE_BYTES = 512 * 1024;
+const MAX_REDIRECTS = 3;
+const REQUEST_TIMEOUT_MS = 8000;
+const USER_AGENT = 'SmartReceptionImporter/1.0';
+
+// Pages likely to describe services, hours or FAQs are crawled first
+const USEFUL_PATH = /service|menu|pric|treatment|offer|faq|question|hour|contact|about|visit/i;
+const SERVICES_PAGE = /service|menu|pric|treatment|offer|what-we-do/i;
+
+// --- Fetching ---
+
+const PRIVATE_NETWORKS = new BlockList();
+// Private, shared, loopback, link-local, benchmarking, documentation, multicast and reserved ranges
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+    ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+    ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+]) {
+    PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+// NAT64 (64:ff9b::/96) can reach any IPv4 address, private ones included
+for (const [network, prefix] of [
+    ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001:db8::', 32],
+    ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+]) {
+    PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+export const isPrivateAddress = (address) => {
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    const ip = mapped ? mapped[1] : address;
+    return PRIVATE_NETWORKS.check(ip, isIP(ip) === 6 ? 'ipv6' : 'ipv4');
+};
+
+const assertPublicHost = async (url) => {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true }).catch(() => []);
+    if (addresses.length === 0) throw new WebsiteImportError(`Could not find ${url.hostname}`);
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+        throw new WebsiteImportError(`${url.hostname} is not a public website`);
+    }
+};
+
+// dns.lookup for http(s).request that refuses private addresses, so the address checked is the one connected to
+export const publicLookup = (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) return callback(err);
+        if (addresses.some(({ address }) => isPrivateAddress(address))) {
+            return callback(new WebsiteImportError(`${hostname} is not a public website`));
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+// Minimal fetch (GET, no redirects) over http(s) with publicLookup. IP literals skip DNS, so assertPublicHost
+// still checks those before every request.
+export const publicFetch = (url, { headers, signal } = {}) => new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).get(url, { headers, signal, lookup: publicLookup }, (res) => {
+        try {
+            const responseHeaders = new Headers();
+            for (const [name, value] of Object.entries(res.headers)) {
+                [].concat(value).forEach(item => responseHeaders.append(name, item));
+            }
+            const body = NULL_BODY_STATUSES.includes(res.statusCode) ? null : Readable.toWeb(res);
+            resolve(new Response(body, { status: res.statusCode, headers: responseHeaders }));
+        } catch (err) {
+            res.destroy();
+            reject(err);
+        }
+    });
+    request.on('error', reject);
+});
+
+export const normalizeUrl = (input) => {
+    const text = String(input || '').trim();
+    if (!text) throw new WebsiteImportError('A website address is required');
+
+    let url;
+    try {
+        url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(text) ? text : `https://${text}`);
+    } catch {
+        throw new WebsiteImportError('That does not look like a website address');
+    }
+    if (!['http:', 'https:'].includes(url.protocol)) throw new WebsiteImportError('Only http and https websites can be imported');
+    url.hash = '';
+    return url;
+};
+
+// Reads at most maxBytes of the body; larger pages are truncated
+const readText = async (res, maxBytes) => {
+    const reader = res.body.getReader();
+    const chunks = [];
+    let total = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        total += value.length;
+        if (total >= maxBytes) {
+            await reader.cancel();
+            break;
+        }
+    }
+    return Buffer.concat(chunks).toString('utf8').slice(0, maxBytes);
+};
+
+// GET with redirects followed by hand so every hop is checked. Returns { url, contentType, body } or null on 404 etc.
+const fetchPage = async (startUrl, { fetch, allowPrivateNetwork, timeoutMs }) => {
+    let url = startUrl;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        if (!allowPrivateNetwork) await assertPublicHost(url);
+
+        const res = await fetch(url, {
+            redirect: 'manual',
+            headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,text/plain;q=0.8' },
+            signal: AbortSignal.timeout(timeoutMs)
+        });
+
+        if (res.status >= 300 && res.status < 400 && res.headers.get('location')) {
+            await res.body?.cancel();
+            url = new URL(res.headers.get('location'), url);
+            if (!['http:', 'https:'].includes(url.protocol)) return null;
+            continue;
+        }
+        if (!res.ok) {
+            await res.body?.cancel();
+            return null;
+        }
+        return { url, contentType: res.headers.get('content-type') || '', body: await readText(res, MAX_PAGE_BYTES) };
+    }
+    return null;
+};
+
+// Disallow rules that apply to every crawler ("User-agent: *")
+export const parseRobots = (text) => {
+    const disallowed = [];
+    let applies = false;
+    let inGroup = false;
+    for (const line of String(text).split('\n')) {
+        const [field, ...rest] = line.replace(/#.*/, '').split(':');
+        const key = field.trim().toLowerCase();
+        const value = rest.join(':').trim();
+        if (key === 'user-agent') {
+            if (!inGroup) applies = false;
+            inGroup = true;
+            if (value === '*') applies = true;
+        } else if (key) {
+            inGroup = false;
+            if (key === 'disallow' && applies && value) disallowed.push(value);
+        }
+    }
+    return disallowed;
+};
+
+// --- HTML ---
+
+const ENTITIES = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+    lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', hellip: '…', copy: '©', reg: '®', trade: '™'
+};
+
+export const decodeEntities = (text) => text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, code) => {
+    if (code[0] === '#') {
+        const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+});
+
+const toText = (html) => decodeEntities(html
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<\/t[dh]>/gi, ' ')
+    .replace(/<[^>]+>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const metaContent = (html, name) => {
+    const tag = html.match(new RegExp(`<meta[^>]+(?:name|property)=["']${name}["'][^>]*>`, 'i'))?.[0];
+    return tag ? decodeEntities(tag.match(/content=["']([^"']*)["']/i)?.[1] || '').trim() : '';
+};
+
+// Title, description, same-document links and the readable blocks of a page in document order
+export const parseHtml = (html, pageUrl) => {
+    const body = html
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<(script|style|noscript|svg|template|iframe)\b[\s\S]*?<\/\1>/gi, '');
+
+    const links = [];
+    for (const [, href] of body.matchAll(/<a\b[^>]*\bhref=["']([^"']+)["']/gi)) {
+        try {
+            const url = new URL(decodeEntities(href), pageUrl);
+            url.hash = '';
+            if (['http:', 'https:'].includes(url.protocol)) links.push(url);
+        } catch {
+            // Malformed links are ignored
+        }
+    }
+
+    const blocks = [];
+    for (const [, tag, inner] of body.matchAll(/<(h[1-6]|p|li|dt|dd|tr|summary|address)\b[^>]*>([\s\S]*?)<\/\1>/gi)) {
+        const text = toText(inner);
+        if (text) blocks.push({ tag: tag.toLowerCase(), text });
+    }
+
+    return {
+        title: toText(body.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || ''),
+        siteName: metaContent(body, 'og:site_name'),
+        description: metaContent(body, 'description') || metaContent(body, 'og:description'),
+        links,
+        blocks
+    };
+};
+
+// --- Crawling ---
+
+const sameSite = (a, b) => a.hostname.replace(/^www\./, '') === b.hostname.replace(/^www\./, '') && a.protocol === b.protocol;
+
+// Pages of the site, breadth first from startUrl: [{ url, title, siteName, description, blocks }]
+// fetch defaults to publicFetch unless private networks are allowed (tests against a local server)
+export const crawlSite = async (input, {
+    allowPrivateNetwork = false,
+    fetch = allowPrivateNetwork ? globalThis.fetch : publicFetch,
+    maxPages = MAX_PAGES,
+    timeoutMs = REQUEST_TIMEOUT_MS
+} = {}) => {
+    const start = normalizeUrl(input);
+    const options = { fetch, allowPrivateNetwork, timeoutMs };
+
+    const robots = await fetchPage(new URL('/robots.txt', start), options).catch(() => null);
+    const disallowed = robots ? parseRobots(robots.body) : [];
+    const isAllowed = (url) => !disallowed.some(prefix => url.pathname.startsWith(prefix));
+
+    const pages = [];
+    const seen = new Set([start.href]);
+    const crawled = new Set();
+    const queue = [start];
+
+    while (queue.length && pages.length < maxPages) {
+        const url = queue.shift();
+        if (!isAllowed(url)) continue;
+
+        let page;
+        try {
+            page = await fetchPage(url, options);
+        } catch (err) {
+            if (url === start) {
+                throw err instanceof WebsiteImportError ? err : new WebsiteImportError(`Could not load ${start.href}: ${err.message}`);
+            }
+            continue;
+        }
+        if (!page || !/html/i.test(page.contentType)) {
+            if (url === start) throw new WebsiteImportError(`Could not load ${start.href}`);
+            continue;
+        }
+
+        // Redirects can land on a page that was already crawled
+        if (crawled.has(page.url.href)) continue;
+        crawled.add(page.url.href);
+        seen.add(page.url.href);
+
+        const parsed = parseHtml(page.body, page.url);
+        pages.push({ url: page.url.href, title: parsed.title, siteName: parsed.siteName, description: parsed.description, blocks: parsed.blocks });
+
+        const next = parsed.links.filter(link => sameSite(link, start) && !seen.has(link.href));
+        next.forEach(link => seen.add(link.href));
+        queue.push(...next);
+        queue.sort((a, b) => USEFUL_PATH.test(b.pathname) - USEFUL_PATH.test(a.pathname));
+    }
+
+    return pages;
+};
+
+// --- Proposal ---
+
+const DAY = '\\b(?:mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)\\b\\.?';
+const DAY_SPEC = `${DAY}(?:\\s*(?:-|–|—|to|through|thru|&|and|,)\\s*${DAY})*`;
+const TIME = '\\d{1,2}(?:[:.]\\d{2})?\\s*(?:[ap]\\.?m\\.?)?';
+const HOURS_PATTERN = new RegExp(`(${DAY_SPEC})\\s*:?\\s*(?:from\\s+)?(?:(${TIME})\\s*(?:-|–|—|to|until)\\s*(${TIME})|(closed))`, 'gi');
+const DAY_INDEX = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
+
+// 'Mon - Wed & Fri' -> [1, 2, 3, 5]
+const parseDays = (spec) => {
+    const tokens = [...spec.matchAll(new RegExp(DAY, 'gi'))].map(m => ({ day: DAY_INDEX[m[0].slice(0, 3).toLowerCase()], end: m.index + m[0].length, start: m.index }));
+    const days = [];
+    tokens.forEach((token, i) => {
+        const previous = tokens[i - 1];
+        if (previous && /-|–|—|to|thr/i.test(spec.slice(previous.end, token.start))) {
+            for (let day = (previous.day + 1) % 7; day !== token.day; day = (day + 1) % 7) days.push(day);
+        }
+        days.push(token.day);
+    });
+    return [...new Set(days)];
+};
+
+const parseTime = (text) => {
+    const [, h, m = '00', meridiem] = text.match(/(\d{1,2})(?:[:.](\d{2}))?\s*([ap])?/i);
+    return { hour: Number(h), minute: Number(m), meridiem: meridiem?.toLowerCase() || null };
+};
+
+const to24h = ({ hour, minute }, meridiem) => {
+    const h = meridiem === 'p' ? (hour % 12) + 12 : meridiem === 'a' ? hour % 12 : hour;
+    return `${String(h).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+// '9-5pm', '11-2pm', '9am - 5:30pm', '17:00-21:00' -> { start: 'HH:MM', end: 'HH:MM' }
+const parseRange = (startText, endText) => {
+    const start = parseTime(startText);
+    const end = parseTime(endText);
+    const flip = (meridiem) => (meridiem === 'a' ? 'p' : 'a');
+
+    let range;
+    if (start.meridiem && end.meridiem) {
+        range = { start: to24h(start, start.meridiem), end: to24h(end, end.meridiem) };
+    } else if (end.meridiem) {
+        // The start shares the end's am/pm unless that would put it after the end
+        const endTime = to24h(end, end.meridiem);
+        const startTime = to24h(start, end.meridiem);
+        range = { start: startTime < endTime ? startTime : to24h(start, flip(end.meridiem)), end: endTime };
+    } else if (start.meridiem) {
+        const startTime = to24h(start, start.meridiem);
+        const endTime = to24h(end, start.meridiem);
+        range = { start: startTime, end: endTime > startTime ? endTime : to24h(end, flip(start.meridiem)) };
+    } else {
+        // 24-hour times, or '9-5' with no am/pm anywhere
+        range = { start: to24h(start), end: to24h(end) };
+        if (range.end <= range.start && end.hour > 0 && end.hour < 12) range.end = to24h({ hour: end.hour + 12, minute: end.minute });
+    }
+    // Open until midnight
+    return range.end === '00:00' ? { ...range, end: '23:59' } : range;
+};
+
+// Weekly ranges from text like 'Mon–Fri 9am–5pm, Sat 10am–2pm, Sun closed'. Returns { weekly, lines } or null.
+export const parseOpeningHours = (texts) => {
+    const weekly = {};
+    const lines = [];
+    for (const text of texts) {
+        let found = false;
+        for (const match of text.matchAll(HOURS_PATTERN)) {
+            const [, daySpec, startText, endText, closed] = match;
+            const days = parseDays(daySpec);
+            for (const day of days) {
+                if (closed) weekly[day] = [];
+                else (weekly[day] ||= []).push(parseRange(startText, endText));
+            }
+            found = true;
+        }
+        if (found) lines.push(text);
+    }
+
+    for (const day of Object.keys(weekly)) if (weekly[day].length === 0) delete weekly[day];
+    if (Object.keys(weekly).length === 0 || validateWeekly(weekly)) return null;
+    return { weekly, lines: [...new Set(lines)] };
+};
+
+const isQuestion = (block) => ['h2', 'h3', 'h4', 'h5', 'h6', 'dt', 'summary', 'p'].includes(block.tag)
+    && block.text.endsWith('?') && block.text.length <= 200;
+
+// A question heading (or <dt>/<summary>) followed by its answer paragraphs
+export const extractFaqs = (pages) => {
+    const faqs = [];
+    const seen = new Set();
+    for (const { blocks } of pages) {
+        blocks.forEach((block, i) => {
+            if (!isQuestion(block) || seen.has(block.text.toLowerCase())) return;
+
+            const answer = [];
+            for (const next of blocks.slice(i + 1, i + 4)) {
+                if (isQuestion(next) || /^h[1-6]$/.test(next.tag) || !['p', 'dd', 'li'].includes(next.tag)) break;
+                answer.push(next.text);
+            }
+            if (answer.length === 0) return;
+
+            seen.add(block.text.toLowerCase());
+            faqs.push({ question: block.text, answer: answer.join(' ').slice(0, 1000) });
+        });
+    }
+    return faqs.slice(0, 20);
+};
+
+const extractServices = (pages) => {
+    const items = [];
+    for (const page of pages.filter(p => SERVICES_PAGE.test(new URL(p.url).pathname) || SERVICES_PAGE.test(p.title))) {
+        for (const block of page.blocks) {
+            if (!['li', 'h2', 'h3', 'dt'].includes(block.tag) || block.text.endsWith('?')) continue;
+            if (block.text.length < 3 || block.text.length > 150) continue;
+            items.push(block.text);
+        }
+    }
+    return [...new Set(items)].slice(0, 25);
+};
+
+const siteNameFrom = (home) => home.siteName
+    || home.title.split(/\s[|–—-]\s/)[0].trim()
+    || home.blocks.find(block => block.tag === 'h1')?.text
+    || '';
+
+// Suggested onboarding values: { name, services, greeting, weekly, hoursText, faqs }; empty values were not found
+export const proposeProfile = (pages) => {
+    const [home] = pages;
+    const name = home ? siteNameFrom(home) : '';
+
+    const serviceItems = extractServices(pages);
+    const description = home?.description || '';
+    const services = serviceItems.length
+        ? [description, serviceItems.map(item => `- ${item}`).join('\n')].filter(Boolean).join('\n\n')
+        : description;
+
+    const hours = parseOpeningHours(pages.flatMap(page => page.blocks.map(block => block.text)));
+
+    return {
+        name,
+        services,
+        greeting: name ? `Thank you for calling ${name}. How can I help you today?` : '',
+        weekly: hours?.weekly || null,
+        hoursText: hours?.lines.join('\n') || '',
+        faqs: extractFaqs(pages)
+    };
+};
+
+// Crawl + proposal, for the onboarding endpoint
+export const importWebsite = async (url, options) => {
+    const pages = await crawlSite(url, options);
+    return {
+        proposal: proposeProfile(pages),
+        pages: pages.map(page => ({ url: page.url, title: page.title }))
+    };
+};
@@ -0,0 +1,23 @@
+-- Admin payment actions: reject, refund and downgrade.
+-- payment_requests.status is now 'pending', 'approved', 'rejected' or 'refunded'.
+alter table payment_requests add column if not exists status_reason text;
+alter table payment_requests add column if not exists refund_reference text; -- card provider refund id
+
+alter table invoices add column if not exists refunded_at timestamp with time zone;
+
+-- Every admin action, newest first in AdminView. actor identifies the admin who did it.
+create table if not exists admin_audit_log (
+  id uuid default uuid_generate_v4() primary key,
+  actor text not null,
+  action text not null, -- one of ADMIN_ACTIONS in server/payments/admin.js
+  payment_request_id uuid references payment_requests,
+  business_id uuid references businesses,
+  details jsonb not null default '{}',
+  created_at timestamp with time zone default now()
+);
+
+create index if not exists admin_audit_log_created_at_idx on admin_audit_log (created_at desc);
+create index if not exists admin_audit_log_payment_request_idx on admin_audit_log (payment_request_id);
+
+-- Only the server (service role) reads or writes the audit log
+alter table admin_audit_log enable row level security;
@@ -0,0 +1,16 @@
+-- Admin console access. A user is an admin if their JWT has app_metadata.role = 'support' | 'admin'
+-- or they have a row here. 'support' can view the console; 'admin' can also approve, reject,
+-- refund and downgrade.
+create table if not exists admin_users (
+  user_id uuid references auth.users on delete cascade primary key,
+  role text not null check (role in ('support', 'admin')),
+  created_at timestamp with time zone default now()
+);
+
+-- Only the server (service role) reads admin_users; nobody can grant themselves a role
+alter table admin_users enable row level security;
+
+-- Grant access (run in the SQL editor):
+--   insert into admin_users (user_id, role)
+--   select id, 'admin' from auth.users where email = 'you@example.com'
+--   on conflict (user_id) do update set role = excluded.role;
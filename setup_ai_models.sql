@@ -0,0 +1,3 @@
+-- AI model chosen by the owner, as '<provider>:<model>' (e.g. 'openai:gpt-4o-mini').
+-- Null uses the platform default (LLM_DEFAULT_MODEL); unavailable choices fall back to it as well.
+alter table businesses add column if not exists ai_model text;
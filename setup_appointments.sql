@@ -0,0 +1,47 @@
+-- Weekly availability used for booking: { slotMinutes, weekly: { "1": [{ start: "09:00", end: "17:00" }] } }
+alter table businesses add column if not exists availability jsonb;
+
+-- Appointments booked from the dashboard, web chat or phone line
+create table if not exists appointments (
+  id uuid default uuid_generate_v4() primary key,
+  business_id uuid references businesses not null,
+  user_id uuid references auth.users not null,
+  customer_name text not null,
+  customer_phone text,
+  service text,
+  notes text,
+  date date not null, -- business local date
+  start_time time not null, -- business local time
+  end_time time not null,
+  status text default 'booked', -- 'booked', 'cancelled'
+  source text default 'dashboard', -- 'dashboard', 'chat', 'voice'
+  call_sid text,
+  created_at timestamp with time zone default now()
+);
+
+-- Enable RLS
+alter table appointments enable row level security;
+
+-- Policy: Owners can view their appointments
+create policy "Users can view own appointments"
+  on appointments for select
+  using (auth.uid() = user_id);
+
+-- Policy: Owners can book appointments (dashboard and authenticated chat)
+create policy "Users can insert own appointments"
+  on appointments for insert
+  with check (auth.uid() = user_id);
+
+-- Policy: Owners can cancel their appointments
+create policy "Users can update own appointments"
+  on appointments for update
+  using (auth.uid() = user_id);
+
+-- Phone bookings are written by the server with the service role key.
+
+-- Prevent double booking the same slot, even under concurrent requests
+create unique index if not exists appointments_slot_unique_idx
+  on appointments (business_id, date, start_time)
+  where status = 'booked';
+
+create index if not exists appointments_business_date_idx on appointments (business_id, date);
@@ -0,0 +1,82 @@
+-- Monthly billing periods. minutes_used counts usage between current_period_start and current_period_end.
+-- renewal_status: 'active' (paid through current_period_end) or 'expired' (ended unpaid, back on the free plan)
+alter table businesses add column if not exists current_period_start timestamp with time zone;
+alter table businesses add column if not exists current_period_end timestamp with time zone;
+alter table businesses add column if not exists renewal_status text default 'active';
+
+create index if not exists businesses_current_period_end_idx on businesses (current_period_end);
+
+-- Usage of every finished period, archived by the server's rollover job before minutes_used is reset
+create table if not exists usage_periods (
+  id uuid default uuid_generate_v4() primary key,
+  business_id uuid references businesses not null,
+  plan text not null,
+  period_start timestamp with time zone not null,
+  period_end timestamp with time zone not null,
+  minutes_used numeric not null default 0,
+  minutes_limit numeric,
+  created_at timestamp with time zone default now(),
+  unique (business_id, period_start)
+);
+
+-- Enable RLS
+alter table usage_periods enable row level security;
+
+-- Policy: Owners can view their usage history (rows are written with the service role key)
+create policy "Users can view own usage periods"
+  on usage_periods for select
+  using (business_id in (select id from businesses where user_id = auth.uid()));
+
+-- Archives the current period and starts the next one in one transaction. The business row is locked first,
+-- so minutes recorded concurrently by record_call_usage land in either the archived period or the new one.
+-- Pass null for plan / limit / renewal status to keep them. p_expected_period_end: only roll over when
+-- current_period_end still has this value (null skips the check). Returns false when nothing was changed.
+create or replace function start_usage_period(
+  p_business_id uuid,
+  p_archive_end timestamp with time zone,
+  p_expected_period_end timestamp with time zone,
+  p_period_start timestamp with time zone,
+  p_period_end timestamp with time zone,
+  p_plan text,
+  p_minutes_limit numeric,
+  p_renewal_status text
+)
+returns boolean
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_business businesses%rowtype;
+begin
+  select * into v_business from businesses where id = p_business_id for update;
+
+  if not found then
+    return false;
+  end if;
+  if p_expected_period_end is not null and v_business.current_period_end is distinct from p_expected_period_end then
+    return false;
+  end if;
+
+  if v_business.current_period_start is not null then
+    insert into usage_periods (business_id, plan, period_start, period_end, minutes_used, minutes_limit)
+    values (p_business_id, coalesce(v_business.subscription_plan, 'free'), v_business.current_period_start,
+            p_archive_end, coalesce(v_business.minutes_used, 0), v_business.minutes_limit)
+    on conflict (business_id, period_start) do nothing;
+  end if;
+
+  update businesses
+  set minutes_used = 0,
+      current_period_start = p_period_start,
+      current_period_end = p_period_end,
+      subscription_plan = coalesce(p_plan, subscription_plan),
+      minutes_limit = coalesce(p_minutes_limit, minutes_limit),
+      renewal_status = coalesce(p_renewal_status, renewal_status)
+  where id = p_business_id;
+
+  return true;
+end;
+$$;
+
+-- Only the server's service client starts periods; owners must not be able to reset their own usage
+revoke execute on function start_usage_period(uuid, timestamp with time zone, timestamp with time zone, timestamp with time zone, timestamp with time zone, text, numeric, text) from public, anon, authenticated;
+grant execute on function start_usage_period(uuid, timestamp with time zone, timestamp with time zone, timestamp with time zone, timestamp with time zone, text, numeric, text) to service_role;
@@ -0,0 +1,34 @@
+-- Call logs written by the Twilio webhooks
+create table if not exists call_logs (
+  id uuid default uuid_generate_v4() primary key,
+  business_id uuid references businesses not null,
+  user_id uuid references auth.users not null,
+  call_sid text unique not null,
+  from_number text,
+  to_number text,
+  status text default 'ringing', -- Twilio CallStatus: 'ringing', 'in-progress', 'completed', 'no-answer', ...
+  duration integer default 0, -- seconds
+  transcript jsonb default '[]'::jsonb, -- [{ role: 'user' | 'assistant', content, at }]
+  created_at timestamp with time zone default now()
+);
+
+-- Enable RLS
+alter table call_logs enable row level security;
+
+-- Policy: Owners can view their calls
+create policy "Users can view own call logs"
+  on call_logs for select
+  using (business_id in (select id from businesses where user_id = auth.uid()));
+
+-- Rows are written by the Twilio webhooks with the service role key.
+
+-- Indexes for the call history list (newest first per business)
+create index if not exists call_logs_business_created_idx on call_logs (business_id, created_at desc);
+create index if not exists call_logs_status_idx on call_logs (status);
+
+-- Voicemail recordings left through the <Record> verb
+alter table call_logs add column if not exists recording_url text;
+alter table call_logs add column if not exists recording_duration integer;
+alter table call_logs add column if not exists recording_sid text;
+alter table call_logs add column if not exists recording_status text; -- 'processing', 'completed', 'failed'
+alter table call_logs add column if not exists voicemail_transcript text;
@@ -0,0 +1,9 @@
+-- Twilio credentials are encrypted by the server (AES-256-GCM, CREDENTIALS_ENCRYPTION_KEY) before storage.
+-- twilio_account_sid / twilio_auth_token hold "enc:v1:..." values; the hash is a keyed HMAC of the SID
+-- so webhooks can find the business that owns an AccountSid without decrypting every row.
+alter table businesses add column if not exists twilio_account_sid_hash text;
+
+create index if not exists businesses_twilio_account_sid_hash_idx on businesses (twilio_account_sid_hash);
+
+-- Existing plaintext rows: run `node server/migrate_credentials.js` with SUPABASE_SERVICE_ROLE_KEY
+-- and CREDENTIALS_ENCRYPTION_KEY set. The server keeps reading plaintext rows until they are migrated.
@@ -0,0 +1,27 @@
+-- Invoices for approved payments. invoice_number is a single sequence across all businesses
+-- (shown as INV-000042); one invoice per payment request.
+create table if not exists invoices (
+  id uuid default uuid_generate_v4() primary key,
+  invoice_number bigint generated by default as identity unique,
+  payment_request_id uuid references payment_requests unique,
+  business_id uuid references businesses not null,
+  business_name text,
+  email text,
+  plan text not null,
+  plan_name text,
+  amount numeric not null,
+  currency text not null default 'USD',
+  payment_method text not null,
+  payment_reference text,
+  issued_at timestamp with time zone default now(),
+  emailed_at timestamp with time zone
+);
+
+create index if not exists invoices_business_id_idx on invoices (business_id, issued_at desc);
+
+-- Owners can read their invoices; only the server (service role) issues them
+alter table invoices enable row level security;
+
+create policy "Users can view own invoices"
+  on invoices for select
+  using (business_id in (select id from businesses where user_id = auth.uid()));
@@ -0,0 +1,74 @@
+-- Per-business knowledge base: uploaded documents split into passages with embeddings.
+-- Requires pgvector (Database > Extensions > vector in the Supabase dashboard, or the line below).
+create extension if not exists vector;
+
+create table if not exists knowledge_documents (
+  id uuid default uuid_generate_v4() primary key,
+  business_id uuid references businesses on delete cascade not null,
+  title text not null,
+  source_type text not null, -- 'faq', 'text', 'markdown' or 'pdf'
+  char_count integer not null default 0,
+  chunk_count integer not null default 0,
+  created_at timestamp with time zone default now()
+);
+
+create index if not exists knowledge_documents_business_idx on knowledge_documents (business_id, created_at desc);
+
+create table if not exists knowledge_chunks (
+  id uuid default uuid_generate_v4() primary key,
+  document_id uuid references knowledge_documents on delete cascade not null,
+  business_id uuid references businesses on delete cascade not null,
+  position integer not null,
+  content text not null,
+  embedding vector(768) not null,
+  embedding_model text not null, -- e.g. 'gemini:text-embedding-004'; only vectors from the same model are compared
+  created_at timestamp with time zone default now()
+);
+
+create index if not exists knowledge_chunks_business_idx on knowledge_chunks (business_id);
+create index if not exists knowledge_chunks_embedding_idx on knowledge_chunks using hnsw (embedding vector_cosine_ops);
+
+-- Enable RLS
+alter table knowledge_documents enable row level security;
+alter table knowledge_chunks enable row level security;
+
+-- Policy: Owners manage their own business's knowledge base (the server writes with the user's token)
+create policy "Users can view own knowledge documents"
+  on knowledge_documents for select
+  using (business_id in (select id from businesses where user_id = auth.uid()));
+
+create policy "Users can insert own knowledge documents"
+  on knowledge_documents for insert
+  with check (business_id in (select id from businesses where user_id = auth.uid()));
+
+create policy "Users can delete own knowledge documents"
+  on knowledge_documents for delete
+  using (business_id in (select id from businesses where user_id = auth.uid()));
+
+create policy "Users can view own knowledge chunks"
+  on knowledge_chunks for select
+  using (business_id in (select id from businesses where user_id = auth.uid()));
+
+create policy "Users can insert own knowledge chunks"
+  on knowledge_chunks for insert
+  with check (business_id in (select id from businesses where user_id = auth.uid()));
+
+-- Closest passages to a question embedding (cosine similarity, 1 = identical).
+-- Runs with the caller's rights, so RLS still limits owners to their own chunks; webhooks use the service key.
+create or replace function match_knowledge_chunks(
+  p_business_id uuid,
+  p_embedding vector(768),
+  p_model text,
+  p_limit integer default 4
+)
+returns table (id uuid, document_id uuid, title text, content text, similarity float)
+language sql stable
+as $$
+  select c.id, c.document_id, d.title, c.content, 1 - (c.embedding <=> p_embedding) as similarity
+  from knowledge_chunks c
+  join knowledge_documents d on d.id = c.document_id
+  where c.business_id = p_business_id
+    and c.embedding_model = p_model
+  order by c.embedding <=> p_embedding
+  limit p_limit;
+$$;
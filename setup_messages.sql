@@ -0,0 +1,40 @@
+-- Where owner notifications (new messages, etc.) are sent. Set from the account email at onboarding.
+alter table businesses add column if not exists notification_email text;
+
+-- Messages and leads captured by the AI receptionist
+create table if not exists messages (
+  id uuid default uuid_generate_v4() primary key,
+  business_id uuid references businesses not null,
+  user_id uuid references auth.users not null,
+  caller_name text,
+  caller_phone text,
+  reason text not null,
+  urgency text default 'normal', -- 'low', 'normal', 'high'
+  status text default 'new', -- 'new', 'read', 'handled'
+  source text default 'chat', -- 'chat', 'voice'
+  call_sid text,
+  created_at timestamp with time zone default now()
+);
+
+-- Enable RLS
+alter table messages enable row level security;
+
+-- Policy: Owners can view their messages
+create policy "Users can view own messages"
+  on messages for select
+  using (auth.uid() = user_id);
+
+-- Policy: Messages taken in the authenticated web chat
+create policy "Users can insert own messages"
+  on messages for insert
+  with check (auth.uid() = user_id);
+
+-- Policy: Owners can mark messages as read or handled
+create policy "Users can update own messages"
+  on messages for update
+  using (auth.uid() = user_id);
+
+-- Phone messages are written by the server with the service role key.
+
+create index if not exists messages_business_created_idx on messages (business_id, created_at desc);
+create index if not exists messages_status_idx on messages (status);
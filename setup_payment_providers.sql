@@ -0,0 +1,21 @@
+-- Card checkout: the provider's session id links a payment_requests row to its webhook events.
+-- payment_method is the provider id ('stripe', 'mock') for card payments, or 'payoneer' / 'nayapay' for manual ones.
+alter table payment_requests add column if not exists provider_session_id text;
+
+create unique index if not exists payment_requests_provider_session_idx
+  on payment_requests (payment_method, provider_session_id)
+  where provider_session_id is not null;
+
+-- Webhook events already handled, so provider retries never apply a payment twice
+create table if not exists payment_events (
+  id uuid default uuid_generate_v4() primary key,
+  provider text not null,
+  event_id text not null,
+  type text not null,
+  session_id text,
+  created_at timestamp with time zone default now(),
+  unique (provider, event_id)
+);
+
+-- Only the server (service role) touches payment_events
+alter table payment_events enable row level security;
@@ -0,0 +1,26 @@
+-- Business profile edits made after onboarding (name, services, tone, greeting, working hours).
+-- previous / changes hold only the columns that changed, so any entry can be reverted.
+create table if not exists profile_history (
+  id uuid default uuid_generate_v4() primary key,
+  business_id uuid references businesses on delete cascade not null,
+  changed_by uuid references auth.users,
+  source text not null default 'edit', -- 'edit' or 'revert'
+  revert_of uuid references profile_history on delete set null,
+  previous jsonb not null,
+  changes jsonb not null,
+  created_at timestamp with time zone default now()
+);
+
+create index if not exists profile_history_business_created_idx on profile_history (business_id, created_at desc);
+
+-- Enable RLS
+alter table profile_history enable row level security;
+
+-- Policy: Owners can view and add history for their own business (the server writes with the user's token)
+create policy "Users can view own profile history"
+  on profile_history for select
+  using (business_id in (select id from businesses where user_id = auth.uid()));
+
+create policy "Users can insert own profile history"
+  on profile_history for insert
+  with check (business_id in (select id from businesses where user_id = auth.uid()));
@@ -0,0 +1,4 @@
+-- Owner additions to the receptionist prompt (see server/prompts.js):
+-- { instructions: text, channelInstructions: { chat?, voice?, sms? }, guardrails: [text] }
+-- Null uses the built-in templates only.
+alter table businesses add column if not exists prompt_settings jsonb;
@@ -0,0 +1,5 @@
+-- Structured working hours replacing the free-text working_hours column:
+-- { timezone, weekly: { "1": [{ start: "09:00", end: "17:00" }] }, holidays: [{ date, label }],
+--   afterHoursMode: 'message' | 'voicemail' | 'hangup', afterHoursGreeting }
+-- working_hours is still written with a readable summary for older clients.
+alter table businesses add column if not exists schedule jsonb;
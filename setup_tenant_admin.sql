@@ -0,0 +1,9 @@
+-- Admin tenant console: suspending a business makes the voice webhook refuse its calls.
+alter table businesses add column if not exists suspended_at timestamp with time zone;
+alter table businesses add column if not exists suspended_reason text;
+
+-- Tenant search in AdminView
+create index if not exists businesses_created_at_idx on businesses (created_at desc);
+
+-- admin_audit_log.action now also covers 'adjust_limit', 'change_plan', 'suspend', 'unsuspend', 'impersonate'
+-- and 'impersonate' (a support read-only "view as" of a business).
@@ -0,0 +1,5 @@
+-- Live transfer to staff: { forwardingNumber, ringGroup: ['+1555...'], timeoutSeconds }
+alter table businesses add column if not exists transfer_settings jsonb;
+
+-- Outcome of the last <Dial> on a call: 'dialing', 'completed', 'no-answer', 'busy', 'failed'
+alter table call_logs add column if not exists transfer_status text;
@@ -0,0 +1,4 @@
+-- Voice/status webhook config a number had before we managed it:
+-- { phoneNumberSid, voiceUrl, voiceMethod, statusCallback, statusCallbackMethod }
+-- Restored when the business disconnects Twilio or switches to another number.
+alter table businesses add column if not exists twilio_original_config jsonb;
@@ -0,0 +1,16 @@
+-- What happens when the monthly minutes run out, and which usage alerts to email:
+-- { limitAction: 'block' | 'voicemail' | 'grace', alertThresholds: [50, 80, 100] }
+alter table businesses add column if not exists usage_settings jsonb;
+
+-- One row per alert emailed, so each threshold is sent at most once per billing period
+create table if not exists usage_alerts (
+  id uuid default uuid_generate_v4() primary key,
+  business_id uuid references businesses not null,
+  period_start timestamp with time zone,
+  threshold integer not null, -- percent of minutes_limit
+  created_at timestamp with time zone default now(),
+  unique nulls not distinct (business_id, period_start, threshold)
+);
+
+-- Only the server (service role) touches usage_alerts
+alter table usage_alerts enable row level security;
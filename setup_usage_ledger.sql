@@ -0,0 +1,67 @@
+-- One row per billed call. call_sid is unique, so a retried status callback can never bill a call twice.
+create table if not exists usage_ledger (
+  id uuid default uuid_generate_v4() primary key,
+  business_id uuid references businesses not null,
+  call_sid text not null unique,
+  duration_seconds integer not null,
+  minutes integer not null, -- duration rounded up to whole minutes
+  recorded_at timestamp with time zone default now()
+);
+
+-- Enable RLS
+alter table usage_ledger enable row level security;
+
+-- Policy: Owners can audit their usage (rows are written by record_call_usage)
+create policy "Users can view own usage ledger"
+  on usage_ledger for select
+  using (business_id in (select id from businesses where user_id = auth.uid()));
+
+create index if not exists usage_ledger_business_recorded_idx on usage_ledger (business_id, recorded_at);
+
+-- Records a finished call and bumps businesses.minutes_used in the same transaction.
+-- Returns the new minutes_used, or null when the call was already recorded.
+create or replace function record_call_usage(p_business_id uuid, p_call_sid text, p_duration_seconds integer)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_minutes integer := ceil(greatest(p_duration_seconds, 0) / 60.0);
+  v_used numeric;
+begin
+  insert into usage_ledger (business_id, call_sid, duration_seconds, minutes)
+  values (p_business_id, p_call_sid, p_duration_seconds, v_minutes)
+  on conflict (call_sid) do nothing;
+
+  if not found then
+    return null;
+  end if;
+
+  -- Row-level increment: concurrent calls serialize on the business row instead of overwriting each other
+  update businesses
+  set minutes_used = coalesce(minutes_used, 0) + v_minutes
+  where id = p_business_id
+  returning minutes_used into v_used;
+
+  return v_used;
+end;
+$$;
+
+-- Only the server's service client records usage: as a security definer function it would otherwise be
+-- callable through PostgREST with the public anon key, for any business
+revoke execute on function record_call_usage(uuid, text, integer) from public, anon, authenticated;
+grant execute on function record_call_usage(uuid, text, integer) to service_role;
+
+-- Minutes billed in the business's current period, summed from the ledger (RLS applies to the caller)
+create or replace function business_period_usage(p_business_id uuid)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(sum(l.minutes), 0)
+  from usage_ledger l
+  join businesses b on b.id = l.business_id
+  where l.business_id = p_business_id
+    and (b.current_period_start is null or l.recorded_at >= b.current_period_start);
+$$;
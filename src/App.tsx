@@ -2,7 +2,7 @@ import { useState, useEffect, useRef } from 'react';
 import {
   Phone, MessageSquare, Mic, Settings, Send, MicOff,
   CheckCircle2, LayoutDashboard, LogOut, Globe, Sparkles, Lock, Mail, Menu, X, Clock,
-  PhoneOutgoing, CreditCard
+  PhoneOutgoing, CreditCard, History, CalendarDays, Inbox, Voicemail, PhoneOff, Download, BookOpen, Trash2, Search, ScrollText
 } from 'lucide-react';
 import { supabase } from './lib/supabase';
 
@@ -233,23 +233,290 @@ const authenticatedFetch = async (url: string, options: RequestInit = {}, retrie
 
 // --- Updated Sub-Components (Same UI, New Data Handling) ---
 
+// --- Working Hours ---
+
+interface TimeRange {
+  start: string;
+  end: string;
+}
+
+interface Holiday {
+  date: string;
+  label: string;
+}
+
+type AfterHoursMode = 'message' | 'voicemail' | 'hangup';
+
+interface Schedule {
+  timezone: string;
+  weekly: Record<string, TimeRange[]>;
+  holidays: Holiday[];
+  afterHoursMode: AfterHoursMode;
+  afterHoursGreeting: string;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const defaultSchedule = (): Schedule => ({
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  weekly: Object.fromEntries([1, 2, 3, 4, 5].map(d => [d, [{ start: '09:00', end: '17:00' }]])),
+  holidays: [],
+  afterHoursMode: 'message',
+  afterHoursGreeting: ''
+});
+
+const WeeklyHoursEditor: React.FC<{
+  weekly: Record<string, TimeRange[]>;
+  onChange: (weekly: Record<string, TimeRange[]>) => void;
+}> = ({ weekly, onChange }) => {
+  const updateDay = (weekday: number, range: TimeRange | null) => {
+    const next = { ...weekly };
+    if (range) next[weekday] = [range];
+    else delete next[weekday];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {WEEKDAYS.map((day, weekday) => {
+        const range = weekly[weekday]?.[0];
+        return (
+          <div key={day} className="flex items-center gap-3 text-sm">
+            <label className="w-32 flex items-center gap-2 text-slate-300">
+              <input
+                type="checkbox"
+                checked={!!range}
+                onChange={e => updateDay(weekday, e.target.checked ? { start: '09:00', end: '17:00' } : null)}
+              />
+              {day}
+            </label>
+            {range ? (
+              <>
+                <input type="time" value={range.start} onChange={e => updateDay(weekday, { ...range, start: e.target.value })} className="bg-slate-900 border border-slate-700 text-white rounded-lg px-2 py-1" />
+                <span className="text-slate-500">to</span>
+                <input type="time" value={range.end} onChange={e => updateDay(weekday, { ...range, end: e.target.value })} className="bg-slate-900 border border-slate-700 text-white rounded-lg px-2 py-1" />
+              </>
+            ) : (
+              <span className="text-slate-500">Closed</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const ScheduleEditor: React.FC<{ schedule: Schedule; onChange: (schedule: Schedule) => void; greetingLocked?: boolean }> = ({ schedule, onChange, greetingLocked }) => {
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayLabel, setHolidayLabel] = useState('');
+
+  const addHoliday = () => {
+    if (!holidayDate) return;
+    onChange({ ...schedule, holidays: [...schedule.holidays, { date: holidayDate, label: holidayLabel }] });
+    setHolidayDate('');
+    setHolidayLabel('');
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <label htmlFor="timezone" className="block text-slate-300 font-medium text-sm mb-2">Timezone</label>
+        <select
+          id="timezone"
+          className="w-full bg-slate-900 border border-slate-700 text-white rounded-xl p-3 text-sm outline-none focus:border-purple-500 transition"
+          value={schedule.timezone}
+          onChange={e => onChange({ ...schedule, timezone: e.target.value })}
+        >
+          {Intl.supportedValuesOf('timeZone').map(tz => <option key={tz} value={tz}>{tz}</option>)}
+        </select>
+      </div>
+
+      <div>
+        <p className="block text-slate-300 font-medium text-sm mb-2">Opening Hours</p>
+        <WeeklyHoursEditor weekly={schedule.weekly} onChange={weekly => onChange({ ...schedule, weekly })} />
+      </div>
+
+      <div>
+        <p className="block text-slate-300 font-medium text-sm mb-2">Holiday Closures</p>
+        <div className="space-y-1 mb-2">
+          {schedule.holidays.map((h, i) => (
+            <div key={`${h.date}-${i}`} className="flex items-center justify-between text-sm text-slate-300 bg-slate-900 rounded-lg px-3 py-1">
+              <span>{h.date}{h.label && ` · ${h.label}`}</span>
+              <button onClick={() => onChange({ ...schedule, holidays: schedule.holidays.filter((_, j) => j !== i) })}>
+                <X className="w-4 h-4 text-slate-500 hover:text-white" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input type="date" value={holidayDate} onChange={e => setHolidayDate(e.target.value)} className="bg-slate-900 border border-slate-700 text-white rounded-lg px-2 py-1 text-sm" />
+          <input placeholder="Label (optional)" value={holidayLabel} onChange={e => setHolidayLabel(e.target.value)} className="flex-1 bg-slate-900 border border-slate-700 text-white rounded-lg px-2 py-1 text-sm" />
+          <button onClick={addHoliday} className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm">Add</button>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="afterHoursMode" className="block text-slate-300 font-medium text-sm mb-2">When Closed</label>
+        <select
+          id="afterHoursMode"
+          className="w-full bg-slate-900 border border-slate-700 text-white rounded-xl p-3 text-sm outline-none focus:border-purple-500 transition"
+          value={schedule.afterHoursMode}
+          onChange={e => onChange({ ...schedule, afterHoursMode: e.target.value as AfterHoursMode })}
+        >
+          <option value="message">AI takes a message</option>
+          <option value="voicemail">Send callers to voicemail</option>
+          <option value="hangup">Play closed greeting and hang up</option>
+        </select>
+        <input
+          className="w-full mt-2 bg-slate-900 border border-slate-700 text-white rounded-xl p-3 text-sm outline-none focus:border-purple-500 transition"
+          placeholder="After-hours greeting (optional)"
+          value={schedule.afterHoursGreeting}
+          onChange={e => onChange({ ...schedule, afterHoursGreeting: e.target.value })}
+        />
+        {greetingLocked && <GreetingPlanNote />}
+      </div>
+    </div>
+  );
+};
+
+// Custom phone greetings are a Growth and Pro feature; other plans answer calls with the standard greeting
+const GreetingPlanNote: React.FC = () => (
+  <p className="text-xs text-amber-300 mt-2 flex items-center gap-1">
+    <Lock className="w-3 h-3 shrink-0" />
+    Callers hear this greeting on the Growth and Pro plans. Until you upgrade, calls use the standard greeting.
+  </p>
+);
+
+interface TransferSettings {
+  forwardingNumber: string;
+  ringGroup: string[];
+  timeoutSeconds: number;
+}
+
+type PromptChannel = 'chat' | 'voice' | 'sms';
+
+interface PromptSettings {
+  instructions: string;
+  channelInstructions: Partial<Record<PromptChannel, string>>;
+  guardrails: string[];
+}
+
 interface BusinessConfig {
   name: string;
   services: string;
   tone: string;
   greeting: string;
   workingHours: string;
+  schedule?: Schedule;
+  transfer_settings?: TransferSettings | null;
   business_name?: string; // Optional, used in other components
   industry?: string; // Optional, used in other components
   subscription_plan?: 'free' | 'starter' | 'growth' | 'pro';
   minutes_used?: number;
   minutes_limit?: number;
+  current_period_start?: string | null;
+  current_period_end?: string | null;
+  renewal_status?: 'active' | 'expired';
+  usage_settings?: UsageSettings | null;
+  entitlements?: Record<Entitlement, boolean>;
+  suspended_at?: string | null;
+  ai_model?: string | null;
+  prompt_settings?: PromptSettings | null;
+}
+
+type Entitlement = 'callTransfer' | 'customGreeting';
+
+interface Plan {
+  id: string;
+  name: string;
+  price: number;
+  minutes: number;
+  overageMinutes: number;
+  features: string[];
+  entitlements: Record<Entitlement, boolean>;
+}
+
+// Plan catalog served by the backend, the single source for prices, minutes and features
+const usePlans = () => {
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    authenticatedFetch(`${API_URL}/billing/plans`)
+      .then(res => {
+        if (!res.ok) throw new Error(`Server returned ${res.status}`);
+        return res.json();
+      })
+      .then((data: Plan[]) => setPlans(data))
+      .catch(err => {
+        console.error('Failed to fetch plans', err);
+        setError('Could not load plans. Please refresh to try again.');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  return { plans, loading, error };
+};
+
+type LimitAction = 'block' | 'voicemail' | 'grace';
+
+interface UsageSettings {
+  limitAction: LimitAction;
+  alertThresholds: number[];
 }
 
-const UsageCard: React.FC<{ used: number; limit: number }> = ({ used, limit }) => {
+const defaultUsageSettings = (): UsageSettings => ({ limitAction: 'voicemail', alertThresholds: [50, 80, 100] });
+
+const LIMIT_ACTION_OPTIONS: { value: LimitAction; label: string; description: string }[] = [
+  { value: 'voicemail', label: 'Voicemail only', description: 'Callers can leave a voicemail. No AI minutes are used.' },
+  { value: 'grace', label: 'Grace minutes', description: "The AI keeps answering for your plan's extra minutes, then callers go to voicemail." },
+  { value: 'block', label: 'Hard block', description: 'Callers hear a short message and the call ends.' }
+];
+
+const LIMIT_REACHED_TEXT: Record<LimitAction, string> = {
+  voicemail: 'Callers are being sent to voicemail. Please upgrade your plan to continue receiving calls.',
+  grace: "You are using your plan's grace minutes. Upgrade to keep every call answered by the AI.",
+  block: 'New calls are being declined. Please upgrade your plan to continue receiving calls.'
+};
+
+const formatPeriodDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+interface UsageEntry {
+  call_sid: string;
+  duration_seconds: number;
+  minutes: number;
+  recorded_at: string;
+}
+
+const UsageCard: React.FC<{
+  used: number;
+  limit: number;
+  periodEnd?: string | null;
+  limitAction?: LimitAction;
+}> = ({ used, limit, periodEnd, limitAction = 'voicemail' }) => {
   const percentage = Math.min((used / limit) * 100, 100);
   const isWarning = percentage > 80;
   const isCritical = percentage >= 100;
+  const [entries, setEntries] = useState<UsageEntry[] | null>(null);
+  const [loadingEntries, setLoadingEntries] = useState(false);
+
+  // Per-call ledger behind the total, so the number can be checked call by call
+  const toggleBreakdown = async () => {
+    if (entries) return setEntries(null);
+    setLoadingEntries(true);
+    try {
+      const res = await authenticatedFetch(`${API_URL}/usage`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load usage');
+      setEntries(data.entries);
+    } catch (err) {
+      console.error('Failed to load usage breakdown:', err);
+    } finally {
+      setLoadingEntries(false);
+    }
+  };
 
   return (
     <Card className="p-6">
@@ -275,9 +542,31 @@ const UsageCard: React.FC<{ used: number; limit: number }> = ({ used, limit }) =
         />
       </div>
 
+      {periodEnd && (
+        <div className="mt-2 flex justify-between text-xs text-slate-500">
+          <span>Resets on {formatPeriodDate(periodEnd)}</span>
+          <button onClick={toggleBreakdown} className="text-purple-400 hover:text-purple-300">
+            {loadingEntries ? 'Loading...' : entries ? 'Hide calls' : 'View calls'}
+          </button>
+        </div>
+      )}
+
+      {entries && (
+        <div className="mt-3 max-h-48 overflow-y-auto border-t border-slate-700/50 pt-2 space-y-1">
+          {entries.length === 0 ? (
+            <p className="text-xs text-slate-500">No billed calls this period.</p>
+          ) : entries.map(entry => (
+            <div key={entry.call_sid} className="flex justify-between text-xs text-slate-400">
+              <span>{new Date(entry.recorded_at).toLocaleString()}</span>
+              <span className="text-slate-300">{Math.floor(entry.duration_seconds / 60)}m {entry.duration_seconds % 60}s → {entry.minutes} min</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {isCritical && (
         <p className="mt-4 text-xs text-red-400 bg-red-500/10 p-2 rounded border border-red-500/20">
-          Calls are currently blocked. Please upgrade your plan to continue receiving calls.
+          {LIMIT_REACHED_TEXT[limitAction]}
         </p>
       )}
     </Card>
@@ -331,6 +620,155 @@ const PricingCard: React.FC<{
   </Card>
 );
 
+interface FaqEntry {
+  question: string;
+  answer: string;
+}
+
+interface WebsiteProposal {
+  name: string;
+  services: string;
+  greeting: string;
+  weekly: Record<string, TimeRange[]> | null;
+  hoursText: string;
+  faqs: FaqEntry[];
+}
+
+type ProposalField = 'name' | 'services' | 'greeting' | 'hours';
+
+const PROPOSAL_FIELD_LABELS: Record<ProposalField, string> = {
+  name: 'Business Name',
+  services: 'Services & Offerings',
+  greeting: 'Greeting',
+  hours: 'Working Hours'
+};
+
+interface WebsiteImportValues {
+  name?: string;
+  services?: string;
+  greeting?: string;
+  weekly?: Record<string, TimeRange[]>;
+}
+
+// Optional first onboarding step: propose profile values from the owner's website for review
+const WebsiteImport: React.FC<{ onApply: (values: WebsiteImportValues, faqs: FaqEntry[]) => void }> = ({ onApply }) => {
+  const [url, setUrl] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState('');
+  const [proposal, setProposal] = useState<WebsiteProposal | null>(null);
+  const [pageCount, setPageCount] = useState(0);
+  const [fields, setFields] = useState<ProposalField[]>([]);
+  const [faqChoices, setFaqChoices] = useState<boolean[]>([]);
+  const [applied, setApplied] = useState('');
+
+  const proposalValue = (field: ProposalField) => {
+    if (!proposal) return '';
+    return field === 'hours' ? proposal.hoursText : proposal[field];
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setImportError('');
+    setApplied('');
+    try {
+      const res = await authenticatedFetch(`${API_URL}/setup/import-website`, {
+        method: 'POST',
+        body: JSON.stringify({ url })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Could not import the website');
+
+      const next: WebsiteProposal = data.proposal;
+      setProposal(next);
+      setPageCount(data.pages.length);
+      setFields((Object.keys(PROPOSAL_FIELD_LABELS) as ProposalField[]).filter(field => (field === 'hours' ? !!next.weekly : !!next[field])));
+      setFaqChoices(next.faqs.map(() => true));
+    } catch (err) {
+      setImportError((err as Error).message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const toggleField = (field: ProposalField) =>
+    setFields(prev => (prev.includes(field) ? prev.filter(f => f !== field) : [...prev, field]));
+
+  const handleApply = () => {
+    if (!proposal) return;
+    const values: WebsiteImportValues = {};
+    if (fields.includes('name')) values.name = proposal.name;
+    if (fields.includes('services')) values.services = proposal.services;
+    if (fields.includes('greeting')) values.greeting = proposal.greeting;
+    if (fields.includes('hours') && proposal.weekly) values.weekly = proposal.weekly;
+    const faqs = proposal.faqs.filter((_, i) => faqChoices[i]);
+
+    onApply(values, faqs);
+    setApplied(`✅ Imported ${fields.length} field${fields.length === 1 ? '' : 's'} and ${faqs.length} FAQ${faqs.length === 1 ? '' : 's'}. You can still edit everything below.`);
+    setProposal(null);
+  };
+
+  return (
+    <div className="p-4 bg-slate-900/60 border border-slate-800 rounded-xl">
+      <p className="text-slate-300 font-medium text-sm mb-2 flex items-center gap-2">
+        <Globe className="w-4 h-4 text-purple-400" />
+        Import from your website (optional)
+      </p>
+      <div className="flex gap-2">
+        <input
+          value={url}
+          onChange={e => setUrl(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && url.trim() && !importing && handleImport()}
+          placeholder="www.yourbusiness.com"
+          className="flex-1 bg-slate-900 border border-slate-700 text-white rounded-lg px-3 py-2 text-sm outline-none focus:border-purple-500"
+        />
+        <button onClick={handleImport} disabled={!url.trim() || importing} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 disabled:text-slate-500 text-white rounded-lg text-sm font-medium">
+          {importing ? 'Reading site...' : 'Import'}
+        </button>
+      </div>
+      {importError && <p className="text-sm text-red-400 mt-2">❌ {importError}</p>}
+      {applied && <p className="text-sm text-slate-300 mt-2">{applied}</p>}
+
+      {proposal && (
+        <div className="mt-4 space-y-3">
+          <p className="text-xs text-slate-500">Found on {pageCount} page{pageCount === 1 ? '' : 's'}. Untick anything you don't want to use.</p>
+          {(Object.keys(PROPOSAL_FIELD_LABELS) as ProposalField[]).filter(field => proposalValue(field)).map(field => (
+            <label key={field} className="flex items-start gap-3 text-sm cursor-pointer">
+              <input type="checkbox" checked={fields.includes(field)} onChange={() => toggleField(field)} className="mt-1" />
+              <span>
+                <span className="block text-slate-300 font-medium">{PROPOSAL_FIELD_LABELS[field]}</span>
+                <span className="block text-slate-400 whitespace-pre-line">{proposalValue(field)}</span>
+              </span>
+            </label>
+          ))}
+          {proposal.faqs.length > 0 && (
+            <div>
+              <p className="text-slate-300 font-medium text-sm mb-1">FAQs for your knowledge base</p>
+              {proposal.faqs.map((faq, i) => (
+                <label key={faq.question} className="flex items-start gap-3 text-sm cursor-pointer mb-1">
+                  <input
+                    type="checkbox"
+                    checked={faqChoices[i]}
+                    onChange={() => setFaqChoices(prev => prev.map((chosen, j) => (j === i ? !chosen : chosen)))}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block text-slate-300">{faq.question}</span>
+                    <span className="block text-slate-500">{faq.answer}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+          {fields.length === 0 && proposal.faqs.length === 0 && <p className="text-sm text-slate-500">Nothing useful was found on this site.</p>}
+          <button onClick={handleApply} className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg text-sm font-bold">
+            Use Selected
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
 interface OnboardingProps {
   onComplete: (config: BusinessConfig) => void;
   isDemoMode?: boolean;
@@ -340,8 +778,9 @@ interface OnboardingProps {
 const Onboarding: React.FC<OnboardingProps> = ({ onComplete, isDemoMode }) => {
   const [step, setStep] = useState(1);
   const [formData, setFormData] = useState<BusinessConfig>({
-    name: '', services: '', tone: 'professional', greeting: '', workingHours: '9 AM - 5 PM, Mon-Fri'
+    name: '', services: '', tone: 'professional', greeting: '', workingHours: '9 AM - 5 PM, Mon-Fri', schedule: defaultSchedule()
   });
+  const [faqs, setFaqs] = useState<FaqEntry[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
@@ -349,6 +788,15 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete, isDemoMode }) => {
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  const applyImport = ({ weekly, ...values }: WebsiteImportValues, importedFaqs: FaqEntry[]) => {
+    setFormData(prev => ({
+      ...prev,
+      ...values,
+      ...(weekly && { schedule: { ...(prev.schedule || defaultSchedule()), weekly } })
+    }));
+    setFaqs(importedFaqs);
+  };
+
   const handleSubmit = async () => {
     setIsSubmitting(true);
 
@@ -365,7 +813,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete, isDemoMode }) => {
     try {
       const res = await authenticatedFetch(`${API_URL}/setup`, {
         method: 'POST',
-        body: JSON.stringify(formData)
+        body: JSON.stringify({ ...formData, faqs })
       });
 
       // Check for HTTP errors
@@ -411,6 +859,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete, isDemoMode }) => {
           <div className="space-y-6">
             {step === 1 && (
               <>
+                {!isDemoMode && <WebsiteImport onApply={applyImport} />}
                 <label htmlFor="businessName" className="block text-slate-300 font-medium text-sm">Business Name</label>
                 <input id="businessName" name="name" className="w-full bg-slate-900 border border-slate-700 text-white rounded-xl p-3 md:p-4 text-sm md:text-base outline-none focus:border-purple-500 transition" value={formData.name} onChange={handleInputChange} />
                 <label htmlFor="services" className="block text-slate-300 font-medium text-sm">Services & Offerings</label>
@@ -427,12 +876,14 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete, isDemoMode }) => {
                 </select>
                 <label htmlFor="greeting" className="block text-slate-300 font-medium text-sm">System Greeting</label>
                 <input id="greeting" name="greeting" className="w-full bg-slate-900 border border-slate-700 text-white rounded-xl p-3 md:p-4 text-sm md:text-base outline-none focus:border-purple-500 transition" value={formData.greeting} onChange={handleInputChange} />
+                <GreetingPlanNote />
               </>
             )}
             {step === 3 && (
               <>
-                <label htmlFor="workingHours" className="block text-slate-300 font-medium text-sm">Working Hours</label>
-                <input id="workingHours" name="workingHours" className="w-full bg-slate-900 border border-slate-700 text-white rounded-xl p-3 md:p-4 text-sm md:text-base outline-none focus:border-purple-500 transition" value={formData.workingHours} onChange={handleInputChange} />
+                <p className="block text-slate-300 font-medium text-sm">Working Hours</p>
+                <ScheduleEditor schedule={formData.schedule || defaultSchedule()} onChange={schedule => setFormData(prev => ({ ...prev, schedule }))} greetingLocked />
+                {faqs.length > 0 && <p className="text-slate-400 text-sm mt-4">{faqs.length} FAQ{faqs.length === 1 ? '' : 's'} from your website will be added to your knowledge base.</p>}
                 <p className="text-slate-500 mt-4">Review your details before launching.</p>
               </>
             )}
@@ -577,24 +1028,54 @@ const BillingPricingCard: React.FC<{
   </Card>
 );
 
+interface PaymentMethods {
+  card: { id: string; name: string } | null;
+  manual: { id: string; name: string }[];
+}
+
 const PaymentModal: React.FC<{
-  plan: any;
+  plan: Plan;
   onClose: () => void;
   onSuccess: () => void;
 }> = ({ plan, onClose, onSuccess }) => {
-  const [method, setMethod] = useState<'payoneer' | 'nayapay'>('payoneer');
+  const [method, setMethod] = useState<'card' | 'payoneer' | 'nayapay'>('payoneer');
   const [reference, setReference] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [config, setConfig] = useState<{ payoneerEmail: string, nayapayId: string } | null>(null);
+  const [cardProvider, setCardProvider] = useState<PaymentMethods['card']>(null);
 
   useEffect(() => {
     // Fetch payment details
-    authenticatedFetch(`${API_URL}/admin/config`)
+    authenticatedFetch(`${API_URL}/billing/payment-details`)
       .then(res => res.json())
       .then(data => setConfig(data))
       .catch(() => setConfig({ payoneerEmail: 'payments@smartreception.ai', nayapayId: '03001234567' }));
+
+    authenticatedFetch(`${API_URL}/billing/methods`)
+      .then(res => res.json())
+      .then((data: PaymentMethods) => {
+        setCardProvider(data.card);
+        if (data.card) setMethod('card');
+      })
+      .catch(() => setCardProvider(null));
   }, []);
 
+  const handleCardCheckout = async () => {
+    setSubmitting(true);
+    try {
+      const res = await authenticatedFetch(`${API_URL}/billing/checkout`, {
+        method: 'POST',
+        body: JSON.stringify({ plan: plan.id })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Could not start checkout');
+      window.location.href = data.url;
+    } catch (err) {
+      alert(`Error: ${(err as Error).message}`);
+      setSubmitting(false);
+    }
+  };
+
   const handleSubmit = async () => {
     if (!reference) return alert('Please enter the transaction reference');
     setSubmitting(true);
@@ -606,7 +1087,6 @@ const PaymentModal: React.FC<{
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           plan: plan.id,
-          amount: plan.price,
           paymentMethod: method,
           reference
         })
@@ -648,6 +1128,14 @@ const PaymentModal: React.FC<{
         </div>
 
         <div className="flex gap-2 mb-6">
+          {cardProvider && (
+            <button
+              onClick={() => setMethod('card')}
+              className={`flex-1 p-3 rounded-xl border transition ${method === 'card' ? 'bg-purple-600/20 border-purple-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+            >
+              {cardProvider.name}
+            </button>
+          )}
           <button
             onClick={() => setMethod('payoneer')}
             className={`flex-1 p-3 rounded-xl border transition ${method === 'payoneer' ? 'bg-purple-600/20 border-purple-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
@@ -662,59 +1150,188 @@ const PaymentModal: React.FC<{
           </button>
         </div>
 
-        <div className="mb-6 bg-slate-800 p-4 rounded-xl border border-slate-700/50">
-          <div className="text-sm text-slate-300 mb-2">Instructions:</div>
-          {method === 'payoneer' ? (
-            <div className="space-y-2">
-              <p className="font-semibold text-white text-md">USD Receiving Account Details</p>
-              <div className="grid grid-cols-2 gap-2 text-xs text-slate-400 bg-slate-900/50 p-2 rounded-lg border border-slate-700">
-                <span className="font-bold">Bank Name:</span> <span className="text-white">Citibank</span>
-                <span className="font-bold">Routing (ABA):</span> <span className="text-white select-all">031100209</span>
-                <span className="font-bold">Account Number:</span> <span className="text-white select-all">70586520001968114</span>
-                <span className="font-bold">Beneficiary:</span> <span className="text-white">Muhammad Elahi</span>
-              </div>
-              <p className="text-xs text-slate-500 mt-2">
-                Log in to your Payoneer, go to <b>Pay</b> &gt; <b>Make a Payment</b>, and use the details above.
+        {method === 'card' ? (
+          <>
+            <div className="mb-6 bg-slate-800 p-4 rounded-xl border border-slate-700/50 flex items-start gap-3">
+              <CreditCard className="w-5 h-5 text-purple-400 mt-0.5" />
+              <p className="text-sm text-slate-300">
+                Pay <b>${plan.price}</b> securely by card. Your plan is activated automatically as soon as the payment goes through.
               </p>
             </div>
-          ) : (
-            <div>
-              <p className="font-semibold text-white text-lg select-all">{config.nayapayId}</p>
-              <p className="text-xs text-slate-500 mt-1">Send <b>Rs. {plan.price * 280}</b> (approx) via NayaPay App or Bank Transfer.</p>
+            <button
+              onClick={handleCardCheckout}
+              disabled={submitting}
+              className="w-full py-3 bg-purple-600 hover:bg-purple-500 text-white rounded-xl font-bold transition disabled:opacity-50"
+            >
+              {submitting ? 'Redirecting...' : 'Continue to Checkout'}
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="mb-6 bg-slate-800 p-4 rounded-xl border border-slate-700/50">
+              <div className="text-sm text-slate-300 mb-2">Instructions:</div>
+              {method === 'payoneer' ? (
+                <div className="space-y-2">
+                  <p className="font-semibold text-white text-md">USD Receiving Account Details</p>
+                  <div className="grid grid-cols-2 gap-2 text-xs text-slate-400 bg-slate-900/50 p-2 rounded-lg border border-slate-700">
+                    <span className="font-bold">Bank Name:</span> <span className="text-white">Citibank</span>
+                    <span className="font-bold">Routing (ABA):</span> <span className="text-white select-all">031100209</span>
+                    <span className="font-bold">Account Number:</span> <span className="text-white select-all">70586520001968114</span>
+                    <span className="font-bold">Beneficiary:</span> <span className="text-white">Muhammad Elahi</span>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-2">
+                    Log in to your Payoneer, go to <b>Pay</b> &gt; <b>Make a Payment</b>, and use the details above.
+                  </p>
+                </div>
+              ) : (
+                <div>
+                  <p className="font-semibold text-white text-lg select-all">{config.nayapayId}</p>
+                  <p className="text-xs text-slate-500 mt-1">Send <b>Rs. {plan.price * 280}</b> (approx) via NayaPay App or Bank Transfer.</p>
+                </div>
+              )}
             </div>
-          )}
-        </div>
 
-        <div className="mb-6">
-          <label className="block text-sm font-medium text-slate-300 mb-2">
-            {method === 'payoneer' ? 'Transaction ID / Payoneer Email' : 'Transaction ID / Sender Name'}
-          </label>
-          <input
-            className="w-full bg-slate-950 border border-slate-700 text-white rounded-xl p-3 outline-none focus:border-purple-500"
-            placeholder={method === 'payoneer' ? "e.g. 12345678 or you@example.com" : "e.g. TXN-12345678"}
-            value={reference}
-            onChange={e => setReference(e.target.value)}
-          />
-        </div>
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                {method === 'payoneer' ? 'Transaction ID / Payoneer Email' : 'Transaction ID / Sender Name'}
+              </label>
+              <input
+                className="w-full bg-slate-950 border border-slate-700 text-white rounded-xl p-3 outline-none focus:border-purple-500"
+                placeholder={method === 'payoneer' ? "e.g. 12345678 or you@example.com" : "e.g. TXN-12345678"}
+                value={reference}
+                onChange={e => setReference(e.target.value)}
+              />
+            </div>
 
-        <button
-          onClick={handleSubmit}
-          disabled={submitting}
-          className="w-full py-3 bg-purple-600 hover:bg-purple-500 text-white rounded-xl font-bold transition disabled:opacity-50"
-        >
-          {submitting ? 'Submitting...' : "I've Sent the Payment"}
-        </button>
+            <button
+              onClick={handleSubmit}
+              disabled={submitting}
+              className="w-full py-3 bg-purple-600 hover:bg-purple-500 text-white rounded-xl font-bold transition disabled:opacity-50"
+            >
+              {submitting ? 'Submitting...' : "I've Sent the Payment"}
+            </button>
+          </>
+        )}
       </Card>
     </div>
   );
 };
 
+type PaymentStatus = 'pending' | 'approved' | 'rejected' | 'refunded';
+
+interface PaymentRecord {
+  id: string;
+  plan: string;
+  amount: number;
+  payment_method: string;
+  payment_reference: string | null;
+  status: PaymentStatus;
+  created_at: string;
+}
+
+interface Invoice {
+  id: string;
+  number: string;
+  payment_request_id: string | null;
+  plan_name: string | null;
+  amount: number;
+  currency: string;
+  issued_at: string;
+}
+
+const PAYMENT_STATUS_COLORS: Record<PaymentStatus, BadgeColor> = {
+  pending: 'amber',
+  approved: 'green',
+  rejected: 'red',
+  refunded: 'purple'
+};
+
+const BillingHistory = () => {
+  const [payments, setPayments] = useState<PaymentRecord[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    authenticatedFetch(`${API_URL}/billing/history`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load billing history');
+        setPayments(data.payments);
+        setInvoices(data.invoices);
+      })
+      .catch(err => setError('❌ ' + (err as Error).message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const downloadReceipt = async (invoice: Invoice) => {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/billing/invoices/${invoice.id}/pdf`);
+      if (!res.ok) throw new Error('Failed to download receipt');
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${invoice.number}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError('❌ ' + (err as Error).message);
+    }
+  };
+
+  const invoiceFor = (payment: PaymentRecord) => invoices.find(invoice => invoice.payment_request_id === payment.id);
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700">
+      <h3 className="text-xl font-bold text-white mb-4">Billing History</h3>
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+      {loading ? (
+        <p className="text-slate-400 text-sm">Loading...</p>
+      ) : payments.length === 0 ? (
+        <p className="text-slate-400 text-sm">No recent transactions.</p>
+      ) : (
+        <div className="divide-y divide-slate-700">
+          {payments.map(payment => {
+            const invoice = invoiceFor(payment);
+            return (
+              <div key={payment.id} className="py-3 flex flex-wrap items-center gap-3 text-sm">
+                <div className="flex-1 min-w-[12rem]">
+                  <p className="text-white font-medium capitalize">{payment.plan} plan · ${Number(payment.amount).toFixed(2)}</p>
+                  <p className="text-xs text-slate-500">
+                    {formatPeriodDate(payment.created_at)} · <span className="capitalize">{payment.payment_method}</span>
+                    {payment.payment_reference && ` · ${payment.payment_reference}`}
+                  </p>
+                </div>
+                <Badge color={PAYMENT_STATUS_COLORS[payment.status] || 'blue'}>{payment.status}</Badge>
+                {invoice && (
+                  <button
+                    onClick={() => downloadReceipt(invoice)}
+                    className="flex items-center gap-1 text-purple-400 hover:text-purple-300 text-xs font-medium"
+                  >
+                    <Download className="w-4 h-4" />
+                    {invoice.number}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const BillingView: React.FC<{
   business: any;
   isDemoMode?: boolean;
 }> = ({ business, isDemoMode }) => {
-  const [plans, setPlans] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { plans, loading, error: plansError } = usePlans();
+  const [checkoutResult] = useState(() => new URLSearchParams(window.location.search).get('checkout'));
+
+  useEffect(() => {
+    // Drop ?checkout=... so a refresh doesn't show the banner again
+    if (checkoutResult) window.history.replaceState(null, '', window.location.pathname);
+  }, [checkoutResult]);
 
   if (isDemoMode) {
     return (
@@ -735,37 +1352,7 @@ const BillingView: React.FC<{
       </div>
     );
   }
-  const [selectedPlan, setSelectedPlan] = useState<any>(null);
-
-  useEffect(() => {
-    const fetchPlans = async () => {
-      try {
-        const res = await authenticatedFetch(`${API_URL}/billing/plans`);
-        if (res.ok) {
-          const data = await res.json();
-          setPlans(data);
-        } else {
-          // Fallback
-          setPlans([
-            { id: 'starter', name: 'Starter Plan', price: 29, minutes: 100, features: ['Basic AI Voice', 'Email Support'] },
-            { id: 'growth', name: 'Growth Plan', price: 79, minutes: 500, features: ['Advanced Voice', 'Priority Support', 'Custom Greeting'] },
-            { id: 'pro', name: 'Pro Plan', price: 149, minutes: 2000, features: ['Premium Voice', '24/7 Phone Support', 'API Access', 'White Labeling'] }
-          ]);
-        }
-      } catch (e) {
-        console.error("Failed to fetch plans", e);
-        // Fallback on error so user sees something
-        setPlans([
-          { id: 'starter', name: 'Starter Plan', price: 29, minutes: 100, features: ['Basic AI Voice', 'Email Support'] },
-          { id: 'growth', name: 'Growth Plan', price: 79, minutes: 500, features: ['Advanced Voice', 'Priority Support', 'Custom Greeting'] },
-          { id: 'pro', name: 'Pro Plan', price: 149, minutes: 2000, features: ['Premium Voice', '24/7 Phone Support', 'API Access', 'White Labeling'] }
-        ]);
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchPlans();
-  }, []);
+  const [selectedPlan, setSelectedPlan] = useState<Plan | null>(null);
 
   if (loading) return <div className="text-white p-8">Loading plans...</div>;
 
@@ -774,6 +1361,30 @@ const BillingView: React.FC<{
       <h2 className="text-3xl font-bold text-white mb-2">Billing & Plans</h2>
       <p className="text-slate-400 mb-8">Choose a plan that fits your business needs.</p>
 
+      {plansError && <p className="mb-8 text-sm text-red-400">{plansError}</p>}
+
+      {business.renewal_status === 'expired' && (business.subscription_plan || 'free') === 'free' && (
+        <div className="mb-8 p-4 rounded-lg text-sm bg-amber-500/10 text-amber-400 border border-amber-500/20">
+          Your paid plan ended without a renewal payment, so you are back on the Free plan. Choose a plan below to upgrade again.
+        </div>
+      )}
+
+      {business.subscription_plan && business.subscription_plan !== 'free' && business.current_period_end && (
+        <div className="mb-8 p-4 rounded-lg text-sm bg-slate-800/50 text-slate-300 border border-slate-700 flex items-center gap-2">
+          <CalendarDays className="w-4 h-4 text-purple-400" />
+          Your <span className="capitalize font-semibold text-white">{business.subscription_plan}</span> plan is paid through {formatPeriodDate(business.current_period_end)}.
+          Pay for the same plan again before then to renew for another month.
+        </div>
+      )}
+
+      {checkoutResult && (
+        <div className={`mb-8 p-4 rounded-lg text-sm ${checkoutResult === 'success' ? 'bg-green-500/10 text-green-400 border border-green-500/20' : 'bg-amber-500/10 text-amber-400 border border-amber-500/20'}`}>
+          {checkoutResult === 'success'
+            ? '✅ Payment received! Your plan is being activated and will show here in a moment.'
+            : 'Checkout was cancelled. You have not been charged.'}
+        </div>
+      )}
+
       <div className="grid md:grid-cols-3 gap-6 mb-12">
         {plans.map((plan) => (
           <BillingPricingCard
@@ -781,7 +1392,7 @@ const BillingView: React.FC<{
             plan={plan.name}
             price={plan.price === 0 ? 'Free' : `$${plan.price}`}
             mins={plan.minutes}
-            features={plan.features}
+            features={plan.overageMinutes ? [...plan.features, `${plan.overageMinutes} grace minutes`] : plan.features}
             current={business.subscription_plan === plan.id || (plan.id === 'free' && !(!business.subscription_plan))}
             onClick={() => setSelectedPlan(plan)}
           />
@@ -796,10 +1407,7 @@ const BillingView: React.FC<{
         />
       )}
 
-      <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700">
-        <h3 className="text-xl font-bold text-white mb-4">Payment History</h3>
-        <p className="text-slate-400 text-sm">No recent transactions.</p>
-      </div>
+      <BillingHistory />
     </div>
   );
 };
@@ -1232,12 +1840,16 @@ interface DashboardViewProps {
   config: BusinessConfig;
   onNavigate: (view: string) => void;
   isDemoMode?: boolean;
+  readOnly?: boolean; // admin "view as": same dashboard, nothing clickable
 }
 
-const DashboardView: React.FC<DashboardViewProps> = ({ config, onNavigate, isDemoMode }) => {
+const DashboardView: React.FC<DashboardViewProps> = ({ config, onNavigate: navigate, isDemoMode, readOnly }) => {
+  const onNavigate = (view: string) => { if (!readOnly) navigate(view); };
+  const locked = isDemoMode || readOnly;
   const currentPlan = config.subscription_plan || 'free';
   const minutesUsed = config.minutes_used || 0;
   const minutesLimit = config.minutes_limit || 10;
+  const { plans } = usePlans();
 
   return (
     <div className="space-y-8">
@@ -1259,6 +1871,13 @@ const DashboardView: React.FC<DashboardViewProps> = ({ config, onNavigate, isDem
         </div>
       )}
 
+      {config.suspended_at && (
+        <div className="bg-red-500/10 border border-red-500/20 text-red-300 p-4 rounded-xl text-sm">
+          <p className="font-bold">Your account is suspended</p>
+          <p className="opacity-80">Calls to your number are not being answered. Please contact support to restore service.</p>
+        </div>
+      )}
+
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-2">
         <div>
           <h1 className="text-3xl font-bold text-white">Welcome, {config.business_name}</h1>
@@ -1292,25 +1911,25 @@ const DashboardView: React.FC<DashboardViewProps> = ({ config, onNavigate, isDem
           <p className="text-slate-400 text-sm">Experience the ultra-low latency voice interface.</p>
         </Card>
 
-        <Card className={`p-6 transition cursor-pointer group ${isDemoMode ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-800/50'}`}
-          onClick={() => !isDemoMode && onNavigate('settings')}>
+        <Card className={`p-6 transition cursor-pointer group ${locked ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-800/50'}`}
+          onClick={() => !locked && onNavigate('settings')}>
           <div className="flex justify-between items-start">
             <div className="w-12 h-12 bg-purple-500/20 rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition">
               <Settings className="w-6 h-6 text-purple-400" />
             </div>
-            {isDemoMode && <Lock className="w-4 h-4 text-slate-500" />}
+            {locked && <Lock className="w-4 h-4 text-slate-500" />}
           </div>
           <h3 className="text-lg font-semibold text-white mb-2">Business Settings</h3>
           <p className="text-slate-400 text-sm">Configure your hours, tone, and services.</p>
         </Card>
 
-        <Card className={`p-6 transition cursor-pointer group ${isDemoMode ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-800/50'}`}
-          onClick={() => !isDemoMode && alert("Connect Twilio to go live!")}>
+        <Card className={`p-6 transition cursor-pointer group ${locked ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-800/50'}`}
+          onClick={() => !locked && alert("Connect Twilio to go live!")}>
           <div className="flex justify-between items-start">
             <div className="w-12 h-12 bg-pink-500/20 rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition">
               <PhoneOutgoing className="w-6 h-6 text-pink-400" />
             </div>
-            {isDemoMode && <Lock className="w-4 h-4 text-slate-500" />}
+            {locked && <Lock className="w-4 h-4 text-slate-500" />}
           </div>
           <h3 className="text-lg font-semibold text-white mb-2">Connect Twilio</h3>
           <p className="text-slate-400 text-sm">Link your phone number to start receiving calls.</p>
@@ -1320,38 +1939,29 @@ const DashboardView: React.FC<DashboardViewProps> = ({ config, onNavigate, isDem
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {/* Usage Stats - Takes up 1 column */}
         <div className="md:col-span-1 space-y-6">
-          <UsageCard used={minutesUsed} limit={minutesLimit} />
+          <UsageCard
+            used={minutesUsed}
+            limit={minutesLimit}
+            periodEnd={config.current_period_end}
+            limitAction={config.usage_settings?.limitAction}
+          />
         </div>
 
         {/* Pricing Plans - Takes up 2 columns */}
         <div className="md:col-span-2">
           <h2 className="text-lg font-bold text-white mb-4">Available Plans</h2>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            <PricingCard
-              plan="starter"
-              price="$29"
-              mins={100}
-              current={currentPlan === 'starter'}
-              features={['Basic AI Voice', 'Email Support']}
-              onClick={() => onNavigate('billing')}
-            />
-            <PricingCard
-              plan="growth"
-              price="$79"
-              mins={500}
-              current={currentPlan === 'growth'}
-              features={['Advanced Voice', 'Priority Support', 'Custom Greeting']}
-              onClick={() => onNavigate('billing')}
-            />
-            <PricingCard
-              plan="pro"
-              price="$149"
-              mins={2000}
-              current={currentPlan === 'pro'}
-              features={['24/7 Phone Support', 'API Access', 'White Labeling']}
-              onClick={() => onNavigate('billing')}
-            />
-
+            {plans.map(plan => (
+              <PricingCard
+                key={plan.id}
+                plan={plan.id}
+                price={`$${plan.price}`}
+                mins={plan.minutes}
+                current={currentPlan === plan.id}
+                features={plan.features}
+                onClick={() => onNavigate('billing')}
+              />
+            ))}
           </div>
           <p className="text-xs text-slate-500 mt-4 text-center">
             Need more? <a href="#" className="underline hover:text-purple-400">Contact Sales</a> for Enterprise plans.
@@ -1362,282 +1972,2105 @@ const DashboardView: React.FC<DashboardViewProps> = ({ config, onNavigate, isDem
   );
 };
 
-interface TwilioStatus {
-  connected: boolean;
-  phoneNumber: string;
+interface TwilioStatus {
+  connected: boolean;
+  phoneNumber: string;
+  accountConnected: boolean;
+}
+
+interface TwilioNumber {
+  sid: string;
+  phoneNumber: string;
+  friendlyName: string;
+  voiceUrl: string | null;
+  managed: boolean;
+}
+
+interface ProfileForm {
+  name: string;
+  services: string;
+  tone: string;
+  greeting: string;
+}
+
+interface ProfileRevision {
+  id: string;
+  source: 'edit' | 'revert';
+  previous: Record<string, unknown>;
+  changes: Record<string, unknown>;
+  created_at: string;
+}
+
+const PROFILE_COLUMN_LABELS: Record<string, string> = {
+  business_name: 'Name',
+  services: 'Services',
+  tone: 'Tone',
+  greeting: 'Greeting',
+  schedule: 'Working hours'
+};
+
+const profileFormFrom = (config: BusinessConfig): ProfileForm => ({
+  name: config.business_name || '',
+  services: config.services || '',
+  tone: config.tone || 'professional',
+  greeting: config.greeting || ''
+});
+
+const describeRevision = (revision: ProfileRevision) => {
+  const labels = Object.keys(revision.changes).map(column => PROFILE_COLUMN_LABELS[column]).filter(Boolean);
+  return `${revision.source === 'revert' ? 'Reverted' : 'Changed'} ${[...new Set(labels)].join(', ').toLowerCase()}`;
+};
+
+// Text the revision replaced, for the first changed text field
+const previousText = (revision: ProfileRevision) => {
+  const value = Object.entries(revision.previous).find(([column, v]) => column !== 'schedule' && typeof v === 'string')?.[1] as string | undefined;
+  if (!value) return '';
+  return value.length > 80 ? `${value.slice(0, 80)}…` : value;
+};
+
+const BusinessProfileCard: React.FC<{ config: BusinessConfig; onUpdate: () => void; isDemoMode?: boolean }> = ({ config, onUpdate, isDemoMode }) => {
+  const [saved, setSaved] = useState<ProfileForm>(() => profileFormFrom(config));
+  const [form, setForm] = useState<ProfileForm>(saved);
+  const [history, setHistory] = useState<ProfileRevision[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [profileMessage, setProfileMessage] = useState('');
+
+  const dirtyFields = (Object.keys(form) as (keyof ProfileForm)[]).filter(field => form[field] !== saved[field]);
+  const isDirty = dirtyFields.length > 0;
+
+  const loadHistory = async () => {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/profile/history`);
+      if (res.ok) setHistory(await res.json());
+    } catch (err) {
+      console.error('Failed to load profile history:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (!isDemoMode) loadHistory();
+  }, [isDemoMode]);
+
+  // Warn before leaving the page with unsaved edits
+  useEffect(() => {
+    if (!isDirty) return;
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [isDirty]);
+
+  const applySaved = (next: BusinessConfig) => {
+    const values = profileFormFrom(next);
+    setSaved(values);
+    setForm(values);
+    loadHistory();
+    onUpdate();
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setProfileMessage('');
+    try {
+      const res = await authenticatedFetch(`${API_URL}/profile`, {
+        method: 'PATCH',
+        body: JSON.stringify(Object.fromEntries(dirtyFields.map(field => [field, form[field]])))
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save profile');
+      if (data.unchanged) {
+        setSaved(form);
+      } else {
+        applySaved(data.config);
+      }
+      setProfileMessage('✅ Business profile saved');
+    } catch (err) {
+      setProfileMessage('❌ ' + (err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevert = async (revision: ProfileRevision) => {
+    if (isDirty && !confirm('Reverting discards your unsaved edits. Continue?')) return;
+    if (!confirm(`${describeRevision(revision)} on ${new Date(revision.created_at).toLocaleString()}: put back the previous values?`)) return;
+    try {
+      const res = await authenticatedFetch(`${API_URL}/profile/history/${revision.id}/revert`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to revert change');
+      applySaved(data.config);
+      setProfileMessage('✅ Change reverted');
+    } catch (err) {
+      setProfileMessage('❌ ' + (err as Error).message);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-2 bg-slate-900 border rounded-lg text-white focus:outline-none focus:border-purple-500';
+  const fieldClass = (field: keyof ProfileForm) => `${inputClass} ${form[field] !== saved[field] ? 'border-amber-500/60' : 'border-slate-700'}`;
+
+  return (
+    <Card className="p-6 mb-6">
+      <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+        <Globe className="w-5 h-5 text-purple-400" />
+        Business Information
+        {isDirty && <Badge color="amber">Unsaved changes</Badge>}
+      </h2>
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="profileName" className="block text-sm font-medium text-slate-300 mb-2">Business Name</label>
+          <input id="profileName" value={form.name} maxLength={100} onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))} className={fieldClass('name')} />
+        </div>
+        <div>
+          <label htmlFor="profileServices" className="block text-sm font-medium text-slate-300 mb-2">Services & Offerings</label>
+          <textarea id="profileServices" value={form.services} maxLength={5000} onChange={e => setForm(prev => ({ ...prev, services: e.target.value }))} className={`${fieldClass('services')} h-32`} />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="profileTone" className="block text-sm font-medium text-slate-300 mb-2">AI Voice Tone</label>
+            <select id="profileTone" value={form.tone} onChange={e => setForm(prev => ({ ...prev, tone: e.target.value }))} className={fieldClass('tone')}>
+              <option value="professional">Professional</option>
+              <option value="friendly">Friendly</option>
+              <option value="enthusiastic">Enthusiastic</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="profileGreeting" className="block text-sm font-medium text-slate-300 mb-2">Greeting</label>
+            <input id="profileGreeting" value={form.greeting} maxLength={500} onChange={e => setForm(prev => ({ ...prev, greeting: e.target.value }))} className={fieldClass('greeting')} />
+            {!config.entitlements?.customGreeting && <GreetingPlanNote />}
+          </div>
+        </div>
+      </div>
+      <div className="flex gap-2 mt-4">
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || saving || isDemoMode}
+          className="bg-purple-600 hover:bg-purple-700 disabled:bg-slate-700 disabled:text-slate-400 text-white py-2 px-4 rounded-lg font-bold transition"
+        >
+          {saving ? 'Saving...' : 'Save Profile'}
+        </button>
+        {isDirty && (
+          <button onClick={() => setForm(saved)} className="py-2 px-4 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition">
+            Discard
+          </button>
+        )}
+      </div>
+      {profileMessage && <p className="text-sm text-slate-300 mt-3">{profileMessage}</p>}
+
+      {history.length > 0 && (
+        <div className="mt-6 pt-4 border-t border-slate-800">
+          <h3 className="text-sm font-bold text-white mb-2 flex items-center gap-2">
+            <History className="w-4 h-4 text-slate-400" />
+            Change History
+          </h3>
+          <ul className="space-y-2">
+            {history.map(revision => (
+              <li key={revision.id} className="flex items-start justify-between gap-3 text-xs">
+                <div>
+                  <p className="text-slate-300">{describeRevision(revision)}</p>
+                  <p className="text-slate-500">
+                    {new Date(revision.created_at).toLocaleString()}
+                    {previousText(revision) && ` · was "${previousText(revision)}"`}
+                  </p>
+                </div>
+                <button onClick={() => handleRevert(revision)} className="text-purple-400 hover:text-purple-300 font-medium shrink-0">
+                  Revert
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+type KnowledgeSourceType = 'faq' | 'text' | 'markdown' | 'pdf';
+
+interface KnowledgeDocument {
+  id: string;
+  title: string;
+  source_type: KnowledgeSourceType;
+  chunk_count: number;
+  char_count: number;
+  created_at: string;
+}
+
+interface KnowledgePassage {
+  id: string;
+  title: string;
+  content: string;
+  similarity: number;
+}
+
+const KNOWLEDGE_TYPE_LABELS: Record<KnowledgeSourceType, string> = {
+  faq: 'FAQ',
+  text: 'Text',
+  markdown: 'Markdown',
+  pdf: 'PDF'
+};
+
+// "Q: ..." / "A: ..." lines -> FAQ entries; an answer runs until the next question
+const parseFaq = (text: string) => {
+  const entries: FaqEntry[] = [];
+  for (const line of text.split('\n')) {
+    const question = line.match(/^\s*Q:\s*(.*)$/i);
+    const answer = line.match(/^\s*A:\s*(.*)$/i);
+    if (question) entries.push({ question: question[1], answer: '' });
+    else if (entries.length) {
+      const last = entries[entries.length - 1];
+      last.answer = `${last.answer} ${answer ? answer[1] : line}`.trim();
+    }
+  }
+  return entries;
+};
+
+const readFileAsBase64 = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const KnowledgeBaseCard: React.FC<{ isDemoMode?: boolean }> = ({ isDemoMode }) => {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [title, setTitle] = useState('');
+  const [type, setType] = useState<KnowledgeSourceType>('faq');
+  const [text, setText] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [knowledgeMessage, setKnowledgeMessage] = useState('');
+  const [query, setQuery] = useState('');
+  const [passages, setPassages] = useState<KnowledgePassage[] | null>(null);
+
+  const loadDocuments = async () => {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/knowledge`);
+      if (res.ok) setDocuments(await res.json());
+    } catch (err) {
+      console.error('Failed to load knowledge base:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (!isDemoMode) loadDocuments();
+  }, [isDemoMode]);
+
+  const handleAdd = async () => {
+    setUploading(true);
+    setKnowledgeMessage('');
+    try {
+      let content: unknown = text;
+      if (type === 'pdf') {
+        if (!file) throw new Error('Choose a PDF file');
+        content = await readFileAsBase64(file);
+      } else if (type === 'faq') {
+        content = parseFaq(text);
+      }
+
+      const res = await authenticatedFetch(`${API_URL}/knowledge`, {
+        method: 'POST',
+        body: JSON.stringify({ title, type, content })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to add document');
+
+      setTitle('');
+      setText('');
+      setFile(null);
+      setKnowledgeMessage(`✅ Added "${data.document.title}" (${data.document.chunk_count} passages)`);
+      loadDocuments();
+    } catch (err) {
+      setKnowledgeMessage('❌ ' + (err as Error).message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (document: KnowledgeDocument) => {
+    if (!confirm(`Remove "${document.title}" from the knowledge base?`)) return;
+    try {
+      const res = await authenticatedFetch(`${API_URL}/knowledge/${document.id}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to delete document');
+      loadDocuments();
+    } catch (err) {
+      setKnowledgeMessage('❌ ' + (err as Error).message);
+    }
+  };
+
+  const handleSearch = async () => {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/knowledge/search`, {
+        method: 'POST',
+        body: JSON.stringify({ query })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Search failed');
+      setPassages(data);
+    } catch (err) {
+      setKnowledgeMessage('❌ ' + (err as Error).message);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-purple-500';
+
+  return (
+    <Card className="p-6 mb-6">
+      <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+        <BookOpen className="w-5 h-5 text-purple-400" />
+        Knowledge Base
+      </h2>
+      <p className="text-sm text-slate-400 mb-4">
+        FAQs, policies and price lists the AI can quote in chats and calls. The most relevant passages are looked up for each question.
+      </p>
+
+      {documents.length > 0 && (
+        <ul className="space-y-2 mb-6">
+          {documents.map(document => (
+            <li key={document.id} className="flex items-center justify-between gap-3 p-3 bg-slate-900 rounded-lg">
+              <div className="min-w-0">
+                <p className="text-white font-medium truncate">{document.title}</p>
+                <p className="text-xs text-slate-500">
+                  {document.chunk_count} passages · added {new Date(document.created_at).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Badge color="purple">{KNOWLEDGE_TYPE_LABELS[document.source_type]}</Badge>
+                <button onClick={() => handleDelete(document)} className="text-slate-400 hover:text-red-400" aria-label={`Remove ${document.title}`}>
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <label htmlFor="knowledgeTitle" className="block text-sm font-medium text-slate-300 mb-2">Title</label>
+            <input id="knowledgeTitle" value={title} maxLength={200} onChange={e => setTitle(e.target.value)} placeholder="e.g. Parking & Access" className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="knowledgeType" className="block text-sm font-medium text-slate-300 mb-2">Type</label>
+            <select id="knowledgeType" value={type} onChange={e => setType(e.target.value as KnowledgeSourceType)} className={inputClass}>
+              {(Object.keys(KNOWLEDGE_TYPE_LABELS) as KnowledgeSourceType[]).map(option => (
+                <option key={option} value={option}>{KNOWLEDGE_TYPE_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {type === 'pdf' ? (
+          <input
+            type="file"
+            accept="application/pdf"
+            onChange={e => setFile(e.target.files?.[0] || null)}
+            className="block text-sm text-slate-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-slate-800 file:text-white"
+          />
+        ) : (
+          <textarea
+            value={text}
+            onChange={e => setText(e.target.value)}
+            placeholder={type === 'faq' ? 'Q: Do you offer parking?\nA: Yes, free parking is behind the building.' : 'Paste your content here'}
+            className={`${inputClass} h-40 font-mono text-sm`}
+          />
+        )}
+        <button
+          onClick={handleAdd}
+          disabled={uploading || isDemoMode || !title.trim() || (type === 'pdf' ? !file : !text.trim())}
+          className="bg-purple-600 hover:bg-purple-700 disabled:bg-slate-700 disabled:text-slate-400 text-white py-2 px-4 rounded-lg font-bold transition"
+        >
+          {uploading ? 'Processing...' : 'Add to Knowledge Base'}
+        </button>
+        {knowledgeMessage && <p className="text-sm text-slate-300">{knowledgeMessage}</p>}
+      </div>
+
+      {documents.length > 0 && (
+        <div className="mt-6 pt-4 border-t border-slate-800">
+          <h3 className="text-sm font-bold text-white mb-2">Test a question</h3>
+          <div className="flex gap-2">
+            <input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && query.trim() && handleSearch()}
+              placeholder="What would a customer ask?"
+              className={inputClass}
+            />
+            <button onClick={handleSearch} disabled={!query.trim()} className="px-4 rounded-lg bg-slate-800 text-white hover:bg-slate-700 disabled:text-slate-500" aria-label="Search knowledge base">
+              <Search className="w-4 h-4" />
+            </button>
+          </div>
+          {passages && (
+            passages.length === 0 ? (
+              <p className="text-sm text-slate-500 mt-3">No matching passages — the AI would answer from your business details only.</p>
+            ) : (
+              <ul className="space-y-2 mt-3">
+                {passages.map(passage => (
+                  <li key={passage.id} className="p-3 bg-slate-900 rounded-lg text-sm">
+                    <p className="text-xs text-slate-500 mb-1">{passage.title} · {Math.round(passage.similarity * 100)}% match</p>
+                    <p className="text-slate-300 whitespace-pre-line">{passage.content}</p>
+                  </li>
+                ))}
+              </ul>
+            )
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+interface AiModelOption {
+  id: string;
+  provider: string;
+  providerName: string;
+  model: string;
+}
+
+// Which model answers chats and calls; if it fails, the platform falls back to another provider
+const AiModelCard: React.FC<{ config: BusinessConfig; onUpdate: () => void; isDemoMode?: boolean }> = ({ config, onUpdate, isDemoMode }) => {
+  const [models, setModels] = useState<AiModelOption[]>([]);
+  const [defaultModel, setDefaultModel] = useState('');
+  const [modelMessage, setModelMessage] = useState('');
+
+  useEffect(() => {
+    if (isDemoMode) return;
+    authenticatedFetch(`${API_URL}/ai-models`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!data) return;
+        setModels(data.models);
+        setDefaultModel(data.defaultModel);
+      })
+      .catch(err => console.error('Failed to load AI models:', err));
+  }, [isDemoMode]);
+
+  const handleChange = async (model: string) => {
+    setModelMessage('');
+    try {
+      const res = await authenticatedFetch(`${API_URL}/ai-model`, {
+        method: 'PUT',
+        body: JSON.stringify({ model: model || null })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to change model');
+      setModelMessage('✅ AI model updated');
+      onUpdate();
+    } catch (err) {
+      setModelMessage('❌ ' + (err as Error).message);
+    }
+  };
+
+  if (models.length === 0) return null;
+
+  const providers = [...new Set(models.map(option => option.providerName))];
+
+  return (
+    <Card className="p-6 mb-6">
+      <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+        <Sparkles className="w-5 h-5 text-purple-400" />
+        AI Model
+      </h2>
+      <p className="text-sm text-slate-400 mb-4">
+        The model that answers your chats and calls. If it is unavailable, another provider takes over automatically.
+      </p>
+      <select
+        aria-label="AI model"
+        value={config.ai_model || ''}
+        onChange={e => handleChange(e.target.value)}
+        className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+      >
+        <option value="">Platform default ({defaultModel})</option>
+        {providers.map(provider => (
+          <optgroup key={provider} label={provider}>
+            {models.filter(option => option.providerName === provider).map(option => (
+              <option key={option.id} value={option.id}>{option.model}</option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+      {config.ai_model && !models.some(option => option.id === config.ai_model) && (
+        <p className="text-sm text-amber-400 mt-2">{config.ai_model} is no longer offered; the platform default is used instead.</p>
+      )}
+      {modelMessage && <p className="text-sm text-slate-300 mt-3">{modelMessage}</p>}
+    </Card>
+  );
+};
+
+const PROMPT_CHANNEL_LABELS: Record<PromptChannel, string> = { chat: 'Web chat', voice: 'Phone', sms: 'Text message' };
+
+// Owner instructions and guardrails added to the receptionist prompt, with a preview of the exact prompt per channel
+const PromptCard: React.FC<{ config: BusinessConfig; onUpdate: () => void; isDemoMode?: boolean }> = ({ config, onUpdate, isDemoMode }) => {
+  const saved = config.prompt_settings;
+  const [instructions, setInstructions] = useState(saved?.instructions || '');
+  const [channelInstructions, setChannelInstructions] = useState<Partial<Record<PromptChannel, string>>>(saved?.channelInstructions || {});
+  const [guardrails, setGuardrails] = useState((saved?.guardrails || []).join('\n'));
+  const [channel, setChannel] = useState<PromptChannel>('chat');
+  const [question, setQuestion] = useState('');
+  const [preview, setPreview] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [promptMessage, setPromptMessage] = useState('');
+
+  const draft = (): PromptSettings => ({
+    instructions,
+    channelInstructions,
+    guardrails: guardrails.split('\n').map(line => line.trim()).filter(Boolean)
+  });
+
+  const handleSave = async () => {
+    setSaving(true);
+    setPromptMessage('');
+    try {
+      const res = await authenticatedFetch(`${API_URL}/prompt-settings`, {
+        method: 'PUT',
+        body: JSON.stringify(draft())
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save instructions');
+      setPromptMessage('✅ Instructions saved');
+      onUpdate();
+    } catch (err) {
+      setPromptMessage('❌ ' + (err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    setPromptMessage('');
+    try {
+      const res = await authenticatedFetch(`${API_URL}/prompt/preview`, {
+        method: 'POST',
+        body: JSON.stringify({ channel, promptSettings: draft(), question: question.trim() || undefined })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to build preview');
+      setPreview(data.prompt);
+    } catch (err) {
+      setPromptMessage('❌ ' + (err as Error).message);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-purple-500';
+
+  return (
+    <Card className="p-6 mb-6">
+      <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+        <ScrollText className="w-5 h-5 text-purple-400" />
+        AI Instructions
+      </h2>
+      <p className="text-sm text-slate-400 mb-4">
+        Extra instructions and rules for your receptionist. Use {'{{business_name}}'}, {'{{services}}'}, {'{{hours}}'}, {'{{tone}}'}, {'{{greeting}}'} or {'{{today}}'} to insert your details.
+      </p>
+
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="promptInstructions" className="block text-sm font-medium text-slate-300 mb-2">All channels</label>
+          <textarea
+            id="promptInstructions"
+            value={instructions}
+            maxLength={2000}
+            onChange={e => setInstructions(e.target.value)}
+            placeholder="e.g. Mention our new-patient offer when someone asks about check-ups."
+            className={`${inputClass} h-24 text-sm`}
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {(Object.keys(PROMPT_CHANNEL_LABELS) as PromptChannel[]).map(option => (
+            <div key={option}>
+              <label htmlFor={`promptChannel-${option}`} className="block text-sm font-medium text-slate-300 mb-2">{PROMPT_CHANNEL_LABELS[option]} only</label>
+              <textarea
+                id={`promptChannel-${option}`}
+                value={channelInstructions[option] || ''}
+                maxLength={2000}
+                onChange={e => setChannelInstructions(prev => ({ ...prev, [option]: e.target.value }))}
+                className={`${inputClass} h-20 text-sm`}
+              />
+            </div>
+          ))}
+        </div>
+        <div>
+          <label htmlFor="promptGuardrails" className="block text-sm font-medium text-slate-300 mb-2">Guardrails (one per line)</label>
+          <textarea
+            id="promptGuardrails"
+            value={guardrails}
+            onChange={e => setGuardrails(e.target.value)}
+            placeholder="e.g. Never quote prices for implants"
+            className={`${inputClass} h-20 text-sm`}
+          />
+          <p className="text-xs text-slate-500 mt-1">Added to the built-in rules: no invented details, no sensitive information, instructions stay private.</p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving || isDemoMode}
+          className="bg-purple-600 hover:bg-purple-700 disabled:bg-slate-700 disabled:text-slate-400 text-white py-2 px-4 rounded-lg font-bold transition"
+        >
+          {saving ? 'Saving...' : 'Save Instructions'}
+        </button>
+        {promptMessage && <p className="text-sm text-slate-300">{promptMessage}</p>}
+      </div>
+
+      <div className="mt-6 pt-4 border-t border-slate-800">
+        <h3 className="text-sm font-bold text-white mb-2">Preview the prompt</h3>
+        <div className="flex flex-col md:flex-row gap-2">
+          <select aria-label="Preview channel" value={channel} onChange={e => setChannel(e.target.value as PromptChannel)} className={`${inputClass} md:w-48`}>
+            {(Object.keys(PROMPT_CHANNEL_LABELS) as PromptChannel[]).map(option => (
+              <option key={option} value={option}>{PROMPT_CHANNEL_LABELS[option]}</option>
+            ))}
+          </select>
+          <input
+            value={question}
+            onChange={e => setQuestion(e.target.value)}
+            placeholder="Optional customer question (adds matching knowledge base passages)"
+            className={inputClass}
+          />
+          <button onClick={handlePreview} disabled={isDemoMode} className="px-4 py-2 rounded-lg bg-slate-800 text-white hover:bg-slate-700 disabled:text-slate-500 shrink-0">
+            Preview
+          </button>
+        </div>
+        {preview && (
+          <pre className="mt-3 p-4 bg-slate-900 rounded-lg text-xs text-slate-300 whitespace-pre-wrap max-h-96 overflow-y-auto">{preview}</pre>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+interface SettingsViewProps {
+  config: BusinessConfig;
+  onUpdate: () => void;
+  isDemoMode?: boolean;
+  onNavigate: (view: string) => void;
+  adminRole?: AdminRole | null;
+}
+
+// Settings View
+const SettingsView: React.FC<SettingsViewProps> = ({ config, onUpdate, isDemoMode, onNavigate, adminRole }) => {
+  const [twilioPhone, setTwilioPhone] = useState('');
+  const [accountSid, setAccountSid] = useState('');
+  const [authToken, setAuthToken] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState('');
+  const [twilioStatus, setTwilioStatus] = useState<TwilioStatus | null>(null);
+  const [numbers, setNumbers] = useState<TwilioNumber[]>([]);
+  const [loadingNumbers, setLoadingNumbers] = useState(false);
+  const [selectedSid, setSelectedSid] = useState('');
+  const [schedule, setSchedule] = useState<Schedule>(config.schedule || defaultSchedule());
+  const [savingSchedule, setSavingSchedule] = useState(false);
+  const [scheduleMessage, setScheduleMessage] = useState('');
+  const [forwardingNumber, setForwardingNumber] = useState(config.transfer_settings?.forwardingNumber || '');
+  const [ringGroup, setRingGroup] = useState((config.transfer_settings?.ringGroup || []).join(', '));
+  const [ringTimeout, setRingTimeout] = useState(config.transfer_settings?.timeoutSeconds || 20);
+  const [transferMessage, setTransferMessage] = useState('');
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(config.usage_settings || defaultUsageSettings());
+  const [usageMessage, setUsageMessage] = useState('');
+
+  useEffect(() => {
+    if (!isDemoMode) {
+      checkTwilioStatus();
+    }
+  }, [isDemoMode]);
+
+  const checkTwilioStatus = async () => {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/twilio/status`);
+      const data: TwilioStatus = await res.json();
+      setTwilioStatus(data);
+      if (data.phoneNumber) setTwilioPhone(data.phoneNumber);
+      if (data.accountConnected) {
+        setLoadingNumbers(true);
+        const numbersRes = await authenticatedFetch(`${API_URL}/twilio/numbers`);
+        const numbersData = await numbersRes.json();
+        if (!numbersRes.ok) throw new Error(numbersData.error || 'Failed to load numbers');
+        setNumbers(numbersData.numbers);
+        setSelectedSid(numbersData.numbers.find((n: TwilioNumber) => n.managed)?.sid || '');
+      }
+    } catch (err) {
+      console.error('Failed to check Twilio status:', err);
+    } finally {
+      setLoadingNumbers(false);
+    }
+  };
+
+  // Lists the numbers for credentials that have not been saved yet
+  const handleLookupNumbers = async () => {
+    setLoadingNumbers(true);
+    setMessage('');
+    try {
+      const res = await authenticatedFetch(`${API_URL}/twilio/numbers`, {
+        method: 'POST',
+        body: JSON.stringify({ accountSid, authToken })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load numbers');
+      setNumbers(data.numbers);
+      setTwilioPhone(data.numbers[0]?.phoneNumber || '');
+      if (data.numbers.length === 0) setMessage('❌ No voice-capable numbers found in this Twilio account.');
+    } catch (err) {
+      setMessage('❌ ' + (err as Error).message);
+    } finally {
+      setLoadingNumbers(false);
+    }
+  };
+
+  const handleSwitchNumber = async () => {
+    setLoading(true);
+    setMessage('');
+    try {
+      const res = await authenticatedFetch(`${API_URL}/twilio/switch`, {
+        method: 'POST',
+        body: JSON.stringify({ phoneNumberSid: selectedSid })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to switch number');
+      setMessage(`✅ AI Receptionist now answers ${data.phoneNumber}`);
+      checkTwilioStatus();
+      if (onUpdate) onUpdate();
+    } catch (err) {
+      setMessage('❌ ' + (err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDisconnectTwilio = async () => {
+    if (!window.confirm('Disconnect Twilio? Your number will get its previous call settings back and the AI will stop answering.')) return;
+
+    setLoading(true);
+    setMessage('');
+    try {
+      const res = await authenticatedFetch(`${API_URL}/twilio/disconnect`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to disconnect Twilio');
+      setMessage(data.restored
+        ? '✅ Twilio disconnected and your number\'s original settings restored'
+        : '✅ Twilio disconnected. We could not reach Twilio, so check the number\'s voice settings in your console.');
+      setNumbers([]);
+      setSelectedSid('');
+      setTwilioPhone('');
+      checkTwilioStatus();
+      if (onUpdate) onUpdate();
+    } catch (err) {
+      setMessage('❌ ' + (err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveTwilio = async () => {
+    setLoading(true);
+    setMessage('');
+
+    try {
+      const res = await authenticatedFetch(`${API_URL}/twilio/connect`, {
+        method: 'POST',
+        body: JSON.stringify({
+          phoneNumber: twilioPhone,
+          accountSid,
+          authToken
+        })
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        setMessage('✅ ' + (data.message || 'Twilio connected and configured successfully!'));
+        checkTwilioStatus();
+        if (onUpdate) onUpdate();
+      } else {
+        setMessage('❌ ' + (data.error || 'Failed to connect Twilio'));
+      }
+    } catch (err) {
+      setMessage('❌ Error: ' + (err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveSchedule = async () => {
+    setSavingSchedule(true);
+    setScheduleMessage('');
+    try {
+      const res = await authenticatedFetch(`${API_URL}/schedule`, {
+        method: 'PUT',
+        body: JSON.stringify(schedule)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save working hours');
+      setScheduleMessage('✅ Working hours saved');
+      if (onUpdate) onUpdate();
+    } catch (err) {
+      setScheduleMessage('❌ ' + (err as Error).message);
+    } finally {
+      setSavingSchedule(false);
+    }
+  };
+
+  const handleSaveTransfer = async () => {
+    setTransferMessage('');
+    try {
+      const res = await authenticatedFetch(`${API_URL}/transfer-settings`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          forwardingNumber: forwardingNumber.trim(),
+          ringGroup: ringGroup.split(',').map(n => n.trim()).filter(Boolean),
+          timeoutSeconds: ringTimeout
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save transfer settings');
+      setTransferMessage(data.transferSettings ? '✅ Call transfer enabled' : '✅ Call transfer disabled');
+      if (onUpdate) onUpdate();
+    } catch (err) {
+      setTransferMessage('❌ ' + (err as Error).message);
+    }
+  };
+
+  const toggleAlertThreshold = (threshold: number) => {
+    setUsageSettings(prev => ({
+      ...prev,
+      alertThresholds: prev.alertThresholds.includes(threshold)
+        ? prev.alertThresholds.filter(t => t !== threshold)
+        : [...prev.alertThresholds, threshold].sort((a, b) => a - b)
+    }));
+  };
+
+  const handleSaveUsageSettings = async () => {
+    setUsageMessage('');
+    try {
+      const res = await authenticatedFetch(`${API_URL}/usage-settings`, {
+        method: 'PUT',
+        body: JSON.stringify(usageSettings)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save usage settings');
+      setUsageMessage('✅ Usage settings saved');
+      if (onUpdate) onUpdate();
+    } catch (err) {
+      setUsageMessage('❌ ' + (err as Error).message);
+    }
+  };
+
+  if (isDemoMode) {
+    return (
+      <div>
+        <h1 className="text-3xl font-bold text-white mb-6">Settings</h1>
+        <div className="bg-slate-800/50 p-8 rounded-xl border border-slate-700 text-center">
+          <Lock className="w-12 h-12 text-slate-500 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-white mb-2">Settings are locked in Demo Mode</h2>
+          <p className="text-slate-400 mb-6">Create an account to save your business configuration and connect a phone number.</p>
+          <button
+            onClick={() => window.location.reload()}
+            className="bg-purple-600 hover:bg-purple-500 text-white px-6 py-2 rounded-lg font-bold transition"
+          >
+            Create Account
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold text-white mb-6">Settings</h1>
+
+      {/* Business Info */}
+      <BusinessProfileCard config={config} onUpdate={onUpdate} isDemoMode={isDemoMode} />
+
+      {/* Knowledge Base */}
+      <KnowledgeBaseCard isDemoMode={isDemoMode} />
+
+      {/* AI Model */}
+      <AiModelCard config={config} onUpdate={onUpdate} isDemoMode={isDemoMode} />
+
+      {/* AI Instructions */}
+      <PromptCard config={config} onUpdate={onUpdate} isDemoMode={isDemoMode} />
+
+      {/* Working Hours */}
+      <Card className="p-6 mb-6">
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+          <Clock className="w-5 h-5 text-purple-400" />
+          Working Hours
+        </h2>
+        <ScheduleEditor schedule={schedule} onChange={setSchedule} greetingLocked={!config.entitlements?.customGreeting} />
+        <button
+          onClick={handleSaveSchedule}
+          disabled={savingSchedule}
+          className="mt-6 bg-purple-600 hover:bg-purple-700 disabled:bg-slate-700 text-white py-2 px-4 rounded-lg font-bold transition"
+        >
+          {savingSchedule ? 'Saving...' : 'Save Working Hours'}
+        </button>
+        {scheduleMessage && <p className="text-sm text-slate-300 mt-3">{scheduleMessage}</p>}
+      </Card>
+
+      {/* Call Transfer */}
+      <Card className="p-6 mb-6">
+        <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+          <PhoneOutgoing className="w-5 h-5 text-pink-400" />
+          Call Transfer
+        </h2>
+        <p className="text-sm text-slate-400 mb-4">
+          When a caller asks for a person, the AI rings these numbers. If nobody answers, the caller can leave a voicemail. Leave empty to disable.
+        </p>
+        {!config.entitlements?.callTransfer && (
+          <div className="mb-4 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10 text-sm text-amber-300 flex items-center gap-2">
+            <Lock className="w-4 h-4 shrink-0" />
+            <span>
+              Call transfer is included in the Growth and Pro plans.{' '}
+              <button onClick={() => onNavigate('billing')} className="underline hover:text-amber-200">Upgrade</button> to turn it on.
+            </span>
+          </div>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="forwardingNumber" className="block text-sm font-medium text-slate-300 mb-2">Forwarding Number</label>
+            <input
+              id="forwardingNumber"
+              type="tel"
+              value={forwardingNumber}
+              onChange={e => setForwardingNumber(e.target.value)}
+              placeholder="+15551234567"
+              className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="ringTimeout" className="block text-sm font-medium text-slate-300 mb-2">Ring Time (seconds)</label>
+            <input
+              id="ringTimeout"
+              type="number"
+              min={5}
+              max={60}
+              value={ringTimeout}
+              onChange={e => setRingTimeout(Number(e.target.value))}
+              className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+            />
+          </div>
+        </div>
+        <label htmlFor="ringGroup" className="block text-sm font-medium text-slate-300 mt-4 mb-2">Ring Group (optional)</label>
+        <input
+          id="ringGroup"
+          value={ringGroup}
+          onChange={e => setRingGroup(e.target.value)}
+          placeholder="+15557654321, +15550001111"
+          className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+        />
+        <p className="text-xs text-slate-500 mt-1">These numbers ring at the same time as the forwarding number.</p>
+        <button onClick={handleSaveTransfer} className="mt-4 bg-purple-600 hover:bg-purple-700 text-white py-2 px-4 rounded-lg font-bold transition">
+          Save Transfer Settings
+        </button>
+        {transferMessage && <p className="text-sm text-slate-300 mt-3">{transferMessage}</p>}
+      </Card>
+
+      {/* Usage Limits & Alerts */}
+      <Card className="p-6 mb-6">
+        <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+          <CreditCard className="w-5 h-5 text-amber-400" />
+          Usage Limits & Alerts
+        </h2>
+        <p className="text-sm text-slate-400 mb-4">Choose what happens to new calls once your monthly minutes run out.</p>
+        <div className="space-y-2">
+          {LIMIT_ACTION_OPTIONS.map(option => (
+            <label
+              key={option.value}
+              className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition ${usageSettings.limitAction === option.value ? 'border-purple-500 bg-purple-500/10' : 'border-slate-700 hover:border-slate-600'}`}
+            >
+              <input
+                type="radio"
+                name="limitAction"
+                value={option.value}
+                checked={usageSettings.limitAction === option.value}
+                onChange={() => setUsageSettings(prev => ({ ...prev, limitAction: option.value }))}
+                className="mt-1 accent-purple-500"
+              />
+              <span>
+                <span className="block text-sm font-semibold text-white">{option.label}</span>
+                <span className="block text-xs text-slate-400">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        <p className="text-sm font-medium text-slate-300 mt-5 mb-2">Email me when I have used</p>
+        <div className="flex gap-4">
+          {[50, 80, 100].map(threshold => (
+            <label key={threshold} className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={usageSettings.alertThresholds.includes(threshold)}
+                onChange={() => toggleAlertThreshold(threshold)}
+                className="accent-purple-500"
+              />
+              {threshold}%
+            </label>
+          ))}
+        </div>
+        <button onClick={handleSaveUsageSettings} className="mt-5 bg-purple-600 hover:bg-purple-700 text-white py-2 px-4 rounded-lg font-bold transition">
+          Save Usage Settings
+        </button>
+        {usageMessage && <p className="text-sm text-slate-300 mt-3">{usageMessage}</p>}
+      </Card>
+
+      {/* Twilio Integration */}
+      <Card className="p-6">
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+          <Phone className="w-5 h-5 text-green-400" />
+          Twilio Auto-Configuration
+        </h2>
+
+        {twilioStatus?.connected ? (
+          <div className="mb-4 p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+            <p className="text-green-400 font-semibold flex items-center gap-2">
+              <CheckCircle2 className="w-5 h-5" />
+              Active Line: {twilioStatus.phoneNumber}
+            </p>
+          </div>
+        ) : (
+          <div className="mb-4 p-4 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+            <p className="text-amber-400 font-semibold">⚠️ AI Receptionist not live. Connect your Twilio account below.</p>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {twilioStatus?.accountConnected ? (
+            <>
+              <div>
+                <label htmlFor="managedNumber" className="block text-sm font-medium text-slate-300 mb-2">
+                  Managed Phone Number
+                </label>
+                <select
+                  id="managedNumber"
+                  value={selectedSid}
+                  onChange={(e) => setSelectedSid(e.target.value)}
+                  disabled={loadingNumbers}
+                  className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+                >
+                  {!selectedSid && <option value="">{loadingNumbers ? 'Loading numbers...' : 'Select a number'}</option>}
+                  {numbers.map(n => (
+                    <option key={n.sid} value={n.sid}>
+                      {n.phoneNumber}{n.friendlyName && n.friendlyName !== n.phoneNumber ? ` (${n.friendlyName})` : ''}{n.managed ? ' (active)' : ''}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-500 mt-1">
+                  Switching gives the old number its previous call settings back.
+                </p>
+              </div>
+
+              <div className="flex flex-col md:flex-row gap-3">
+                <button
+                  onClick={handleSwitchNumber}
+                  disabled={loading || !selectedSid || numbers.find(n => n.sid === selectedSid)?.managed}
+                  className="flex-1 bg-purple-600 hover:bg-purple-700 disabled:bg-slate-700 text-white py-3 px-4 rounded-lg font-bold transition flex items-center justify-center gap-2"
+                >
+                  <Sparkles className="w-4 h-4" />
+                  {loading ? 'Updating...' : 'Use This Number'}
+                </button>
+                <button
+                  onClick={handleDisconnectTwilio}
+                  disabled={loading}
+                  className="flex-1 bg-slate-800 hover:bg-red-500/20 text-red-400 border border-red-500/30 py-3 px-4 rounded-lg font-bold transition flex items-center justify-center gap-2"
+                >
+                  <PhoneOff className="w-4 h-4" />
+                  Disconnect Twilio
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="accountSid" className="block text-sm font-medium text-slate-300 mb-2">
+                    Account SID
+                  </label>
+                  <input
+                    id="accountSid"
+                    type="text"
+                    value={accountSid}
+                    onChange={(e) => { setAccountSid(e.target.value); setNumbers([]); }}
+                    placeholder="ACXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX"
+                    className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="authToken" className="block text-sm font-medium text-slate-300 mb-2">
+                    Auth Token
+                  </label>
+                  <input
+                    id="authToken"
+                    type="password"
+                    value={authToken}
+                    onChange={(e) => { setAuthToken(e.target.value); setNumbers([]); }}
+                    placeholder="••••••••••••••••••••••••••••••••"
+                    className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+                  />
+                </div>
+              </div>
+
+              {numbers.length === 0 ? (
+                <button
+                  onClick={handleLookupNumbers}
+                  disabled={loadingNumbers || !accountSid || !authToken}
+                  className="w-full bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-white py-3 px-4 rounded-lg font-bold transition"
+                >
+                  {loadingNumbers ? 'Loading numbers...' : 'Find My Numbers'}
+                </button>
+              ) : (
+                <div>
+                  <label htmlFor="twilioPhone" className="block text-sm font-medium text-slate-300 mb-2">
+                    Assigned Phone Number
+                  </label>
+                  <select
+                    id="twilioPhone"
+                    value={twilioPhone}
+                    onChange={(e) => setTwilioPhone(e.target.value)}
+                    className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+                  >
+                    {numbers.map(n => (
+                      <option key={n.sid} value={n.phoneNumber}>
+                        {n.phoneNumber}{n.friendlyName && n.friendlyName !== n.phoneNumber ? ` (${n.friendlyName})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-slate-500 mt-1">
+                    The Twilio number you want our AI to manage.
+                  </p>
+                </div>
+              )}
+
+              <button
+                onClick={handleSaveTwilio}
+                disabled={loading || !twilioPhone || !accountSid || !authToken || numbers.length === 0}
+                className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-slate-700 text-white py-3 px-4 rounded-lg font-bold transition flex items-center justify-center gap-2"
+              >
+                {loading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-white/20 border-t-white" />
+                    Configuring Webhooks...
+                  </>
+                ) : (
+                  <>
+                    <Sparkles className="w-4 h-4" />
+                    Connect & Setup AI Receptionist
+                  </>
+                )}
+              </button>
+            </>
+          )}
+
+          {message && (
+            <div className={`p-4 rounded-lg text-sm ${message.includes('✅') ? 'bg-green-500/10 text-green-400 border border-green-500/20' : 'bg-red-500/10 text-red-400 border border-red-500/20'}`}>
+              {message}
+            </div>
+          )}
+
+          <div className="mt-4 p-4 bg-slate-900/50 rounded-lg border border-slate-800">
+            <h3 className="text-sm font-semibold text-white mb-2 flex items-center gap-2">
+              <Lock className="w-4 h-4 text-slate-400" />
+              How it works:
+            </h3>
+            <p className="text-xs text-slate-400 leading-relaxed mb-3">
+              When you click "Connect", we securely use your credentials to automatically configure your Twilio number's voice settings to point to our AI server. You don't need to manually copy-paste any URLs!
+            </p>
+            <p className="text-xs text-slate-400 leading-relaxed mb-3">
+              Disconnecting (or switching numbers) puts back the voice settings your number had before, so nothing is left pointing at us.
+            </p>
+            <div className="flex gap-2 text-[10px]">
+              <span className="px-2 py-0.5 bg-slate-800 rounded text-slate-500">Auto-Webhook Setup</span>
+              <span className="px-2 py-0.5 bg-slate-800 rounded text-slate-500">Secure Storage</span>
+              <span className="px-2 py-0.5 bg-slate-800 rounded text-slate-500">Live instantly</span>
+            </div>
+          </div>
+        </div>
+      </Card>
+
+      {adminRole && (
+        <div className="mt-8 text-center">
+          <button
+            onClick={() => onNavigate('admin')}
+            className="text-slate-500 text-xs hover:text-slate-300 transition"
+          >
+            Admin Console
+          </button>
+        </div>
+      )}
+    </div >
+  );
+};
+
+// --- Call History ---
+
+interface CallLog {
+  id: string;
+  call_sid: string;
+  from_number: string;
+  to_number: string;
+  status: string;
+  duration: number | null;
+  recording_url: string | null;
+  created_at: string;
+}
+
+interface TranscriptTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  at?: string;
+}
+
+interface CallDetail extends CallLog {
+  transcript: TranscriptTurn[];
+  transfer_status: string | null;
+  recording_duration: number | null;
+  recording_status: string | null;
+  voicemail_transcript: string | null;
+}
+
+const CALLS_PAGE_SIZE = 20;
+
+const formatDuration = (seconds: number | null) => {
+  const total = seconds || 0;
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return mins > 0 ? `${mins}m ${secs}s` : `${secs}s`;
+};
+
+const callStatusColor = (status: string): BadgeColor => {
+  if (status === 'completed') return 'green';
+  if (status === 'ringing' || status === 'in-progress') return 'blue';
+  if (status === 'busy' || status === 'no-answer') return 'amber';
+  return 'red';
+};
+
+const VoicemailPlayer: React.FC<{ callId: string }> = ({ callId }) => {
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    authenticatedFetch(`${API_URL}/calls/${callId}/recording`)
+      .then(async res => {
+        if (!res.ok) throw new Error('Recording unavailable');
+        objectUrl = URL.createObjectURL(await res.blob());
+        setAudioUrl(objectUrl);
+      })
+      .catch(err => setError(err.message));
+
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [callId]);
+
+  if (error) return <p className="text-sm text-red-400">{error}</p>;
+  if (!audioUrl) return <p className="text-sm text-slate-400">Loading recording...</p>;
+  return <audio controls src={audioUrl} className="w-full" />;
+};
+
+const CallDetailPanel: React.FC<{ callId: string; onClose: () => void }> = ({ callId, onClose }) => {
+  const [call, setCall] = useState<CallDetail | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    authenticatedFetch(`${API_URL}/calls/${callId}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load call');
+        setCall(data);
+      })
+      .catch(err => setError(err.message));
+  }, [callId]);
+
+  const endedAt = call ? new Date(new Date(call.created_at).getTime() + (call.duration || 0) * 1000) : null;
+
+  return (
+    <Card className="p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-white">Call Details</h2>
+        <button onClick={onClose}><X className="w-5 h-5 text-slate-400 hover:text-white" /></button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {!call && !error && <p className="text-slate-400 text-sm">Loading call...</p>}
+
+      {call && (
+        <>
+          <div className="grid grid-cols-2 gap-3 text-sm mb-6">
+            <span className="text-slate-500">Caller</span>
+            <span className="text-white font-medium">{call.from_number}</span>
+            <span className="text-slate-500">Duration</span>
+            <span className="text-white">{formatDuration(call.duration)}</span>
+            <span className="text-slate-500">Status</span>
+            <span><Badge color={callStatusColor(call.status)}>{call.status}</Badge></span>
+            {call.transfer_status && (
+              <>
+                <span className="text-slate-500">Transfer</span>
+                <span className="text-white">{call.transfer_status}</span>
+              </>
+            )}
+          </div>
+
+          {call.recording_url && (
+            <div className="mb-6 p-4 bg-slate-900/50 rounded-xl border border-slate-700/50">
+              <h3 className="text-sm font-semibold text-slate-300 mb-3 flex items-center gap-2">
+                <Voicemail className="w-4 h-4 text-purple-400" />
+                Voicemail {call.recording_duration ? `(${formatDuration(call.recording_duration)})` : ''}
+              </h3>
+              {call.recording_status === 'processing' ? (
+                <p className="text-sm text-slate-400">Recording is still processing...</p>
+              ) : (
+                <VoicemailPlayer callId={call.id} />
+              )}
+              {call.voicemail_transcript && (
+                <p className="text-sm text-slate-300 mt-3 italic">"{call.voicemail_transcript}"</p>
+              )}
+            </div>
+          )}
+
+          <h3 className="text-sm font-semibold text-slate-300 mb-3">Timeline</h3>
+          <div className="space-y-3 border-l border-slate-700 pl-4">
+            <div>
+              <p className="text-xs text-slate-500">{new Date(call.created_at).toLocaleString()}</p>
+              <p className="text-sm text-slate-300">Call started</p>
+            </div>
+
+            {call.transcript.map((turn, i) => (
+              <div key={i}>
+                <p className="text-xs text-slate-500">
+                  {turn.role === 'user' ? 'Caller' : 'AI Agent'}
+                  {turn.at && ` · ${new Date(turn.at).toLocaleTimeString()}`}
+                </p>
+                <p className={`text-sm p-3 mt-1 rounded-xl ${turn.role === 'user' ? 'bg-slate-700 text-slate-200' : 'bg-purple-900/30 text-white'}`}>
+                  {turn.content}
+                </p>
+              </div>
+            ))}
+            {call.transcript.length === 0 && <p className="text-sm text-slate-500">No transcript recorded.</p>}
+
+            {call.status !== 'ringing' && call.status !== 'in-progress' && endedAt && (
+              <div>
+                <p className="text-xs text-slate-500">{endedAt.toLocaleString()}</p>
+                <p className="text-sm text-slate-300">Call ended ({call.status})</p>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
+
+const CallsView: React.FC<{ isDemoMode?: boolean }> = ({ isDemoMode }) => {
+  const [calls, setCalls] = useState<CallLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState('');
+  const [search, setSearch] = useState('');
+  const [voicemailOnly, setVoicemailOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [selectedCallId, setSelectedCallId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isDemoMode) return;
+
+    const fetchCalls = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ page: String(page), pageSize: String(CALLS_PAGE_SIZE) });
+        if (status) params.set('status', status);
+        if (search) params.set('search', search);
+        if (voicemailOnly) params.set('voicemail', 'true');
+
+        const res = await authenticatedFetch(`${API_URL}/calls?${params.toString()}`);
+        if (res.ok) {
+          const data = await res.json();
+          setCalls(data.calls);
+          setTotal(data.total);
+        }
+      } catch (e) {
+        console.error('Failed to fetch calls', e);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchCalls();
+  }, [isDemoMode, page, status, search, voicemailOnly]);
+
+  if (isDemoMode) {
+    return (
+      <div>
+        <h1 className="text-3xl font-bold text-white mb-6">Calls</h1>
+        <div className="bg-slate-800/50 p-8 rounded-xl border border-slate-700 text-center">
+          <Lock className="w-12 h-12 text-slate-500 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-white mb-2">Call history is locked in Demo Mode</h2>
+          <p className="text-slate-400">Create an account and connect a phone number to see real calls here.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const totalPages = Math.max(Math.ceil(total / CALLS_PAGE_SIZE), 1);
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold text-white mb-6">Calls</h1>
+
+      <div className="flex flex-col md:flex-row gap-3 mb-6">
+        <input
+          className="flex-1 bg-slate-900 border border-slate-700 text-white rounded-lg px-4 py-2 outline-none focus:border-purple-500"
+          placeholder="Search by caller number"
+          value={search}
+          onChange={e => { setSearch(e.target.value); setPage(1); }}
+        />
+        <select
+          className="bg-slate-900 border border-slate-700 text-white rounded-lg px-4 py-2 outline-none focus:border-purple-500"
+          value={status}
+          onChange={e => { setStatus(e.target.value); setPage(1); }}
+        >
+          <option value="">All statuses</option>
+          <option value="completed">Completed</option>
+          <option value="in-progress">In progress</option>
+          <option value="no-answer">No answer</option>
+          <option value="busy">Busy</option>
+          <option value="failed">Failed</option>
+        </select>
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input type="checkbox" checked={voicemailOnly} onChange={e => { setVoicemailOnly(e.target.checked); setPage(1); }} />
+          Voicemails only
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          {loading && <p className="text-slate-400 text-sm">Loading calls...</p>}
+          {!loading && calls.length === 0 && <p className="text-slate-500 text-center py-10">No calls found.</p>}
+          {calls.map(call => (
+            <Card
+              key={call.id}
+              className={`p-4 flex justify-between items-center hover:bg-slate-800/50 transition ${selectedCallId === call.id ? 'border-purple-500' : ''}`}
+              onClick={() => setSelectedCallId(call.id)}
+            >
+              <div>
+                <p className="text-white font-semibold flex items-center gap-2">
+                  <Phone className="w-4 h-4 text-slate-400" />
+                  {call.from_number}
+                  {call.recording_url && <Voicemail className="w-4 h-4 text-purple-400" />}
+                </p>
+                <p className="text-xs text-slate-500 mt-1">{new Date(call.created_at).toLocaleString()} · {formatDuration(call.duration)}</p>
+              </div>
+              <Badge color={callStatusColor(call.status)}>{call.status}</Badge>
+            </Card>
+          ))}
+
+          {total > CALLS_PAGE_SIZE && (
+            <div className="flex justify-between items-center pt-2 text-sm">
+              <button disabled={page <= 1} onClick={() => setPage(p => p - 1)} className="px-4 py-2 text-slate-400 hover:text-white disabled:opacity-40">Previous</button>
+              <span className="text-slate-500">Page {page} of {totalPages}</span>
+              <button disabled={page >= totalPages} onClick={() => setPage(p => p + 1)} className="px-4 py-2 text-slate-400 hover:text-white disabled:opacity-40">Next</button>
+            </div>
+          )}
+        </div>
+
+        <div>
+          {selectedCallId ? (
+            <CallDetailPanel key={selectedCallId} callId={selectedCallId} onClose={() => setSelectedCallId(null)} />
+          ) : (
+            <div className="hidden lg:flex items-center justify-center h-full min-h-[200px] border border-dashed border-slate-800 rounded-2xl text-slate-500 text-sm">
+              Select a call to view its transcript
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Appointments ---
+
+interface Appointment {
+  id: string;
+  customer_name: string;
+  customer_phone: string | null;
+  service: string | null;
+  date: string;
+  start_time: string;
+  end_time: string;
+  status: 'booked' | 'cancelled';
+  source: 'dashboard' | 'chat' | 'voice';
+}
+
+interface Availability {
+  slotMinutes: number;
+  weekly: Record<string, TimeRange[]>;
+}
+
+const AvailabilityEditor: React.FC = () => {
+  const [availability, setAvailability] = useState<Availability | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    authenticatedFetch(`${API_URL}/availability`)
+      .then(res => res.json())
+      .then(data => setAvailability(data))
+      .catch(err => console.error('Failed to load availability', err));
+  }, []);
+
+  if (!availability) return null;
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage('');
+    try {
+      const res = await authenticatedFetch(`${API_URL}/availability`, {
+        method: 'PUT',
+        body: JSON.stringify(availability)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save availability');
+      setAvailability(data);
+      setMessage('✅ Availability saved');
+    } catch (err) {
+      setMessage('❌ ' + (err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+        <Clock className="w-5 h-5 text-purple-400" />
+        Booking Availability
+      </h2>
+
+      <div className="mb-4">
+        <WeeklyHoursEditor weekly={availability.weekly} onChange={weekly => setAvailability({ ...availability, weekly })} />
+      </div>
+
+      <div className="flex items-center gap-3 mb-4 text-sm">
+        <label htmlFor="slotMinutes" className="text-slate-300">Appointment length</label>
+        <select
+          id="slotMinutes"
+          value={availability.slotMinutes}
+          onChange={e => setAvailability({ ...availability, slotMinutes: Number(e.target.value) })}
+          className="bg-slate-900 border border-slate-700 text-white rounded-lg px-2 py-1"
+        >
+          {[15, 30, 45, 60, 90].map(m => <option key={m} value={m}>{m} min</option>)}
+        </select>
+      </div>
+
+      <button onClick={handleSave} disabled={saving} className="bg-purple-600 hover:bg-purple-700 disabled:bg-slate-700 text-white py-2 px-4 rounded-lg font-bold transition">
+        {saving ? 'Saving...' : 'Save Availability'}
+      </button>
+      {message && <p className="text-sm text-slate-300 mt-3">{message}</p>}
+    </Card>
+  );
+};
+
+const AppointmentsView: React.FC<{ isDemoMode?: boolean }> = ({ isDemoMode }) => {
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAppointments = async () => {
+    try {
+      const today = new Date().toISOString().slice(0, 10);
+      const res = await authenticatedFetch(`${API_URL}/appointments?from=${today}`);
+      if (res.ok) setAppointments(await res.json());
+    } catch (e) {
+      console.error('Failed to fetch appointments', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isDemoMode) fetchAppointments();
+  }, [isDemoMode]);
+
+  const cancelAppointment = async (id: string) => {
+    if (!confirm('Cancel this appointment?')) return;
+    const res = await authenticatedFetch(`${API_URL}/appointments/${id}/cancel`, { method: 'POST' });
+    if (res.ok) {
+      fetchAppointments();
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(`❌ Error: ${data.error || 'Cancellation failed'}`);
+    }
+  };
+
+  if (isDemoMode) {
+    return (
+      <div>
+        <h1 className="text-3xl font-bold text-white mb-6">Appointments</h1>
+        <div className="bg-slate-800/50 p-8 rounded-xl border border-slate-700 text-center">
+          <Lock className="w-12 h-12 text-slate-500 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-white mb-2">Appointments are locked in Demo Mode</h2>
+          <p className="text-slate-400">Create an account to let your AI receptionist book real appointments.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold text-white mb-6">Appointments</h1>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <h2 className="text-lg font-bold text-white">Upcoming</h2>
+          {loading && <p className="text-slate-400 text-sm">Loading appointments...</p>}
+          {!loading && appointments.length === 0 && <p className="text-slate-500 text-center py-10">No upcoming appointments.</p>}
+          {appointments.map(a => (
+            <Card key={a.id} className="p-4 flex justify-between items-center">
+              <div>
+                <p className="text-white font-semibold">{a.customer_name}</p>
+                <p className="text-xs text-slate-400 mt-1">
+                  {a.date} · {a.start_time.slice(0, 5)}–{a.end_time.slice(0, 5)}
+                  {a.service && ` · ${a.service}`}
+                </p>
+                <p className="text-xs text-slate-500 mt-1">{a.customer_phone || 'No phone'} · via {a.source}</p>
+              </div>
+              {a.status === 'booked' ? (
+                <button onClick={() => cancelAppointment(a.id)} className="text-xs text-red-400 hover:text-red-300">Cancel</button>
+              ) : (
+                <Badge color="red">cancelled</Badge>
+              )}
+            </Card>
+          ))}
+        </div>
+
+        <AvailabilityEditor />
+      </div>
+    </div>
+  );
+};
+
+// --- Messages ---
+
+type MessageStatus = 'new' | 'read' | 'handled';
+
+interface CallerMessage {
+  id: string;
+  caller_name: string | null;
+  caller_phone: string | null;
+  reason: string;
+  urgency: 'low' | 'normal' | 'high';
+  status: MessageStatus;
+  source: 'chat' | 'voice';
+  created_at: string;
+}
+
+const urgencyColor: Record<CallerMessage['urgency'], BadgeColor> = {
+  low: 'blue',
+  normal: 'purple',
+  high: 'red'
+};
+
+const MessagesView: React.FC<{ isDemoMode?: boolean }> = ({ isDemoMode }) => {
+  const [messages, setMessages] = useState<CallerMessage[]>([]);
+  const [filter, setFilter] = useState<MessageStatus | ''>('');
+  const [loading, setLoading] = useState(true);
+
+  const fetchMessages = async (status: MessageStatus | '') => {
+    try {
+      const res = await authenticatedFetch(`${API_URL}/messages${status ? `?status=${status}` : ''}`);
+      if (res.ok) setMessages(await res.json());
+    } catch (e) {
+      console.error('Failed to fetch messages', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isDemoMode) fetchMessages(filter);
+  }, [isDemoMode, filter]);
+
+  const updateStatus = async (id: string, status: MessageStatus) => {
+    const res = await authenticatedFetch(`${API_URL}/messages/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status })
+    });
+    if (res.ok) {
+      fetchMessages(filter);
+    } else {
+      const data = await res.json().catch(() => ({}));
+      alert(`❌ Error: ${data.error || 'Update failed'}`);
+    }
+  };
+
+  if (isDemoMode) {
+    return (
+      <div>
+        <h1 className="text-3xl font-bold text-white mb-6">Messages</h1>
+        <div className="bg-slate-800/50 p-8 rounded-xl border border-slate-700 text-center">
+          <Lock className="w-12 h-12 text-slate-500 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-white mb-2">Messages are locked in Demo Mode</h2>
+          <p className="text-slate-400">Create an account to receive the messages your AI receptionist takes.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold text-white">Messages</h1>
+        <select
+          className="bg-slate-900 border border-slate-700 text-white rounded-lg px-4 py-2 outline-none focus:border-purple-500"
+          value={filter}
+          onChange={e => setFilter(e.target.value as MessageStatus | '')}
+        >
+          <option value="">All messages</option>
+          <option value="new">New</option>
+          <option value="read">Read</option>
+          <option value="handled">Handled</option>
+        </select>
+      </div>
+
+      <div className="space-y-3">
+        {loading && <p className="text-slate-400 text-sm">Loading messages...</p>}
+        {!loading && messages.length === 0 && <p className="text-slate-500 text-center py-10">No messages yet.</p>}
+        {messages.map(m => (
+          <Card key={m.id} className={`p-4 ${m.status === 'new' ? 'border-purple-500/50' : ''}`}>
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <p className="text-white font-semibold flex items-center gap-2">
+                  {m.caller_name || 'Unknown caller'}
+                  <Badge color={urgencyColor[m.urgency]}>{m.urgency}</Badge>
+                  {m.status !== 'new' && <Badge color="green">{m.status}</Badge>}
+                </p>
+                <p className="text-sm text-slate-300 mt-2">{m.reason}</p>
+                <p className="text-xs text-slate-500 mt-2">
+                  {m.caller_phone || 'No phone'} · via {m.source} · {new Date(m.created_at).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex flex-col gap-2 text-xs shrink-0">
+                {m.status === 'new' && (
+                  <button onClick={() => updateStatus(m.id, 'read')} className="text-slate-400 hover:text-white">Mark read</button>
+                )}
+                {m.status !== 'handled' && (
+                  <button onClick={() => updateStatus(m.id, 'handled')} className="text-green-400 hover:text-green-300">Mark handled</button>
+                )}
+              </div>
+            </div>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// --- Admin Component ---
+type AdminRole = 'support' | 'admin';
+
+interface AdminPayment extends PaymentRecord {
+  business_id: string;
+  email: string | null;
+  status_reason: string | null;
+  refund_reference: string | null;
+  businesses: { business_name: string } | null;
+}
+
+interface AuditEntry {
+  id: string;
+  actor: string;
+  action: 'approve' | 'reject' | 'refund' | 'downgrade' | 'adjust_limit' | 'change_plan' | 'suspend' | 'unsuspend' | 'impersonate';
+  payment_request_id: string | null;
+  business_id: string | null;
+  details: Record<string, string | number | null>;
+  created_at: string;
+  businesses: { business_name: string } | null;
+}
+
+const AUDIT_ACTION_COLORS: Record<AuditEntry['action'], BadgeColor> = {
+  approve: 'green',
+  reject: 'red',
+  refund: 'amber',
+  downgrade: 'purple',
+  adjust_limit: 'blue',
+  change_plan: 'purple',
+  suspend: 'red',
+  unsuspend: 'green',
+  impersonate: 'blue'
+};
+
+const describeAuditEntry = (entry: AuditEntry) => {
+  const { details } = entry;
+  switch (entry.action) {
+    case 'approve': return `Approved ${details.plan} ($${details.amount}), ${details.invoice}`;
+    case 'reject': return `Rejected: ${details.reason}`;
+    case 'refund': return `Refunded $${details.amount} via ${details.method}: ${details.reason}`;
+    case 'downgrade':
+    case 'change_plan': return `Plan ${details.from} → ${details.to}${details.reason ? `: ${details.reason}` : ''}`;
+    case 'adjust_limit': return `Minutes limit ${details.from ?? '-'} → ${details.to}${details.reason ? `: ${details.reason}` : ''}`;
+    case 'suspend': return `Suspended: ${details.reason}`;
+    case 'unsuspend': return 'Reactivated';
+    case 'impersonate': return 'Viewed dashboard (read-only)';
+  }
+};
+
+interface Tenant {
+  id: string;
+  business_name: string;
+  notification_email: string | null;
+  subscription_plan: string | null;
+  minutes_used: number | null;
+  minutes_limit: number | null;
+  renewal_status: string | null;
+  current_period_end: string | null;
+  suspended_at: string | null;
+  suspended_reason: string | null;
+  created_at: string;
+  twilio: { phoneNumber: string | null; accountConnected: boolean };
 }
 
-interface SettingsViewProps {
-  config: BusinessConfig;
-  onUpdate: () => void;
-  isDemoMode?: boolean;
-  onNavigate: (view: string) => void;
+interface TenantDetail {
+  business: Tenant;
+  recentCalls: Pick<CallLog, 'id' | 'from_number' | 'status' | 'duration' | 'created_at'>[];
 }
 
-// Settings View
-const SettingsView: React.FC<SettingsViewProps> = ({ config, onUpdate, isDemoMode, onNavigate }) => {
-  const [twilioPhone, setTwilioPhone] = useState('');
-  const [accountSid, setAccountSid] = useState('');
-  const [authToken, setAuthToken] = useState('');
+const TenantConsole = ({ canEdit, onChanged }: { canEdit: boolean; onChanged: () => void }) => {
+  const [search, setSearch] = useState('');
+  const [tenants, setTenants] = useState<Tenant[]>([]);
+  const [detail, setDetail] = useState<TenantDetail | null>(null);
+  const [viewAs, setViewAs] = useState<BusinessConfig | null>(null);
   const [loading, setLoading] = useState(false);
-  const [message, setMessage] = useState('');
-  const [twilioStatus, setTwilioStatus] = useState<TwilioStatus | null>(null);
+  const [error, setError] = useState('');
 
-  useEffect(() => {
-    if (!isDemoMode) {
-      checkTwilioStatus();
+  const searchTenants = async (term: string) => {
+    setLoading(true);
+    try {
+      const res = await authenticatedFetch(`${API_URL}/admin/tenants?search=${encodeURIComponent(term)}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load businesses');
+      setTenants(data);
+      setError('');
+    } catch (err) {
+      setError('❌ ' + (err as Error).message);
+    } finally {
+      setLoading(false);
     }
-  }, [isDemoMode]);
+  };
 
-  const checkTwilioStatus = async () => {
+  const openTenant = async (id: string) => {
+    setViewAs(null);
     try {
-      const res = await authenticatedFetch(`${API_URL}/twilio/status`);
-      const data: TwilioStatus = await res.json();
-      setTwilioStatus(data);
-      if (data.phoneNumber) setTwilioPhone(data.phoneNumber);
+      const res = await authenticatedFetch(`${API_URL}/admin/tenants/${id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load business');
+      setDetail(data);
     } catch (err) {
-      console.error('Failed to check Twilio status:', err);
+      setError('❌ ' + (err as Error).message);
     }
   };
 
-  const handleSaveTwilio = async () => {
-    setLoading(true);
-    setMessage('');
+  useEffect(() => {
+    searchTenants('');
+  }, []);
 
+  const runTenantAction = async (path: string, body: object) => {
+    if (!detail) return;
     try {
-      const res = await authenticatedFetch(`${API_URL}/twilio/connect`, {
+      const res = await authenticatedFetch(`${API_URL}/admin/tenants/${detail.business.id}/${path}`, {
         method: 'POST',
-        body: JSON.stringify({
-          phoneNumber: twilioPhone,
-          accountSid,
-          authToken
-        })
+        body: JSON.stringify(body)
       });
-
       const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Action failed');
+      alert(`✅ ${data.message}`);
+      openTenant(detail.business.id);
+      searchTenants(search);
+      onChanged();
+    } catch (err) {
+      alert(`❌ Error: ${(err as Error).message}`);
+    }
+  };
 
-      if (res.ok) {
-        setMessage('✅ ' + (data.message || 'Twilio connected and configured successfully!'));
-        checkTwilioStatus();
-        if (onUpdate) onUpdate();
-      } else {
-        setMessage('❌ ' + (data.error || 'Failed to connect Twilio'));
-      }
+  const adjustLimit = () => {
+    const value = prompt('New monthly minutes limit', String(detail?.business.minutes_limit ?? ''));
+    if (value === null || value.trim() === '') return;
+    const reason = prompt('Reason (optional)') || '';
+    runTenantAction('limits', { minutesLimit: Number(value), reason });
+  };
+
+  const changePlan = () => {
+    const plan = prompt('Move to which plan? (free, starter, growth, pro)', detail?.business.subscription_plan || 'free');
+    if (!plan?.trim()) return;
+    const reason = prompt('Reason (optional)') || '';
+    runTenantAction('plan', { plan: plan.trim().toLowerCase(), reason });
+  };
+
+  const toggleSuspended = () => {
+    if (!detail) return;
+    if (detail.business.suspended_at) {
+      if (confirm('Reactivate this business? Its calls will be answered again.')) runTenantAction('suspend', { suspended: false });
+      return;
+    }
+    const reason = prompt('Why is this business being suspended? Calls to its number will be refused.');
+    if (reason?.trim()) runTenantAction('suspend', { suspended: true, reason });
+  };
+
+  const openViewAs = async () => {
+    if (!detail) return;
+    try {
+      const res = await authenticatedFetch(`${API_URL}/admin/tenants/${detail.business.id}/view-as`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load dashboard');
+      setViewAs(data.config);
+      onChanged();
     } catch (err) {
-      setMessage('❌ Error: ' + (err as Error).message);
-    } finally {
-      setLoading(false);
+      alert(`❌ Error: ${(err as Error).message}`);
     }
   };
 
-  if (isDemoMode) {
+  if (viewAs) {
     return (
       <div>
-        <h1 className="text-3xl font-bold text-white mb-6">Settings</h1>
-        <div className="bg-slate-800/50 p-8 rounded-xl border border-slate-700 text-center">
-          <Lock className="w-12 h-12 text-slate-500 mx-auto mb-4" />
-          <h2 className="text-xl font-bold text-white mb-2">Settings are locked in Demo Mode</h2>
-          <p className="text-slate-400 mb-6">Create an account to save your business configuration and connect a phone number.</p>
-          <button
-            onClick={() => window.location.reload()}
-            className="bg-purple-600 hover:bg-purple-500 text-white px-6 py-2 rounded-lg font-bold transition"
-          >
-            Create Account
-          </button>
+        <div className="mb-6 p-3 rounded-lg border border-blue-500/30 bg-blue-500/10 text-sm text-blue-300 flex items-center justify-between">
+          <span>Viewing {viewAs.business_name}'s dashboard (read-only)</span>
+          <button onClick={() => setViewAs(null)} className="underline hover:text-blue-200">Back to console</button>
         </div>
+        <DashboardView config={viewAs} onNavigate={() => { }} readOnly />
       </div>
     );
   }
 
   return (
-    <div>
-      <h1 className="text-3xl font-bold text-white mb-6">Settings</h1>
-
-      {/* Business Info */}
-      <Card className="p-6 mb-6">
-        <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
-          <Globe className="w-5 h-5 text-purple-400" />
-          Business Information
-        </h2>
-        <div className="space-y-3 text-slate-300">
-          <div>
-            <span className="text-slate-500">Business Name:</span>{' '}
-            <span className="font-semibold">{config.business_name}</span>
-          </div>
-          <div>
-            <span className="text-slate-500">Industry:</span> {config.industry}
-          </div>
-          <div>
-            <span className="text-slate-500">Tone:</span> {config.tone}
-          </div>
-        </div>
-      </Card>
-
-      {/* Twilio Integration */}
-      <Card className="p-6">
-        <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
-          <Phone className="w-5 h-5 text-green-400" />
-          Twilio Auto-Configuration
-        </h2>
-
-        {twilioStatus?.connected ? (
-          <div className="mb-4 p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
-            <p className="text-green-400 font-semibold flex items-center gap-2">
-              <CheckCircle2 className="w-5 h-5" />
-              Active Line: {twilioStatus.phoneNumber}
-            </p>
-          </div>
+    <div className="grid md:grid-cols-2 gap-6">
+      <div>
+        <form onSubmit={e => { e.preventDefault(); searchTenants(search); }} className="flex gap-2 mb-4">
+          <input
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Search by name, email or phone number"
+            className="flex-1 bg-slate-950 border border-slate-800 rounded p-2 text-white text-sm"
+          />
+          <button type="submit" className="bg-purple-600 hover:bg-purple-700 text-white px-4 rounded text-sm">Search</button>
+        </form>
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+        {loading ? (
+          <p className="text-slate-500 text-sm">Loading...</p>
         ) : (
-          <div className="mb-4 p-4 bg-amber-500/10 border border-amber-500/20 rounded-lg">
-            <p className="text-amber-400 font-semibold">⚠️ AI Receptionist not live. Connect your Twilio account below.</p>
+          <div className="space-y-2">
+            {tenants.map(t => (
+              <button
+                key={t.id}
+                onClick={() => openTenant(t.id)}
+                className={`w-full text-left p-3 rounded-lg border transition ${detail?.business.id === t.id ? 'border-purple-500 bg-purple-500/10' : 'border-slate-800 bg-slate-900 hover:border-slate-700'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-white font-medium truncate">{t.business_name || 'Unnamed business'}</span>
+                  <div className="flex gap-1">
+                    {t.suspended_at && <Badge color="red">suspended</Badge>}
+                    <Badge color={(t.subscription_plan || 'free') === 'free' ? 'blue' : 'purple'}>{t.subscription_plan || 'free'}</Badge>
+                  </div>
+                </div>
+                <p className="text-xs text-slate-500 mt-1">
+                  {t.notification_email || 'No email'} · {t.minutes_used || 0}/{t.minutes_limit ?? '-'} min · {t.twilio.phoneNumber || 'No number'}
+                </p>
+              </button>
+            ))}
+            {tenants.length === 0 && <p className="text-slate-500 text-sm">No businesses found.</p>}
           </div>
         )}
+      </div>
 
-        <div className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <label htmlFor="accountSid" className="block text-sm font-medium text-slate-300 mb-2">
-                Account SID
-              </label>
-              <input
-                id="accountSid"
-                type="text"
-                value={accountSid}
-                onChange={(e) => setAccountSid(e.target.value)}
-                placeholder="ACXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX"
-                className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
-              />
-            </div>
+      {detail ? (
+        <Card className="p-5 bg-slate-900 border-slate-800 h-fit">
+          <h3 className="text-xl font-bold text-white">{detail.business.business_name}</h3>
+          <p className="text-xs text-slate-500 mb-4">{detail.business.notification_email} · joined {formatPeriodDate(detail.business.created_at)}</p>
+          {detail.business.suspended_at && (
+            <p className="mb-4 text-sm text-red-400">Suspended {formatPeriodDate(detail.business.suspended_at)}: {detail.business.suspended_reason}</p>
+          )}
+          <dl className="grid grid-cols-2 gap-3 text-sm mb-4">
+            <div><dt className="text-slate-500 text-xs">Plan</dt><dd className="text-white capitalize">{detail.business.subscription_plan || 'free'} ({detail.business.renewal_status || 'active'})</dd></div>
+            <div><dt className="text-slate-500 text-xs">Minutes</dt><dd className="text-white">{detail.business.minutes_used || 0} / {detail.business.minutes_limit ?? '-'}</dd></div>
+            <div><dt className="text-slate-500 text-xs">Period ends</dt><dd className="text-white">{detail.business.current_period_end ? formatPeriodDate(detail.business.current_period_end) : '-'}</dd></div>
             <div>
-              <label htmlFor="authToken" className="block text-sm font-medium text-slate-300 mb-2">
-                Auth Token
-              </label>
-              <input
-                id="authToken"
-                type="password"
-                value={authToken}
-                onChange={(e) => setAuthToken(e.target.value)}
-                placeholder="••••••••••••••••••••••••••••••••"
-                className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
-              />
+              <dt className="text-slate-500 text-xs">Twilio</dt>
+              <dd className="text-white">
+                {detail.business.twilio.phoneNumber || 'No number'}
+                {detail.business.twilio.accountConnected ? ' (own account)' : ''}
+              </dd>
             </div>
-          </div>
-
-          <div>
-            <label htmlFor="twilioPhone" className="block text-sm font-medium text-slate-300 mb-2">
-              Assigned Phone Number
-            </label>
-            <input
-              id="twilioPhone"
-              type="tel"
-              value={twilioPhone}
-              onChange={(e) => setTwilioPhone(e.target.value)}
-              placeholder="+1234567890"
-              className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
-            />
-            <p className="text-xs text-slate-500 mt-1">
-              The Twilio number you want our AI to manage.
-            </p>
-          </div>
-
-          <button
-            onClick={handleSaveTwilio}
-            disabled={loading || !twilioPhone || !accountSid || !authToken}
-            className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-slate-700 text-white py-3 px-4 rounded-lg font-bold transition flex items-center justify-center gap-2"
-          >
-            {loading ? (
-              <>
-                <div className="animate-spin rounded-full h-4 w-4 border-2 border-white/20 border-t-white" />
-                Configuring Webhooks...
-              </>
-            ) : (
+          </dl>
+          <div className="flex flex-wrap gap-2 mb-4">
+            <button onClick={openViewAs} className="text-xs px-3 py-1 rounded border border-blue-500/30 text-blue-300 hover:bg-blue-500/10">
+              View as (read-only)
+            </button>
+            {canEdit && (
               <>
-                <Sparkles className="w-4 h-4" />
-                Connect & Setup AI Receptionist
+                <button onClick={adjustLimit} className="text-xs px-3 py-1 rounded border border-slate-700 text-slate-300 hover:bg-slate-800">Adjust limit</button>
+                <button onClick={changePlan} className="text-xs px-3 py-1 rounded border border-slate-700 text-slate-300 hover:bg-slate-800">Change plan</button>
+                <button
+                  onClick={toggleSuspended}
+                  className={`text-xs px-3 py-1 rounded border ${detail.business.suspended_at ? 'border-green-500/30 text-green-400 hover:bg-green-500/10' : 'border-red-500/30 text-red-400 hover:bg-red-500/10'}`}
+                >
+                  {detail.business.suspended_at ? 'Reactivate' : 'Suspend'}
+                </button>
               </>
             )}
-          </button>
-
-          {message && (
-            <div className={`p-4 rounded-lg text-sm ${message.includes('✅') ? 'bg-green-500/10 text-green-400 border border-green-500/20' : 'bg-red-500/10 text-red-400 border border-red-500/20'}`}>
-              {message}
-            </div>
-          )}
-
-          <div className="mt-4 p-4 bg-slate-900/50 rounded-lg border border-slate-800">
-            <h3 className="text-sm font-semibold text-white mb-2 flex items-center gap-2">
-              <Lock className="w-4 h-4 text-slate-400" />
-              How it works:
-            </h3>
-            <p className="text-xs text-slate-400 leading-relaxed mb-3">
-              When you click "Connect", we securely use your credentials to automatically configure your Twilio number's voice settings to point to our AI server. You don't need to manually copy-paste any URLs!
-            </p>
-            <div className="flex gap-2 text-[10px]">
-              <span className="px-2 py-0.5 bg-slate-800 rounded text-slate-500">Auto-Webhook Setup</span>
-              <span className="px-2 py-0.5 bg-slate-800 rounded text-slate-500">Secure Storage</span>
-              <span className="px-2 py-0.5 bg-slate-800 rounded text-slate-500">Live instantly</span>
-            </div>
           </div>
-        </div>
-      </Card>
-
-      <div className="mt-8 text-center">
-        <button
-          onClick={() => onNavigate('admin')}
-          className="text-slate-800 text-xs hover:text-slate-600 transition"
-        >
-          Admin Access
-        </button>
-      </div>
-    </div >
+          <h4 className="text-sm font-bold text-white mb-2">Recent calls</h4>
+          {detail.recentCalls.length === 0 ? (
+            <p className="text-xs text-slate-500">No calls yet.</p>
+          ) : (
+            <ul className="space-y-1">
+              {detail.recentCalls.map(call => (
+                <li key={call.id} className="text-xs text-slate-400 flex justify-between gap-2">
+                  <span>{call.from_number || 'Unknown'} · {call.status}</span>
+                  <span className="text-slate-500">{Math.ceil((call.duration || 0) / 60)} min · {new Date(call.created_at).toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      ) : (
+        <p className="text-slate-500 text-sm">Select a business to see its details.</p>
+      )}
+    </div>
   );
 };
 
-// --- Admin Component ---
-const AdminView = ({ onNavigate }: { onNavigate: (view: string) => void }) => {
-  const [payments, setPayments] = useState<any[]>([]);
-  const [secret, setSecret] = useState('');
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [loading, setLoading] = useState(false);
+const AdminView = ({ onNavigate, role }: { onNavigate: (view: string) => void; role: AdminRole }) => {
+  const [payments, setPayments] = useState<AdminPayment[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [tab, setTab] = useState<'payments' | 'tenants'>('payments');
+  const canEdit = role === 'admin';
 
   const fetchPayments = async () => {
-    setLoading(true);
     try {
-      const res = await fetch(`${API_URL}/admin/payments`, {
-        headers: { 'x-admin-secret': secret }
-      });
-      if (res.ok) {
-        const data = await res.json();
-        setPayments(data);
-        setIsAuthenticated(true);
-      } else {
-        alert('Invalid Secret');
-      }
+      const [res, auditRes] = await Promise.all([
+        authenticatedFetch(`${API_URL}/admin/payments`),
+        authenticatedFetch(`${API_URL}/admin/audit-log`)
+      ]);
+      if (!res.ok) throw new Error(res.status === 403 ? 'Your account does not have admin access' : `Server returned ${res.status}`);
+      setPayments(await res.json());
+      if (auditRes.ok) setAuditLog(await auditRes.json());
+      setError('');
     } catch (e) {
       console.error(e);
-      alert('Connection Error');
+      setError('❌ ' + (e as Error).message);
     } finally {
       setLoading(false);
     }
   };
 
-  const approvePayment = async (id: string) => {
-    if (!confirm('Approve this payment?')) return;
+  useEffect(() => {
+    fetchPayments();
+  }, []);
+
+  const runAction = async (path: string, body: object, fallbackError: string) => {
     try {
-      const res = await fetch(`${API_URL}/admin/approve`, {
+      const res = await authenticatedFetch(`${API_URL}/admin/${path}`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-admin-secret': secret
-        },
-        body: JSON.stringify({ requestId: id })
+        body: JSON.stringify(body)
       });
+      const data = await res.json().catch(() => ({}));
       if (res.ok) {
-        alert('✅ Success! Plan activated for this user. \n\nRemember to send the manual confirmation email.');
+        alert(`✅ ${data.message}`);
         fetchPayments();
       } else {
-        const errorData = await res.json().catch(() => ({}));
-        alert(`❌ Error: ${errorData.error || 'Activation failed'}`);
+        alert(`❌ Error: ${data.error || fallbackError}`);
       }
     } catch (e) {
       console.error(e);
@@ -1645,57 +4078,137 @@ const AdminView = ({ onNavigate }: { onNavigate: (view: string) => void }) => {
     }
   };
 
-  if (!isAuthenticated) {
-    return (
-      <div className="max-w-md mx-auto mt-20 px-4">
-        <Card className="p-6 bg-slate-900 border-slate-800">
-          <h2 className="text-xl font-bold text-white mb-4">Admin Access</h2>
-          <input
-            type="password"
-            placeholder="Admin Secret"
-            className="w-full bg-slate-950 border border-slate-800 rounded p-2 text-white mb-4"
-            value={secret}
-            onChange={e => setSecret(e.target.value)}
-          />
-          <button onClick={fetchPayments} disabled={loading} className="w-full bg-purple-600 hover:bg-purple-700 text-white p-2 rounded transition">
-            {loading ? 'Verifying...' : 'Login'}
-          </button>
-        </Card>
-      </div>
-    );
-  }
+  const approvePayment = (id: string) => {
+    if (!confirm('Approve this payment?')) return;
+    runAction('approve', { requestId: id }, 'Activation failed');
+  };
+
+  const rejectPayment = (id: string) => {
+    const reason = prompt('Why is this payment being rejected? (shown in the audit log)');
+    if (!reason?.trim()) return;
+    runAction('reject', { requestId: id, reason }, 'Rejection failed');
+  };
+
+  const refundPayment = (payment: AdminPayment) => {
+    const reason = prompt(`Refund $${payment.amount} to ${payment.email || 'this customer'}? Enter a reason:`);
+    if (!reason?.trim()) return;
+    const downgrade = confirm('Also move this business back to the Free plan now?');
+    runAction('refund', { requestId: payment.id, reason, downgrade }, 'Refund failed');
+  };
+
+  const downgradeBusiness = (payment: AdminPayment) => {
+    const plan = prompt('Downgrade to which plan? (free, starter, growth)', 'free');
+    if (!plan?.trim()) return;
+    const reason = prompt('Reason for the downgrade (optional)') || '';
+    runAction('downgrade', { businessId: payment.business_id, plan: plan.trim().toLowerCase(), reason }, 'Downgrade failed');
+  };
+
+  if (loading) return <div className="text-white p-8">Loading admin console...</div>;
 
   return (
-    <div className="max-w-4xl mx-auto mt-8 px-4">
+    <div className="max-w-5xl mx-auto mt-8 px-4 pb-12">
       <div className="flex justify-between items-center mb-6">
-        <h2 className="text-2xl font-bold text-white">Payment Requests</h2>
-        <button onClick={() => { setIsAuthenticated(false); onNavigate('dashboard'); }} className="text-slate-400 hover:text-white">Exit</button>
+        <div className="flex gap-2">
+          {(['payments', 'tenants'] as const).map(name => (
+            <button
+              key={name}
+              onClick={() => setTab(name)}
+              className={`px-4 py-2 rounded-lg text-sm font-bold transition ${tab === name ? 'bg-purple-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            >
+              {name === 'payments' ? 'Payment Requests' : 'Businesses'}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <Badge color={canEdit ? 'purple' : 'blue'}>{role}</Badge>
+          <button onClick={() => onNavigate('dashboard')} className="text-slate-400 hover:text-white">Exit</button>
+        </div>
       </div>
-      <div className="space-y-4">
-        {payments.map((p: any) => (
-          <Card key={p.id} className="p-4 bg-slate-900 border-slate-800 flex flex-col md:flex-row justify-between items-center gap-4">
-            <div>
-              <p className="text-white font-bold flex items-center gap-2">
-                {p.plan.toUpperCase()} <span className="text-slate-500">|</span> ${p.amount}
-              </p>
-              <p className="text-sm text-slate-400">Ref: {p.payment_reference}</p>
-              <p className="text-xs text-slate-500 mt-1">{new Date(p.created_at).toLocaleString()} via {p.payment_method}</p>
-            </div>
-            <div className="flex gap-2">
-              {p.status === 'pending' ? (
-                <button onClick={() => approvePayment(p.id)} className="bg-green-600 text-white px-4 py-2 rounded text-sm hover:bg-green-700 font-bold">
-                  Approve
-                </button>
-              ) : (
-                <span className={`text-xs px-3 py-1 rounded-full font-bold uppercase tracking-wider ${p.status === 'approved' ? 'bg-green-500/20 text-green-400 border border-green-500/30' : 'bg-red-500/20 text-red-400 border border-red-500/30'}`}>
-                  {p.status === 'approved' ? 'Activated' : p.status}
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+      {!canEdit && <p className="text-sm text-slate-400 mb-4">Support access is read-only. Ask an admin to approve, reject or refund payments.</p>}
+      {tab === 'tenants' ? (
+        <TenantConsole canEdit={canEdit} onChanged={fetchPayments} />
+      ) : (
+        <div className="space-y-4">
+          {payments.map(p => {
+            const history = auditLog.filter(entry => entry.payment_request_id === p.id);
+            return (
+              <Card key={p.id} className="p-4 bg-slate-900 border-slate-800">
+                <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+                  <div>
+                    <p className="text-white font-bold flex items-center gap-2">
+                      {p.plan.toUpperCase()} <span className="text-slate-500">|</span> ${p.amount}
+                      {p.businesses?.business_name && <span className="text-sm font-normal text-slate-400">{p.businesses.business_name}</span>}
+                    </p>
+                    <p className="text-sm text-slate-400">Ref: {p.payment_reference}</p>
+                    <p className="text-xs text-slate-500 mt-1">{new Date(p.created_at).toLocaleString()} via {p.payment_method}</p>
+                    {p.status_reason && <p className="text-xs text-slate-400 mt-1">Reason: {p.status_reason}</p>}
+                  </div>
+                  <div className="flex flex-wrap gap-2 justify-end">
+                    {p.status === 'pending' && canEdit ? (
+                      <>
+                        <button onClick={() => approvePayment(p.id)} className="bg-green-600 text-white px-4 py-2 rounded text-sm hover:bg-green-700 font-bold">
+                          Approve
+                        </button>
+                        <button onClick={() => rejectPayment(p.id)} className="bg-red-600/20 text-red-400 border border-red-500/30 px-4 py-2 rounded text-sm hover:bg-red-600/30 font-bold">
+                          Reject
+                        </button>
+                      </>
+                    ) : (
+                      <span className={`text-xs px-3 py-1 rounded-full font-bold uppercase tracking-wider ${p.status === 'approved' ? 'bg-green-500/20 text-green-400 border border-green-500/30' : 'bg-red-500/20 text-red-400 border border-red-500/30'}`}>
+                        {p.status === 'approved' ? 'Activated' : p.status}
+                      </span>
+                    )}
+                    {p.status === 'approved' && canEdit && (
+                      <>
+                        <button onClick={() => refundPayment(p)} className="text-xs px-3 py-1 rounded border border-amber-500/30 text-amber-400 hover:bg-amber-500/10">
+                          Refund
+                        </button>
+                        <button onClick={() => downgradeBusiness(p)} className="text-xs px-3 py-1 rounded border border-slate-700 text-slate-300 hover:bg-slate-800">
+                          Downgrade
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {history.length > 0 && (
+                  <ul className="mt-3 pt-3 border-t border-slate-800 space-y-1">
+                    {history.map(entry => (
+                      <li key={entry.id} className="text-xs text-slate-500">
+                        {new Date(entry.created_at).toLocaleString()} · <span className="text-slate-300">{entry.actor}</span> · {describeAuditEntry(entry)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </Card>
+            );
+          })}
+          {payments.length === 0 && <p className="text-slate-500 text-center py-10">No pending requests found.</p>}
+        </div>
+      )}
+
+      <h2 className="text-2xl font-bold text-white mt-10 mb-4 flex items-center gap-2">
+        <History className="w-5 h-5 text-purple-400" />
+        Audit Log
+      </h2>
+      <Card className="p-4 bg-slate-900 border-slate-800">
+        {auditLog.length === 0 ? (
+          <p className="text-slate-500 text-sm">No admin actions yet.</p>
+        ) : (
+          <div className="divide-y divide-slate-800">
+            {auditLog.map(entry => (
+              <div key={entry.id} className="py-2 flex flex-wrap items-center gap-3 text-sm">
+                <Badge color={AUDIT_ACTION_COLORS[entry.action] || 'blue'}>{entry.action}</Badge>
+                <span className="text-slate-300 flex-1 min-w-[12rem]">
+                  {entry.businesses?.business_name && <span className="text-white font-medium">{entry.businesses.business_name}: </span>}
+                  {describeAuditEntry(entry)}
                 </span>
-              )}
-            </div>
-          </Card>
-        ))}
-        {payments.length === 0 && <p className="text-slate-500 text-center py-10">No pending requests found.</p>}
-      </div>
+                <span className="text-xs text-slate-500">{entry.actor} · {new Date(entry.created_at).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
     </div>
   );
 };
@@ -1741,6 +4254,27 @@ const AppShell: React.FC<AppShellProps> = ({ children, onLogout, user, onViewCha
             <LayoutDashboard className="w-4 h-4" />
             Dashboard
           </button>
+          <button
+            onClick={() => { onViewChange('calls'); setIsMenuOpen(false); }}
+            className="flex items-center gap-3 w-full text-left px-3 py-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-900 transition"
+          >
+            <History className="w-4 h-4" />
+            Calls
+          </button>
+          <button
+            onClick={() => { onViewChange('appointments'); setIsMenuOpen(false); }}
+            className="flex items-center gap-3 w-full text-left px-3 py-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-900 transition"
+          >
+            <CalendarDays className="w-4 h-4" />
+            Appointments
+          </button>
+          <button
+            onClick={() => { onViewChange('messages'); setIsMenuOpen(false); }}
+            className="flex items-center gap-3 w-full text-left px-3 py-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-900 transition"
+          >
+            <Inbox className="w-4 h-4" />
+            Messages
+          </button>
           <button
             onClick={() => { onViewChange('settings'); setIsMenuOpen(false); }}
             className="flex items-center gap-3 w-full text-left px-3 py-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-900 transition"
@@ -1788,8 +4322,9 @@ const AppShell: React.FC<AppShellProps> = ({ children, onLogout, user, onViewCha
 export default function App() {
   const [session, setSession] = useState<any>(null);
   const [config, setConfig] = useState<BusinessConfig | null>(null);
-  const [view, setView] = useState('loading'); // loading, auth, onboarding, dashboard, chat-demo, phone-demo, settings
+  const [view, setView] = useState('loading'); // loading, auth, onboarding, dashboard, calls, appointments, messages, chat-demo, phone-demo, settings
   const [isDemoMode, setIsDemoMode] = useState(false);
+  const [adminRole, setAdminRole] = useState<AdminRole | null>(null);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -1819,6 +4354,12 @@ export default function App() {
     console.log("[App] Checking setup status...");
     if (view !== 'loading') setView('loading');
 
+    // Admin console access follows the logged-in user's role
+    authenticatedFetch(`${API_URL}/me/admin`)
+      .then(res => (res.ok ? res.json() : { role: null }))
+      .then((data: { role: AdminRole | null }) => setAdminRole(data.role))
+      .catch(() => setAdminRole(null));
+
     try {
       const res = await authenticatedFetch(`${API_URL}/status`, {
         headers: { 'Authorization': `Bearer ${currentSession.access_token}` }
@@ -1836,7 +4377,8 @@ export default function App() {
       const data = await res.json();
       if (data.setupCompleted) {
         setConfig(data.config);
-        setView('dashboard');
+        // Returning from a card checkout lands on Billing to show the result
+        setView(new URLSearchParams(window.location.search).has('checkout') ? 'billing' : 'dashboard');
       } else {
         setConfig(data.config || {});
         setView('onboarding');
@@ -1856,6 +4398,7 @@ export default function App() {
     } else {
       await supabase.auth.signOut();
       setConfig(null); // Clear config on logout
+      setAdminRole(null);
       setView('auth'); // Go to auth page
     }
   };
@@ -1890,9 +4433,12 @@ export default function App() {
   return (
     <AppShell onLogout={handleLogout} user={isDemoMode ? { email: 'Demo User' } : session?.user} onViewChange={setView}>
       {view === 'dashboard' && <DashboardView config={config || {} as BusinessConfig} onNavigate={setView} isDemoMode={isDemoMode} />}
-      {view === 'settings' && <SettingsView config={config || {} as BusinessConfig} onUpdate={() => session && checkSetup(session)} isDemoMode={isDemoMode} onNavigate={setView} />}
+      {view === 'calls' && <CallsView isDemoMode={isDemoMode} />}
+      {view === 'appointments' && <AppointmentsView isDemoMode={isDemoMode} />}
+      {view === 'messages' && <MessagesView isDemoMode={isDemoMode} />}
+      {view === 'settings' && <SettingsView config={config || {} as BusinessConfig} onUpdate={() => session && checkSetup(session)} isDemoMode={isDemoMode} onNavigate={setView} adminRole={adminRole} />}
       {view === 'billing' && <BillingView business={config || {} as BusinessConfig} isDemoMode={isDemoMode} />}
-      {view === 'admin' && <AdminView onNavigate={setView} />}
+      {view === 'admin' && adminRole && <AdminView onNavigate={setView} role={adminRole} />}
       {view === 'chat-demo' && <ChatDemoView config={config || {} as BusinessConfig} isDemoMode={isDemoMode} />}
       {view === 'phone-demo' && <VoiceDemoView config={config || {} as BusinessConfig} isDemoMode={isDemoMode} />}
     </AppShell>